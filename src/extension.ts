@@ -59,7 +59,7 @@ export function activate(context: vscode.ExtensionContext) {
     issuesTreeView.onDidExpandElement(event => {
         const element = event.element as any;
         console.log('Tree item expanded:', element?.label, element?.contextValue, element?.id);
-        if (element && element.contextValue === 'severity' && element.id) {
+        if (element && ['severity', 'category', 'conformance'].includes(element.contextValue || '') && element.id) {
             a11yassistIssuesProvider.setSeverityExpandedState(element.id, true);
         }
     });
@@ -67,7 +67,7 @@ export function activate(context: vscode.ExtensionContext) {
     issuesTreeView.onDidCollapseElement(event => {
         const element = event.element as any;
         console.log('Tree item collapsed:', element?.label, element?.contextValue, element?.id);
-        if (element && element.contextValue === 'severity' && element.id) {
+        if (element && ['severity', 'category', 'conformance'].includes(element.contextValue || '') && element.id) {
             a11yassistIssuesProvider.setSeverityExpandedState(element.id, false);
         }
     });
@@ -81,13 +81,18 @@ export function activate(context: vscode.ExtensionContext) {
             console.log('[Audit] Starting audit command...');
             await analyticsManager.trackEvent('audit_run');
             console.log('[Audit] trackEvent completed, now running audit...');
-            const results = await accessibilityAuditor.runAudit();
-            a11yassistIssuesProvider.updateIssues(results);
+            const result = await accessibilityAuditor.runAudit();
+            if (!result) {
+                return;
+            }
+
+            a11yassistIssuesProvider.updateAuditResult(result);
+            a11yassistStatsProvider.updateAuditResult(result);
 
             // Update analytics with issue counts
             const stats = analyticsManager.getUsageStatistics();
             const baselineIssuesCount = stats.totalIssuesFound; // Baseline (max ever found)
-            const currentIssuesCount = results.length; // Current audit result
+            const currentIssuesCount = result.totalIssues; // Current audit result
             const lastAuditCount = await analyticsManager.getLastAuditCount();
 
             console.log(`[Audit] Stats after trackEvent - Total Audits: ${stats.totalAuditsRun}`);
@@ -131,8 +136,11 @@ export function activate(context: vscode.ExtensionContext) {
 
             a11yassistStatsProvider.refresh();
 
+            const compliance = result.wcagCompliance;
+            const level = compliance.levelAAA ? 'AAA' : compliance.levelAA ? 'AA' : compliance.levelA ? 'A' : undefined;
             vscode.window.showInformationMessage(
-                `Accessibility Audit Complete: Found ${results.length} issue(s)`
+                `Accessibility Audit Complete: Found ${result.totalIssues} issue(s). ` +
+                (level ? `No WCAG ${result.wcagVersion} Level ${level} failures found` : `WCAG ${result.wcagVersion} Level A failures found`)
             );
         }
     );
@@ -264,6 +272,7 @@ export function activate(context: vscode.ExtensionContext) {
             screenReaderManager.updateConfiguration();
             keyboardNavigationManager.updateConfiguration();
             contextualGuidanceProvider.updateConfiguration();
+            accessibilityAuditor.updateConfiguration();
         }
     });
 
@@ -6,7 +6,7 @@
  * @description Performs comprehensive accessibility audits on code files
  *
  * Checks for:
- * - WCAG 2.1 compliance (Level A, AA, AAA)
+ * - WCAG 2.0, 2.1 and 2.2 compliance (Level A, AA, AAA)
  * - ARIA attributes validation
  * - Color contrast ratios
  * - Semantic HTML structure
@@ -15,437 +15,3334 @@
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 import {
     AccessibilityIssue,
     AccessibilityAuditResult,
     AccessibilitySeverity,
     WCAGLevel,
-    IssueType
+    WCAGVersion,
+    IssueType,
+    MarkupElement,
+    MarkupDocument,
+    MarkupNode,
+    MarkupText,
+    MarkupAttribute,
+    RelatedIssueLocation,
+    AuditConfig,
+    HeadingProfile,
+    ElementAnalysis,
+    StyleSheet,
+    StyleDeclaration
 } from '../types';
 import { ARIAValidator } from '../utils/ariaValidator';
 import { ColorContrastAnalyzer } from '../utils/colorContrastAnalyzer';
+import { AccessibleNameCalculator } from '../utils/accessibleNameCalculator';
+import { LinkTextAnalyzer } from '../utils/linkTextAnalyzer';
+import { LanguageTagValidator } from '../utils/languageTagValidator';
+import { WCAGCriteria } from '../utils/wcagCriteria';
+import { HTMLParser } from '../utils/htmlParser';
+import { JSXParser } from '../utils/jsxParser';
+import { CSSParser } from '../utils/cssParser';
+import { CSSVariableResolver } from '../utils/cssVariableResolver';
+import { canCoexist, getAttribute, getAttributeValue, hasAttribute, findAncestor, getDescendants, getTextContent } from '../utils/markupTree';
 
 /**
  * AccessibilityAuditor class
  * Performs accessibility audits on code files
  */
 export class AccessibilityAuditor {
+    /**
+     * Elements that are natively focusable and keyboard operable
+     */
+    private static readonly NATIVE_INTERACTIVE_ELEMENTS = [
+        'a', 'button', 'input', 'select', 'textarea', 'summary', 'option'
+    ];
+
+    /**
+     * Elements whose header and footer are scoped to them rather than to the page
+     */
+    private static readonly SECTIONING_ELEMENTS = ['article', 'aside', 'main', 'nav', 'section'];
+
+    /**
+     * Roles that may live outside landmarks (dialogs and live regions)
+     */
+    private static readonly LANDMARK_EXEMPT_ROLES = ['alert', 'alertdialog', 'dialog', 'log', 'status'];
+
+    /**
+     * Elements that screen readers may not announce a name for, whatever their role allows
+     */
+    private static readonly NAMING_PROHIBITED_ELEMENTS = ['time'];
+
+    /**
+     * Input types that accept typed personal data
+     */
+    private static readonly TEXT_ENTRY_TYPES = ['text', 'email', 'tel', 'search', 'url'];
+
+    /**
+     * HTML autofill field names (HTML Living Standard, "Autofill")
+     */
+    private static readonly AUTOFILL_FIELDS = [
+        'name', 'honorific-prefix', 'given-name', 'additional-name', 'family-name', 'honorific-suffix',
+        'nickname', 'username', 'new-password', 'current-password', 'one-time-code', 'organization-title',
+        'organization', 'street-address', 'address-line1', 'address-line2', 'address-line3',
+        'address-level4', 'address-level3', 'address-level2', 'address-level1', 'country',
+        'country-name', 'postal-code', 'cc-name', 'cc-given-name', 'cc-additional-name',
+        'cc-family-name', 'cc-number', 'cc-exp', 'cc-exp-month', 'cc-exp-year', 'cc-csc', 'cc-type',
+        'transaction-currency', 'transaction-amount', 'language', 'bday', 'bday-day', 'bday-month',
+        'bday-year', 'sex', 'url', 'photo'
+    ];
+
+    /**
+     * Autofill field names that may be qualified with a contact type
+     */
+    private static readonly AUTOFILL_CONTACT_FIELDS = [
+        'tel', 'tel-country-code', 'tel-national', 'tel-area-code', 'tel-local', 'tel-local-prefix',
+        'tel-local-suffix', 'tel-extension', 'email', 'impp'
+    ];
+
+    private static readonly AUTOFILL_CONTACT_TYPES = ['home', 'work', 'mobile', 'fax', 'pager'];
+
+    /**
+     * Field name/id patterns that reveal personal data, with the autofill token to use
+     */
+    private static readonly INPUT_PURPOSE_PATTERNS: Array<{ pattern: RegExp; purpose: string }> = [
+        { pattern: /e-?mail/i, purpose: 'email' },
+        { pattern: /phone|\btel\b|mobile/i, purpose: 'tel' },
+        { pattern: /first[-_ ]?name|given[-_ ]?name|\bfname\b/i, purpose: 'given-name' },
+        { pattern: /last[-_ ]?name|family[-_ ]?name|surname|\blname\b/i, purpose: 'family-name' },
+        { pattern: /^(full[-_ ]?)?name$|\bfull[-_ ]?name\b/i, purpose: 'name' },
+        { pattern: /street|address(?![-_ ]?(line)?2)/i, purpose: 'street-address' },
+        { pattern: /\bcity\b|town/i, purpose: 'address-level2' },
+        { pattern: /zip|postal[-_ ]?code|postcode/i, purpose: 'postal-code' },
+        { pattern: /country/i, purpose: 'country-name' },
+        { pattern: /birth|\bdob\b|bday/i, purpose: 'bday' },
+        { pattern: /organi[sz]ation|company/i, purpose: 'organization' }
+    ];
+
+    /**
+     * Time-based media and embedded content elements
+     */
+    private static readonly MEDIA_ELEMENTS = ['audio', 'embed', 'iframe', 'object', 'video'];
+
+    /**
+     * Elements that are perceivable even without text content
+     */
+    private static readonly EMBEDDED_CONTENT_ELEMENTS = [
+        'audio', 'canvas', 'iframe', 'img', 'input', 'select', 'svg', 'textarea', 'video'
+    ];
+
+    /**
+     * Alt text that only names the kind of content
+     */
+    private static readonly PLACEHOLDER_ALT_TEXT = [
+        'alt', 'blank', 'graphic', 'icon', 'image', 'img', 'logo', 'photo', 'photograph', 'pic', 'picture',
+        'placeholder', 'spacer', 'todo', 'untitled'
+    ];
+
+    /**
+     * Alt text prefixes that repeat the role screen readers already announce
+     */
+    private static readonly REDUNDANT_ALT_PREFIXES = [
+        'image of', 'picture of', 'photo of', 'photograph of', 'graphic of', 'icon of', 'an image of',
+        'a picture of', 'a photo of'
+    ];
+
+    /**
+     * Alt text longer than this should move detail to a caption or description
+     */
+    private static readonly MAX_ALT_TEXT_LENGTH = 150;
+
+    /**
+     * Minimum pointer target size in CSS pixels (WCAG 2.2, 2.5.8)
+     */
+    private static readonly MIN_TARGET_SIZE = 24;
+
+    /**
+     * Large text in CSS pixels: 18pt, or 14pt when bold (WCAG 1.4.3)
+     */
+    private static readonly LARGE_TEXT_SIZE = 24;
+    private static readonly LARGE_BOLD_TEXT_SIZE = 14 * 4 / 3;
+
+    /**
+     * Absolute font-size keywords as multiples of the root (medium) size
+     */
+    private static readonly FONT_SIZE_KEYWORDS: Record<string, number> = {
+        'xx-small': 3 / 5, 'x-small': 3 / 4, 'small': 8 / 9, 'medium': 1,
+        'large': 6 / 5, 'x-large': 3 / 2, 'xx-large': 2, 'xxx-large': 3
+    };
+
+    /**
+     * Maximum number of imported stylesheets read when resolving variables
+     */
+    private static readonly MAX_IMPORTED_STYLESHEETS = 50;
+
+    /**
+     * Roles of elements that are operated with a pointer
+     */
+    private static readonly POINTER_TARGET_ROLES = [
+        'button', 'checkbox', 'combobox', 'link', 'menuitem', 'option', 'radio', 'slider', 'switch', 'tab'
+    ];
+
+    /**
+     * Event handler attributes that implement drag and drop
+     */
+    private static readonly DRAG_HANDLERS = ['ondragstart', 'ondrop'];
+
     private context: vscode.ExtensionContext;
+    private config: AuditConfig;
     private ariaValidator: ARIAValidator;
     private colorAnalyzer: ColorContrastAnalyzer;
+    private nameCalculator: AccessibleNameCalculator;
+    private linkTextAnalyzer: LinkTextAnalyzer;
+    private languageTagValidator: LanguageTagValidator;
+    private wcagCriteria: WCAGCriteria;
+    private htmlParser: HTMLParser;
+    private jsxParser: JSXParser;
+    private cssParser: CSSParser;
     private diagnosticCollection: vscode.DiagnosticCollection;
 
     /**
-     * Constructor
-     * @param context - VSCode extension context
+     * Constructor
+     * @param context - VSCode extension context
+     */
+    constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+        this.config = this.loadConfiguration();
+        this.ariaValidator = new ARIAValidator();
+        this.colorAnalyzer = new ColorContrastAnalyzer();
+        this.nameCalculator = new AccessibleNameCalculator(this.ariaValidator);
+        this.linkTextAnalyzer = new LinkTextAnalyzer(this.config.genericLinkText);
+        this.languageTagValidator = new LanguageTagValidator();
+        this.wcagCriteria = new WCAGCriteria();
+        this.htmlParser = new HTMLParser();
+        this.jsxParser = new JSXParser();
+        this.cssParser = new CSSParser();
+
+        // Create diagnostic collection for accessibility issues
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('accessibility');
+        context.subscriptions.push(this.diagnosticCollection);
+    }
+
+    /**
+     * Load audit configuration from workspace settings
+     */
+    private loadConfiguration(): AuditConfig {
+        const config = vscode.workspace.getConfiguration('a11yassist');
+
+        return {
+            wcagVersion: config.get('wcagVersion', WCAGVersion.WCAG_2_2) as WCAGVersion,
+            headingProfile: config.get('headingProfile', HeadingProfile.SINGLE_H1) as HeadingProfile,
+            genericLinkText: config.get<Record<string, string[]>>('genericLinkText', {}),
+            pageBackground: config.get('pageBackground', ''),
+            rootFontSize: config.get('rootFontSize', 16)
+        };
+    }
+
+    /**
+     * Update configuration when settings change
+     */
+    public updateConfiguration(): void {
+        this.config = this.loadConfiguration();
+        this.linkTextAnalyzer = new LinkTextAnalyzer(this.config.genericLinkText);
+    }
+
+    /**
+     * Run accessibility audit on current file
+     */
+    public async runAudit(): Promise<AccessibilityAuditResult | undefined> {
+        const editor = vscode.window.activeTextEditor;
+
+        if (!editor) {
+            vscode.window.showWarningMessage('No active editor to audit');
+            return undefined;
+        }
+
+        const document = editor.document;
+        const issues: AccessibilityIssue[] = [];
+
+        // Determine file type and run appropriate audits
+        const languageId = document.languageId;
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Running Accessibility Audit',
+            cancellable: false
+        }, async (progress) => {
+            progress.report({ increment: 0, message: 'Analyzing document...' });
+
+            if (languageId === 'html' || languageId === 'handlebars' || languageId === 'php') {
+                issues.push(...await this.auditHTML(document));
+            }
+
+            progress.report({ increment: 30, message: 'Checking ARIA attributes...' });
+
+            if (languageId === 'typescript' || languageId === 'typescriptreact' ||
+                languageId === 'javascript' || languageId === 'javascriptreact') {
+                issues.push(...await this.auditJSX(document));
+            }
+
+            progress.report({ increment: 30, message: 'Analyzing color contrast...' });
+
+            if (languageId === 'css' || languageId === 'scss' || languageId === 'less') {
+                issues.push(...await this.auditCSS(document));
+            }
+
+            progress.report({ increment: 40, message: 'Complete!' });
+        });
+
+        const applicableIssues = this.filterByVersion(issues);
+
+        // Update diagnostics after all audits complete
+        this.updateDiagnostics(document, applicableIssues);
+
+        return this.createAuditResult(document, applicableIssues);
+    }
+
+    /**
+     * Summarise an audit: severity counts and conformance per WCAG level
+     */
+    private createAuditResult(document: vscode.TextDocument, issues: AccessibilityIssue[]): AccessibilityAuditResult {
+        const version = this.config.wcagVersion;
+        const countBySeverity = (severity: AccessibilitySeverity) =>
+            issues.filter(issue => issue.severity === severity).length;
+
+        // Minor issues are advisory and do not fail their criterion
+        const failedIds = new Set(issues
+            .filter(issue => issue.severity !== AccessibilitySeverity.MINOR)
+            .map(issue => issue.successCriterion));
+        const failedCriteria = this.wcagCriteria.getCriteria(version).filter(criterion => failedIds.has(criterion.id));
+        const testedIds = new Set(this.wcagCriteria.getTestedCriteria(version).map(criterion => criterion.id));
+        const passes = (level: WCAGLevel) =>
+            !this.wcagCriteria.getCriteria(version, level).some(criterion => failedIds.has(criterion.id));
+
+        return {
+            timestamp: new Date().toISOString(),
+            fileName: path.basename(document.fileName),
+            filePath: document.uri.fsPath,
+            wcagVersion: version,
+            totalIssues: issues.length,
+            criticalCount: countBySeverity(AccessibilitySeverity.CRITICAL),
+            seriousCount: countBySeverity(AccessibilitySeverity.SERIOUS),
+            moderateCount: countBySeverity(AccessibilitySeverity.MODERATE),
+            minorCount: countBySeverity(AccessibilitySeverity.MINOR),
+            issues,
+            wcagCompliance: {
+                levelA: passes(WCAGLevel.A),
+                levelAA: passes(WCAGLevel.AA),
+                levelAAA: passes(WCAGLevel.AAA)
+            },
+            failedCriteria,
+            untestedCriteria: this.wcagCriteria.getCriteria(version).filter(criterion => !testedIds.has(criterion.id))
+        };
+    }
+
+    /**
+     * Analyze a single parsed element: role, computed accessible name and issues
+     * @param document - Document the element was parsed from
+     * @param element - Element to analyze
+     * @param tree - Parsed document containing the element
+     */
+    public analyzeElement(
+        document: vscode.TextDocument,
+        element: MarkupElement,
+        tree: MarkupDocument
+    ): ElementAnalysis {
+        const attributes: Record<string, string> = {};
+        element.attributes.forEach(attr => attributes[attr.name] = attr.value);
+
+        const accessibleName = this.nameCalculator.compute(element, tree);
+        const tabindex = getAttributeValue(element, 'tabindex');
+        const isInteractive = AccessibilityAuditor.NATIVE_INTERACTIVE_ELEMENTS.includes(element.tagName) ||
+            hasAttribute(element, 'onclick');
+
+        return {
+            tagName: element.tagName,
+            attributes,
+            accessibleName: accessibleName.name,
+            hasAccessibleName: accessibleName.name.length > 0 || accessibleName.isDynamic,
+            hasRole: hasAttribute(element, 'role'),
+            isFocusable: (tabindex !== undefined && parseInt(tabindex) >= 0) ||
+                (AccessibilityAuditor.NATIVE_INTERACTIVE_ELEMENTS.includes(element.tagName) &&
+                    !hasAttribute(element, 'disabled')),
+            isInteractive,
+            ariaAttributes: element.attributes.filter(attr => attr.name.startsWith('aria-')).map(attr => attr.name),
+            issues: this.filterByVersion(this.auditElement(document, element, tree))
+        };
+    }
+
+    /**
+     * Drop findings for success criteria that are not part of the configured WCAG version
+     */
+    private filterByVersion(issues: AccessibilityIssue[]): AccessibilityIssue[] {
+        return issues.filter(issue => this.wcagCriteria.appliesTo(issue.successCriterion, this.config.wcagVersion));
+    }
+
+    /**
+     * Audit HTML content
+     */
+    private async auditHTML(document: vscode.TextDocument): Promise<AccessibilityIssue[]> {
+        const issues: AccessibilityIssue[] = [];
+        const tree = this.htmlParser.parse(document.getText());
+
+        for (const element of tree.elements) {
+            issues.push(...this.auditElement(document, element, tree));
+        }
+
+        issues.push(...this.auditHeadingStructure(document, tree));
+        issues.push(...this.auditTables(document, tree));
+        issues.push(...this.auditLabelAssociations(document, tree));
+        issues.push(...this.auditForms(document, tree));
+        issues.push(...this.auditLinkText(document, tree));
+        issues.push(...this.auditDuplicateIds(document, tree));
+        issues.push(...this.auditIdReferences(document, tree));
+        issues.push(...this.auditOwnership(document, tree));
+        issues.push(...this.auditLandmarks(document, tree));
+        issues.push(...this.auditLanguages(document, tree));
+        issues.push(...this.auditDocumentMetadata(document, tree));
+        issues.push(...await this.auditEmbeddedCSS(document, tree));
+
+        return issues;
+    }
+
+    /**
+     * Check document-level requirements of a full HTML page: language,
+     * title, viewport zoom and timed refreshes
+     * Fragments and templates without <html> or <head> are skipped.
+     */
+    private auditDocumentMetadata(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const htmlElement = tree.elements.find(element => element.tagName === 'html');
+        const headElement = tree.elements.find(element => element.tagName === 'head');
+
+        if (!htmlElement && !headElement) {
+            return issues;
+        }
+
+        // Check for missing lang attribute on html tag
+        const lang = htmlElement ? getAttribute(htmlElement, 'lang') : undefined;
+        if (htmlElement && (!lang || (!lang.isDynamic && lang.value.trim() === ''))) {
+            issues.push(this.createIssue({
+                type: IssueType.MISSING_LANG_ATTRIBUTE,
+                severity: AccessibilitySeverity.SERIOUS,
+                wcagLevel: WCAGLevel.A,
+                message: lang ? 'HTML element has an empty lang attribute' : 'HTML element missing lang attribute',
+                description: 'The lang attribute helps screen readers pronounce content correctly',
+                ...this.locateElement(document, htmlElement),
+                suggestion: 'Add lang="en" (or appropriate language code) to <html> tag',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        const title = tree.elements.find(element =>
+            element.tagName === 'title' && !findAncestor(element, ancestor => ancestor.tagName === 'svg'));
+        if (!title || getTextContent(title).trim() === '') {
+            issues.push(this.createIssue({
+                type: IssueType.MISSING_PAGE_TITLE,
+                severity: AccessibilitySeverity.SERIOUS,
+                wcagLevel: WCAGLevel.A,
+                message: title ? 'Page title is empty' : 'Page has no <title>',
+                description: 'The title is the first thing screen readers announce and identifies the page in tabs and history',
+                ...this.locateElement(document, title || headElement || htmlElement as MarkupElement),
+                suggestion: 'Add a <title> in <head> that describes the page, e.g. "Checkout - Example Store"',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        for (const meta of tree.elements.filter(element => element.tagName === 'meta')) {
+            const content = getAttribute(meta, 'content');
+            if (!content || content.isDynamic) {
+                continue;
+            }
+
+            if (getAttributeValue(meta, 'name')?.trim().toLowerCase() === 'viewport') {
+                const settings = new Map(content.value.split(/[,;]/).map(part => {
+                    const [key, value = ''] = part.split('=');
+                    return [key.trim().toLowerCase(), value.trim().toLowerCase()] as [string, string];
+                }));
+                const userScalable = settings.get('user-scalable');
+                const maximumScale = parseFloat(settings.get('maximum-scale') || '');
+
+                if (userScalable === 'no' || userScalable === '0' || maximumScale < 2) {
+                    issues.push(this.createIssue({
+                        type: IssueType.VIEWPORT_ZOOM_DISABLED,
+                        severity: AccessibilitySeverity.SERIOUS,
+                        wcagLevel: WCAGLevel.AA,
+                        message: userScalable === 'no' || userScalable === '0'
+                            ? 'Viewport disables zooming (user-scalable=no)'
+                            : `Viewport limits zoom to ${maximumScale}x`,
+                        description: 'Users with low vision need to zoom text to at least 200% on mobile browsers',
+                        ...this.locate(document, content.start, content.end),
+                        suggestion: 'Remove user-scalable and maximum-scale, or set maximum-scale to at least 2',
+                        filePath: document.uri.fsPath
+                    }));
+                }
+            }
+
+            if (getAttributeValue(meta, 'http-equiv')?.trim().toLowerCase() === 'refresh') {
+                const delay = parseFloat(content.value);
+                const redirects = /;\s*url\s*=/i.test(content.value);
+
+                if (delay > 0) {
+                    issues.push(this.createIssue({
+                        type: IssueType.META_REFRESH,
+                        severity: AccessibilitySeverity.SERIOUS,
+                        wcagLevel: WCAGLevel.A,
+                        message: redirects
+                            ? `Page redirects automatically after ${delay} seconds`
+                            : `Page reloads automatically every ${delay} seconds`,
+                        description: 'Timed refreshes move users away before they finish reading and cannot be paused or extended',
+                        ...this.locate(document, content.start, content.end),
+                        suggestion: redirects
+                            ? 'Redirect on the server, use a delay of 0, or give users a link to continue'
+                            : 'Let users refresh the content themselves, or offer a control to turn updates off',
+                        filePath: document.uri.fsPath
+                    }));
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check that lang attributes are valid BCP 47 tags, on the page and on inline parts
+     */
+    private auditLanguages(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+
+        for (const element of tree.elements) {
+            const lang = getAttribute(element, 'lang');
+            if (!lang || lang.isDynamic || element.isComponent) {
+                continue;
+            }
+
+            const result = this.languageTagValidator.validate(lang.value);
+            const isPage = element.tagName === 'html';
+
+            if (!result.isValid || result.replacement) {
+                issues.push(this.createIssue({
+                    type: IssueType.INVALID_LANG_ATTRIBUTE,
+                    severity: !result.isValid
+                        ? (isPage ? AccessibilitySeverity.SERIOUS : AccessibilitySeverity.MODERATE)
+                        : AccessibilitySeverity.MINOR,
+                    wcagLevel: isPage ? WCAGLevel.A : WCAGLevel.AA,
+                    criterion: isPage ? '3.1.1' : '3.1.2',
+                    message: result.isValid
+                        ? `Deprecated language tag "${result.tag}"`
+                        : `Invalid language tag "${result.tag}"`,
+                    description: isPage
+                        ? 'Screen readers cannot choose a voice for the page from an invalid language tag'
+                        : 'Screen readers cannot switch pronunciation for this passage from an invalid language tag',
+                    ...this.locate(document, lang.start, lang.end),
+                    suggestion: result.replacement
+                        ? `Use lang="${result.replacement}"`
+                        : result.recommendation || 'Use a BCP 47 language tag',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Run the per-element checks on a parsed element
+     */
+    private auditElement(
+        document: vscode.TextDocument,
+        element: MarkupElement,
+        tree: MarkupDocument
+    ): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const tagName = element.tagName;
+
+        // Components render unknown markup; only their ARIA props can be checked
+        if (element.isComponent) {
+            issues.push(...this.auditARIAAttributes(document, element));
+            return issues;
+        }
+
+        // Check for images without alt text
+        if (tagName === 'img' && !hasAttribute(element, 'alt') && !element.hasSpreadAttributes) {
+            issues.push(this.createIssue({
+                type: IssueType.MISSING_ALT_TEXT,
+                severity: AccessibilitySeverity.CRITICAL,
+                wcagLevel: WCAGLevel.A,
+                message: 'Image missing alt attribute',
+                description: 'All images must have an alt attribute for screen readers',
+                ...this.locateElement(document, element),
+                suggestion: 'Add alt="descriptive text" or alt="" for decorative images',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        if (tagName === 'img') {
+            issues.push(...this.auditAltText(document, element, tree));
+        }
+
+        issues.push(...this.auditMedia(document, element, tree));
+        issues.push(...this.auditInlineTargetSize(document, element));
+        issues.push(...this.auditDragging(document, element));
+        issues.push(...this.auditAuthentication(document, element));
+
+        const role = this.nameCalculator.getRole(element);
+        const needsName = !this.isHiddenFromAccessibilityTree(element) &&
+            (tagName !== 'a' || hasAttribute(element, 'href') || role !== undefined) &&
+            this.ariaValidator.needsAccessibleName(tagName, role);
+        const accessibleName = needsName ? this.nameCalculator.compute(element, tree) : undefined;
+        const isUnnamed = accessibleName !== undefined && !accessibleName.isDynamic && accessibleName.name === '';
+
+        // Check for form controls without labels
+        if (isUnnamed && (tagName === 'input' || tagName === 'select' || tagName === 'textarea')) {
+            issues.push(this.createFormLabelIssue(document, element, tree));
+        }
+
+        // Check for buttons without accessible names
+        if (isUnnamed && tagName === 'button') {
+            const isIconOnly = this.isIconOnly(element);
+            issues.push(this.createIssue({
+                type: IssueType.EMPTY_BUTTON,
+                severity: AccessibilitySeverity.CRITICAL,
+                wcagLevel: WCAGLevel.A,
+                message: isIconOnly ? 'Icon-only button has no accessible name' : 'Empty button element',
+                description: isIconOnly
+                    ? 'The icon is hidden with aria-hidden, so screen readers announce only "button"'
+                    : 'Buttons must have accessible text content',
+                ...this.locateElement(document, element),
+                suggestion: isIconOnly
+                    ? 'Add aria-label describing the action, or visually hidden text inside the button'
+                    : 'Add text content or aria-label to the button',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        // Check for links without accessible names
+        if (isUnnamed && tagName === 'a') {
+            const isIconOnly = this.isIconOnly(element);
+            issues.push(this.createIssue({
+                type: IssueType.EMPTY_LINK,
+                severity: AccessibilitySeverity.SERIOUS,
+                wcagLevel: WCAGLevel.A,
+                message: isIconOnly ? 'Icon-only link has no accessible name' : 'Empty link element',
+                description: isIconOnly
+                    ? 'The icon is hidden with aria-hidden, so screen readers announce only "link"'
+                    : 'Links must have accessible text content',
+                ...this.locateElement(document, element),
+                suggestion: isIconOnly
+                    ? 'Add aria-label describing the destination, or visually hidden text inside the link'
+                    : 'Add text content or aria-label to the link',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        // Check for other interactive elements and roles that require a name
+        // (images and headings have their own checks)
+        if (isUnnamed && !['input', 'select', 'textarea', 'button', 'a', 'img'].includes(tagName) &&
+            role !== 'heading') {
+            issues.push(this.createIssue({
+                type: IssueType.MISSING_ARIA_LABEL,
+                severity: AccessibilitySeverity.SERIOUS,
+                wcagLevel: WCAGLevel.A,
+                message: role ? `Element with role "${role}" has no accessible name` : `<${tagName}> has no accessible name`,
+                description: 'The computed accessible name is empty, so screen readers announce only the role',
+                ...this.locateElement(document, element),
+                suggestion: 'Add visible text content, aria-labelledby pointing at a visible label, or aria-label',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        // Check for click handlers on non-interactive elements without keyboard handlers
+        const onClick = getAttribute(element, 'onclick');
+        if (onClick && !AccessibilityAuditor.NATIVE_INTERACTIVE_ELEMENTS.includes(tagName) &&
+            !element.hasSpreadAttributes &&
+            !['onkeydown', 'onkeyup', 'onkeypress'].some(handler => hasAttribute(element, handler))) {
+            issues.push(this.createIssue({
+                type: IssueType.KEYBOARD_TRAP,
+                severity: AccessibilitySeverity.SERIOUS,
+                wcagLevel: WCAGLevel.A,
+                message: 'onClick without keyboard handler',
+                description: 'Interactive elements with onClick should have keyboard handlers',
+                ...this.locate(document, onClick.start, onClick.end),
+                suggestion: 'Add onKeyPress, onKeyDown, or use a button element',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        // Check for improper tabindex
+        const tabindex = getAttribute(element, 'tabindex');
+        if (tabindex && !tabindex.isDynamic && /^\s*\d+\s*$/.test(tabindex.value) && parseInt(tabindex.value) > 0) {
+            issues.push(this.createIssue({
+                type: IssueType.IMPROPER_TAB_INDEX,
+                severity: AccessibilitySeverity.MODERATE,
+                wcagLevel: WCAGLevel.A,
+                message: 'Positive tabindex value',
+                description: 'Positive tabindex values can create confusing navigation order',
+                ...this.locate(document, tabindex.start, tabindex.end),
+                suggestion: 'Use tabindex="0" or tabindex="-1" instead',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        const autofocus = getAttribute(element, 'autofocus');
+        if (autofocus) {
+            issues.push(this.createIssue({
+                type: IssueType.KEYBOARD_TRAP,
+                severity: AccessibilitySeverity.MODERATE,
+                wcagLevel: WCAGLevel.A,
+                message: 'Autofocus can cause accessibility issues',
+                description: 'Autofocus can disorient keyboard and screen reader users',
+                ...this.locate(document, autofocus.start, autofocus.end),
+                suggestion: 'Remove autofocus or use with caution',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        issues.push(...this.auditARIAAttributes(document, element));
+
+        return issues;
+    }
+
+    /**
+     * Check alt text that is present but unhelpful: file names, placeholders,
+     * redundant "image of" prefixes, very long text, text repeated from a
+     * caption or link, and empty alt on an image that is a link's only content
+     */
+    private auditAltText(document: vscode.TextDocument, element: MarkupElement, tree: MarkupDocument): AccessibilityIssue[] {
+        const alt = getAttribute(element, 'alt');
+
+        if (!alt || alt.isDynamic || this.isHiddenFromAccessibilityTree(element)) {
+            return [];
+        }
+
+        const text = alt.value.trim().replace(/\s+/g, ' ');
+        const normalized = text.toLowerCase().replace(/[.:!]+$/, '');
+        const link = findAncestor(element, ancestor => ancestor.tagName === 'a' && hasAttribute(ancestor, 'href'));
+        const location = this.locate(document, alt.start, alt.end);
+        const report = (severity: AccessibilitySeverity, message: string, description: string, suggestion: string) => [
+            this.createIssue({
+                type: IssueType.POOR_ALT_TEXT,
+                severity,
+                wcagLevel: WCAGLevel.A,
+                message,
+                description,
+                ...location,
+                suggestion,
+                filePath: document.uri.fsPath
+            })
+        ];
+
+        if (text === '') {
+            const linkName = link ? this.nameCalculator.compute(link, tree) : undefined;
+
+            return linkName && !linkName.isDynamic && linkName.name.trim() === ''
+                ? report(
+                    AccessibilitySeverity.MODERATE,
+                    'Image is the only content of a link but has empty alt text',
+                    'With alt="" the link has no name, so screen readers fall back to reading its URL',
+                    'Describe the link destination in the alt text, e.g. alt="Home" for a logo linking to the home page'
+                )
+                : [];
+        }
+
+        if (this.isFileNameAltText(text, getAttribute(element, 'src'))) {
+            return report(
+                AccessibilitySeverity.MODERATE,
+                `Alt text "${text}" is a file name`,
+                'File names are read out literally and rarely describe the image',
+                'Describe what the image shows or does, or use alt="" if it is decorative'
+            );
+        }
+
+        if (AccessibilityAuditor.PLACEHOLDER_ALT_TEXT.includes(normalized)) {
+            return report(
+                AccessibilitySeverity.MODERATE,
+                `Placeholder alt text "${text}"`,
+                'Generic words such as "image" or "photo" tell screen reader users nothing about the content',
+                'Describe what the image shows or does, or use alt="" if it is decorative'
+            );
+        }
+
+        const prefix = AccessibilityAuditor.REDUNDANT_ALT_PREFIXES.find(candidate => normalized.startsWith(`${candidate} `));
+        if (prefix) {
+            return report(
+                AccessibilitySeverity.MINOR,
+                `Alt text starts with "${text.slice(0, prefix.length)}"`,
+                'Screen readers already announce the element as an image',
+                `Remove "${prefix}" and start with what the image shows`
+            );
+        }
+
+        if (text.length > AccessibilityAuditor.MAX_ALT_TEXT_LENGTH) {
+            return report(
+                AccessibilitySeverity.MINOR,
+                `Alt text is ${text.length} characters long`,
+                'Long alt text cannot be paused or navigated, and is read in full every time',
+                'Keep alt text short and move the detail to a caption, or to a description linked with aria-describedby'
+            );
+        }
+
+        const figure = findAncestor(element, ancestor => ancestor.tagName === 'figure');
+        const caption = figure?.children.find((child): child is MarkupElement =>
+            child.kind === 'element' && child.tagName === 'figcaption');
+        const adjacentTexts = [
+            { kind: 'caption', text: caption ? getTextContent(caption) : '' },
+            { kind: 'link text', text: link ? getTextContent(link) : '' }
+        ];
+        const repeated = adjacentTexts.find(adjacent =>
+            adjacent.text.trim().replace(/\s+/g, ' ').toLowerCase().replace(/[.:!]+$/, '') === normalized);
+
+        if (repeated) {
+            return report(
+                AccessibilitySeverity.MINOR,
+                `Alt text repeats the ${repeated.kind}`,
+                'Screen reader users hear the same text twice in a row',
+                repeated.kind === 'caption'
+                    ? 'Use alt to describe what the caption does not, or alt="" if the caption already describes the image'
+                    : 'Use alt="" so the link is named once by its text'
+            );
+        }
+
+        return [];
+    }
+
+    /**
+     * Check whether alt text is (or looks like) the image's file name
+     */
+    private isFileNameAltText(text: string, src: MarkupAttribute | undefined): boolean {
+        if (/^[\w\-. ]+\.(avif|bmp|gif|jpe?g|png|svg|tiff?|webp)$/i.test(text)) {
+            return true;
+        }
+
+        if (!src || src.isDynamic) {
+            return false;
+        }
+
+        const fileName = src.value.split(/[?#]/)[0].split('/').pop() || '';
+        const baseName = fileName.replace(/\.[a-z0-9]+$/i, '');
+        const candidate = text.toLowerCase();
+
+        return baseName.length > 0 && [fileName, baseName].some(name => name.toLowerCase() === candidate);
+    }
+
+    /**
+     * Check pointer targets sized by an inline style against the WCAG 2.2
+     * minimum of 24 by 24 CSS pixels (2.5.8)
+     */
+    private auditInlineTargetSize(document: vscode.TextDocument, element: MarkupElement): AccessibilityIssue[] {
+        const style = getAttribute(element, 'style');
+        const role = this.nameCalculator.getRole(element);
+
+        if (!style || !role || !AccessibilityAuditor.POINTER_TARGET_ROLES.includes(role) ||
+            this.isHiddenFromAccessibilityTree(element)) {
+            return [];
+        }
+
+        const size = this.getTargetSize(this.getInlineStyleDeclarations(document.getText(), style));
+
+        return size
+            ? [this.createTargetSizeIssue(document, size, this.locate(document, style.start, style.end))]
+            : [];
+    }
+
+    /**
+     * Find undersized pointer targets in a stylesheet (2.5.8)
+     */
+    private auditTargetSizes(document: vscode.TextDocument, styleSheet: StyleSheet): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+
+        for (const rule of styleSheet.rules) {
+            if (!rule.selectors.some(selector => this.isPointerTargetSelector(selector))) {
+                continue;
+            }
+
+            const size = this.getTargetSize(rule.declarations);
+            if (size) {
+                const first = rule.declarations[0];
+                issues.push(this.createTargetSizeIssue(document, size, this.locate(document, rule.start, first ? first.start : rule.end)));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Get the declared size of a target when it is below 24px in either dimension
+     * Both dimensions must be declared, and padding (which adds to the target)
+     * makes the size unknowable, so such rules are not reported.
+     */
+    private getTargetSize(declarations: Array<{ property: string; value: string }>): { width: number; height: number } | undefined {
+        const values = new Map(declarations.map(declaration =>
+            [declaration.property.toLowerCase(), declaration.value] as [string, string]));
+
+        if ([...values.keys()].some(property => property.startsWith('padding'))) {
+            return undefined;
+        }
+
+        const dimension = (name: string) => {
+            const sizes = [values.get(name), values.get(`min-${name}`)]
+                .map(value => value === undefined ? undefined : this.parseCSSPixels(value))
+                .filter((value): value is number => value !== undefined);
+            return sizes.length > 0 ? Math.max(...sizes) : undefined;
+        };
+        const width = dimension('width');
+        const height = dimension('height');
+
+        return width !== undefined && height !== undefined &&
+            (width < AccessibilityAuditor.MIN_TARGET_SIZE || height < AccessibilityAuditor.MIN_TARGET_SIZE)
+            ? { width, height }
+            : undefined;
+    }
+
+    /**
+     * Convert an absolute CSS length to pixels (rem and em at the root font size)
+     */
+    private parseCSSPixels(value: string): number | undefined {
+        const match = /^\s*(\d*\.?\d+)(px|pt|rem|em)?\s*(!important)?\s*$/i.exec(value);
+        if (!match || (match[2] === undefined && parseFloat(match[1]) !== 0)) {
+            return undefined;
+        }
+
+        const amount = parseFloat(match[1]);
+        const unit = (match[2] || 'px').toLowerCase();
+        return unit === 'px' ? amount : unit === 'pt' ? amount * 4 / 3 : amount * this.config.rootFontSize;
+    }
+
+    /**
+     * Check whether a selector targets links, buttons or other pointer targets
+     */
+    private isPointerTargetSelector(selector: string): boolean {
+        const compounds = selector.split(/\s*[\s>+~]\s*/);
+        const last = compounds[compounds.length - 1];
+
+        // Pseudo-elements size decorations, and states share the base rule's size
+        if (last.includes('::') || /:(before|after)\b/.test(last)) {
+            return false;
+        }
+
+        return /^(a|button|input|select|summary)(?![\w-])/.test(last) ||
+            /\[role=["']?(button|link|checkbox|radio|switch|tab|menuitem|option)\b/.test(last) ||
+            /\.[\w-]*(btn|button)(?![\w])/i.test(last);
+    }
+
+    /**
+     * Build a target size issue
+     */
+    private createTargetSizeIssue(
+        document: vscode.TextDocument,
+        size: { width: number; height: number },
+        location: SourceLocation
+    ): AccessibilityIssue {
+        return this.createIssue({
+            type: IssueType.TARGET_SIZE,
+            severity: AccessibilitySeverity.MODERATE,
+            wcagLevel: WCAGLevel.AA,
+            message: `Pointer target is ${size.width}x${size.height}px, below the 24x24px minimum`,
+            description: 'Small targets are hard to hit for people with tremors or limited dexterity; ' +
+                'WCAG 2.2 only allows them when no other target is within 24px',
+            ...location,
+            suggestion: 'Make the target at least 24x24px (e.g. with min-width/min-height or padding), or space it 24px from other targets',
+            filePath: document.uri.fsPath
+        });
+    }
+
+    /**
+     * Check drag-and-drop interactions for a single-pointer alternative (2.5.7)
+     * An alternative is assumed when the element or its content also offers
+     * click or keyboard handlers, buttons or a file input.
+     */
+    private auditDragging(document: vscode.TextDocument, element: MarkupElement): AccessibilityIssue[] {
+        const draggable = getAttribute(element, 'draggable');
+        const handler = AccessibilityAuditor.DRAG_HANDLERS
+            .map(name => getAttribute(element, name))
+            .find((attribute): attribute is MarkupAttribute => attribute !== undefined);
+        const trigger = draggable && !draggable.isDynamic && draggable.value.trim() === 'true' ? draggable : handler;
+
+        if (!trigger || element.hasSpreadAttributes) {
+            return [];
+        }
+
+        const hasAlternative = [element, ...getDescendants(element)].some(candidate =>
+            candidate.isComponent ||
+            ['button', 'select'].includes(candidate.tagName) ||
+            (candidate.tagName === 'input' && getAttributeValue(candidate, 'type')?.toLowerCase() === 'file') ||
+            ['onclick', 'onkeydown', 'onkeyup'].some(name => hasAttribute(candidate, name)));
+
+        if (hasAlternative) {
+            return [];
+        }
+
+        return [this.createIssue({
+            type: IssueType.DRAGGING_MOVEMENT,
+            severity: AccessibilitySeverity.MODERATE,
+            wcagLevel: WCAGLevel.AA,
+            message: 'Drag and drop without a single-pointer alternative',
+            description: 'People who cannot hold a pointer down while moving it need another way to complete the action',
+            ...this.locate(document, trigger.start, trigger.end),
+            suggestion: 'Offer buttons (e.g. "Move up"/"Move down"), a menu, or a file picker alongside dragging',
+            filePath: document.uri.fsPath
+        })];
+    }
+
+    /**
+     * Check that login fields work with password managers and pasting (3.3.8)
+     */
+    private auditAuthentication(document: vscode.TextDocument, element: MarkupElement): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const type = getAttributeValue(element, 'type')?.trim().toLowerCase();
+        const autocomplete = getAttribute(element, 'autocomplete');
+        const autocompleteValue = autocomplete && !autocomplete.isDynamic ? autocomplete.value.trim().toLowerCase() : '';
+        const isCredential = type === 'password' || /\b(username|current-password|one-time-code)\b/.test(autocompleteValue);
+
+        if (element.tagName !== 'input' || !isCredential) {
+            return issues;
+        }
+
+        for (const name of ['onpaste', 'oncopy', 'ondrop']) {
+            const blocker = getAttribute(element, name);
+
+            if (blocker && /return\s+false|preventDefault\s*\(/.test(blocker.value)) {
+                issues.push(this.createIssue({
+                    type: IssueType.INACCESSIBLE_AUTHENTICATION,
+                    severity: AccessibilitySeverity.SERIOUS,
+                    wcagLevel: WCAGLevel.AA,
+                    message: `Login field blocks ${name.slice(2)}`,
+                    description: 'Blocking paste forces users to memorise or retype credentials, a cognitive function test',
+                    ...this.locate(document, blocker.start, blocker.end),
+                    suggestion: `Remove the ${name} handler so password managers and pasting work`,
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        if (autocomplete && autocompleteValue === 'off') {
+            issues.push(this.createIssue({
+                type: IssueType.INACCESSIBLE_AUTHENTICATION,
+                severity: AccessibilitySeverity.MODERATE,
+                wcagLevel: WCAGLevel.AA,
+                message: 'Login field turns off autocomplete',
+                description: 'Password managers may not fill the field, so users must recall and type their credentials',
+                ...this.locate(document, autocomplete.start, autocomplete.end),
+                suggestion: type === 'password'
+                    ? 'Use autocomplete="current-password" (or "new-password" on sign-up forms)'
+                    : 'Use autocomplete="username"',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check time-based media and embedded content: captions, transcripts,
+     * autoplaying sound, frame titles and object/embed text alternatives
+     */
+    private auditMedia(document: vscode.TextDocument, element: MarkupElement, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const tagName = element.tagName;
+
+        if (!AccessibilityAuditor.MEDIA_ELEMENTS.includes(tagName) ||
+            element.hasSpreadAttributes || this.isHiddenFromAccessibilityTree(element)) {
+            return issues;
+        }
+
+        // Children rendered by components or expressions may include the tracks or fallback
+        const hasOpaqueChildren = element.children.some(child =>
+            child.kind === 'text' ? child.isDynamic : child.isComponent);
+
+        if (tagName === 'video' && !hasOpaqueChildren) {
+            const hasCaptions = element.children.some(child => child.kind === 'element' &&
+                child.tagName === 'track' &&
+                ['captions', 'subtitles'].includes((getAttributeValue(child, 'kind') || '').toLowerCase()));
+
+            if (!hasCaptions) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_CAPTIONS,
+                    severity: AccessibilitySeverity.SERIOUS,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'Video has no captions track',
+                    description: 'Deaf and hard of hearing users need captions for the dialogue and sounds in a video',
+                    ...this.locateElement(document, element),
+                    suggestion: 'Add <track kind="captions" src="captions.vtt" srclang="en" label="English">',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        if ((tagName === 'video' || tagName === 'audio') && this.getBooleanAttribute(element, 'autoplay') === true &&
+            this.getBooleanAttribute(element, 'muted') === false && this.getBooleanAttribute(element, 'controls') === false) {
+            issues.push(this.createIssue({
+                type: IssueType.AUTOPLAY_AUDIO,
+                severity: AccessibilitySeverity.SERIOUS,
+                wcagLevel: WCAGLevel.A,
+                message: `Autoplaying <${tagName}> plays sound with no way to stop it`,
+                description: 'Sound that starts automatically talks over screen readers; users need a way to pause or mute it',
+                ...this.locateElement(document, element),
+                suggestion: 'Add muted, add controls, or remove autoplay',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        if (tagName === 'audio' && !this.hasNearbyTranscript(element, tree)) {
+            issues.push(this.createIssue({
+                type: IssueType.MISSING_TRANSCRIPT,
+                severity: AccessibilitySeverity.MODERATE,
+                wcagLevel: WCAGLevel.A,
+                message: 'Audio has no transcript nearby',
+                description: 'Prerecorded audio needs a text transcript for users who cannot hear it',
+                ...this.locateElement(document, element),
+                suggestion: 'Link to a transcript next to the player, or reference it with aria-describedby',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        if (tagName === 'iframe') {
+            const name = this.nameCalculator.compute(element, tree);
+
+            if (!name.name.trim() && !name.isDynamic) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_FRAME_TITLE,
+                    severity: AccessibilitySeverity.SERIOUS,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'Iframe has no title',
+                    description: 'Screen readers announce frames by their title; without one users cannot tell what the frame contains',
+                    ...this.locateElement(document, element),
+                    suggestion: 'Add title="..." describing the frame content (e.g. "Store location map")',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        if (tagName === 'object' || tagName === 'embed') {
+            const name = this.nameCalculator.compute(element, tree);
+            const hasFallback = tagName === 'object' && (hasOpaqueChildren ||
+                getTextContent(element).trim().length > 0 ||
+                getDescendants(element).some(descendant => descendant.tagName === 'img' && hasAttribute(descendant, 'alt')));
+
+            if (!name.name.trim() && !name.isDynamic && !hasFallback) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_OBJECT_ALTERNATIVE,
+                    severity: AccessibilitySeverity.SERIOUS,
+                    wcagLevel: WCAGLevel.A,
+                    message: `<${tagName}> has no text alternative`,
+                    description: 'Embedded content needs a text alternative for users who cannot perceive it',
+                    ...this.locateElement(document, element),
+                    suggestion: tagName === 'object'
+                        ? 'Add fallback text inside <object>, or aria-label / title'
+                        : 'Add aria-label or title describing the embedded content',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Read a boolean attribute
+     * @returns undefined when the value is dynamic; JSX's attr={false} counts as absent
+     */
+    private getBooleanAttribute(element: MarkupElement, name: string): boolean | undefined {
+        const attr = getAttribute(element, name);
+
+        if (!attr) {
+            return false;
+        }
+        if (attr.isDynamic) {
+            return undefined;
+        }
+        return attr.value.toLowerCase() !== 'false';
+    }
+
+    /**
+     * Check for a transcript next to an audio element: an aria-describedby or
+     * aria-details target that is or links to a transcript, or a link, button or
+     * component mentioning "transcript" beside the player
+     */
+    private hasNearbyTranscript(element: MarkupElement, tree: MarkupDocument): boolean {
+        const index = this.nameCalculator.getIdIndex(tree);
+
+        for (const attr of ['aria-describedby', 'aria-details'].map(name => getAttribute(element, name))) {
+            if (attr?.isDynamic) {
+                return true;
+            }
+
+            const targets = (attr?.value.trim().split(/\s+/) || [])
+                .map(id => index.getElementById(id))
+                .filter((target): target is MarkupElement => target !== undefined);
+
+            if (targets.some(target => /transcript/i.test(`${getAttributeValue(target, 'id')} ${getTextContent(target)}`) ||
+                [target, ...getDescendants(target)].some(candidate => this.isTranscriptLink(candidate)))) {
+                return true;
+            }
+        }
+
+        const parent = element.parent;
+        if (!parent) {
+            return false;
+        }
+
+        // When the player has a wrapper of its own, look at what follows the wrapper
+        const candidates = getDescendants(parent);
+        const isWrapped = parent.tagName !== '#document' &&
+            parent.children.every(child => child === element || (child.kind === 'text' && !child.text.trim()));
+        if (isWrapped && parent.parent) {
+            const siblings = parent.parent.children;
+            const next = siblings.slice(siblings.indexOf(parent) + 1)
+                .find((sibling): sibling is MarkupElement => sibling.kind === 'element');
+            if (next) {
+                candidates.push(next, ...getDescendants(next));
+            }
+        }
+
+        return candidates.some(candidate => this.isTranscriptLink(candidate));
+    }
+
+    /**
+     * Check whether an element is a link, button or component for a transcript
+     */
+    private isTranscriptLink(element: MarkupElement): boolean {
+        if (element.isComponent) {
+            return /transcript/i.test(element.tagName);
+        }
+        if (!['a', 'button', 'details', 'summary'].includes(element.tagName)) {
+            return false;
+        }
+        return /transcript/i.test(getTextContent(element)) ||
+            /transcript/i.test(getAttributeValue(element, 'href') || '');
+    }
+
+    /**
+     * Validate ARIA attributes and roles on an element
+     */
+    private auditARIAAttributes(document: vscode.TextDocument, element: MarkupElement): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+
+        // Validate ARIA attributes
+        for (const attr of element.attributes) {
+            if (!attr.name.startsWith('aria-') || attr.isDynamic) {
+                continue;
+            }
+
+            const validation = this.ariaValidator.validateAttribute(attr.name, attr.value);
+
+            if (!validation.isValid) {
+                issues.push(this.createIssue({
+                    type: IssueType.INVALID_ARIA_ATTRIBUTE,
+                    severity: AccessibilitySeverity.SERIOUS,
+                    wcagLevel: WCAGLevel.A,
+                    message: `Invalid ARIA attribute: ${attr.name}`,
+                    description: validation.recommendation || 'ARIA attribute is invalid',
+                    ...this.locate(document, attr.start, attr.end),
+                    suggestion: validation.recommendation || 'Fix or remove this ARIA attribute',
+                    filePath: document.uri.fsPath
+                }));
+            } else if (validation.status === 'deprecated') {
+                issues.push(this.createIssue({
+                    type: IssueType.INVALID_ARIA_ATTRIBUTE,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.A,
+                    message: `Deprecated ARIA attribute: ${attr.name}`,
+                    description: validation.recommendation || 'ARIA attribute is deprecated',
+                    ...this.locate(document, attr.start, attr.end),
+                    suggestion: 'Remove this attribute and describe the interaction in instructions or visible text',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        // Check for role attribute
+        const roleAttr = getAttribute(element, 'role');
+        if (roleAttr && !roleAttr.isDynamic) {
+            const roles = roleAttr.value.trim().split(/\s+/).filter(Boolean);
+
+            roles.forEach((role, index) => {
+                const validation = this.ariaValidator.validateRole(role);
+                const location = this.locate(document, roleAttr.start, roleAttr.end);
+
+                switch (validation.status) {
+                    case 'unknown':
+                        issues.push(this.createIssue({
+                            type: IssueType.MISSING_ROLE,
+                            severity: AccessibilitySeverity.SERIOUS,
+                            wcagLevel: WCAGLevel.A,
+                            message: `Invalid ARIA role: ${role}`,
+                            description: 'ARIA role is not valid',
+                            ...location,
+                            suggestion: validation.recommendation || 'Use a valid ARIA role',
+                            filePath: document.uri.fsPath
+                        }));
+                        break;
+                    case 'abstract':
+                        issues.push(this.createIssue({
+                            type: IssueType.MISSING_ROLE,
+                            severity: AccessibilitySeverity.SERIOUS,
+                            wcagLevel: WCAGLevel.A,
+                            message: `Abstract ARIA role: ${role}`,
+                            description: 'Abstract roles are not exposed to assistive technology',
+                            ...location,
+                            suggestion: validation.recommendation || 'Use a concrete ARIA role',
+                            filePath: document.uri.fsPath
+                        }));
+                        break;
+                    case 'deprecated':
+                        issues.push(this.createIssue({
+                            type: IssueType.MISSING_ROLE,
+                            severity: AccessibilitySeverity.MINOR,
+                            wcagLevel: WCAGLevel.A,
+                            message: `Deprecated ARIA role: ${role}`,
+                            description: 'Deprecated roles may not be supported by current assistive technology',
+                            ...location,
+                            suggestion: validation.recommendation || 'Use a current ARIA role',
+                            filePath: document.uri.fsPath
+                        }));
+                        break;
+                    case 'module':
+                        // A core fallback role after the module role covers unsupporting tools
+                        if (roles.slice(index + 1).some(fallback =>
+                            this.ariaValidator.validateRole(fallback).status === 'standard')) {
+                            break;
+                        }
+                        issues.push(this.createIssue({
+                            type: IssueType.MISSING_ROLE,
+                            severity: AccessibilitySeverity.MINOR,
+                            wcagLevel: WCAGLevel.A,
+                            message: `ARIA module role: ${role}`,
+                            description: validation.recommendation || 'Role is defined by an optional ARIA module',
+                            ...location,
+                            suggestion: `Add a core WAI-ARIA role after it as a fallback, e.g. role="${role} region"`,
+                            filePath: document.uri.fsPath
+                        }));
+                        break;
+                }
+            });
+        }
+
+        if (!element.isComponent) {
+            issues.push(...this.auditRoleAttributes(document, element));
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check ARIA attributes against the element's role
+     * Required and unsupported attributes are only checked for explicit roles; the
+     * implicit role of a native element is too context-dependent for that.
+     */
+    private auditRoleAttributes(document: vscode.TextDocument, element: MarkupElement): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const roleAttr = getAttribute(element, 'role');
+
+        if (roleAttr?.isDynamic) {
+            return issues;
+        }
+
+        const explicitRole = roleAttr?.value.trim().split(/\s+/)[0] || undefined;
+        const role = explicitRole || this.nameCalculator.getRole(element);
+        if (!role) {
+            return issues;
+        }
+
+        const prohibited = this.ariaValidator.getProhibitedAttributes(role);
+
+        for (const attr of element.attributes) {
+            if (!attr.name.startsWith('aria-')) {
+                continue;
+            }
+
+            if (prohibited.includes(attr.name)) {
+                issues.push(this.createIssue({
+                    type: IssueType.INVALID_ARIA_ATTRIBUTE,
+                    severity: AccessibilitySeverity.SERIOUS,
+                    wcagLevel: WCAGLevel.A,
+                    message: `${attr.name} is prohibited on role "${role}"`,
+                    description: `Role "${role}" prohibits ${attr.name}, so assistive technology ignores it`,
+                    ...this.locate(document, attr.start, attr.end),
+                    suggestion: attr.name === 'aria-roledescription'
+                        ? 'Remove aria-roledescription or give the element a meaningful role'
+                        : 'Move the label to visible text or give the element a role that supports naming',
+                    filePath: document.uri.fsPath
+                }));
+            } else if (!explicitRole && (attr.name === 'aria-label' || attr.name === 'aria-labelledby') &&
+                AccessibilityAuditor.NAMING_PROHIBITED_ELEMENTS.includes(element.tagName)) {
+                issues.push(this.createIssue({
+                    type: IssueType.INVALID_ARIA_ATTRIBUTE,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.A,
+                    message: `${attr.name} on <${element.tagName}> may not be announced`,
+                    description: `Naming <${element.tagName}> is not well supported, so some screen readers read only its contents`,
+                    ...this.locate(document, attr.start, attr.end),
+                    suggestion: 'Put the information in the visible text or the datetime attribute',
+                    filePath: document.uri.fsPath
+                }));
+            } else if (explicitRole && !this.ariaValidator.isAttributeSupported(role, attr.name) &&
+                this.ariaValidator.isKnownAttribute(attr.name) && this.ariaValidator.validateRole(role).isValid) {
+                issues.push(this.createIssue({
+                    type: IssueType.INVALID_ARIA_ATTRIBUTE,
+                    severity: AccessibilitySeverity.MODERATE,
+                    wcagLevel: WCAGLevel.A,
+                    message: `${attr.name} is not supported on role "${role}"`,
+                    description: `Role "${role}" does not support ${attr.name}, so assistive technology may ignore it`,
+                    ...this.locate(document, attr.start, attr.end),
+                    suggestion: `Remove ${attr.name} or use a role that supports it`,
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        // Spread props may supply the required states
+        if (!roleAttr || !explicitRole || element.hasSpreadAttributes) {
+            return issues;
+        }
+
+        const missing = this.ariaValidator.getRequiredAttributes(role)
+            .filter(attrName => !hasAttribute(element, attrName) && !this.hasNativeState(element, attrName));
+
+        if (missing.length > 0) {
+            issues.push(this.createIssue({
+                type: IssueType.INVALID_ARIA_ATTRIBUTE,
+                severity: AccessibilitySeverity.SERIOUS,
+                wcagLevel: WCAGLevel.A,
+                message: `Role "${role}" is missing required ${missing.length === 1 ? 'attribute' : 'attributes'}: ${missing.join(', ')}`,
+                description: 'Without its required states, the widget\'s state is not conveyed to assistive technology',
+                ...this.locate(document, roleAttr.start, roleAttr.end),
+                suggestion: `Add ${missing.map(attrName => `${attrName}="..."`).join(' ')} and keep it in sync with the widget state`,
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check whether a native element already exposes a state that a role requires
+     */
+    private hasNativeState(element: MarkupElement, attributeName: string): boolean {
+        const type = (getAttributeValue(element, 'type') || '').toLowerCase();
+
+        switch (attributeName) {
+            case 'aria-checked':
+                return element.tagName === 'input' && (type === 'checkbox' || type === 'radio');
+            case 'aria-valuenow':
+                return (element.tagName === 'input' && (type === 'range' || type === 'number')) ||
+                    element.tagName === 'meter' || element.tagName === 'progress';
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Build the missing-label issue for an unnamed form control
+     * The message distinguishes empty labels, ids no label points to, and unlabelled controls.
+     */
+    private createFormLabelIssue(
+        document: vscode.TextDocument,
+        element: MarkupElement,
+        tree: MarkupDocument
+    ): AccessibilityIssue {
+        const labels = this.nameCalculator.getLabels(element, tree);
+        const id = getAttribute(element, 'id');
+
+        if (labels.length > 0) {
+            return this.createIssue({
+                type: IssueType.MISSING_FORM_LABEL,
+                severity: AccessibilitySeverity.SERIOUS,
+                wcagLevel: WCAGLevel.A,
+                message: 'Form input has an empty label',
+                description: 'The associated <label> has no text, so the input has no accessible name',
+                ...this.locateElement(document, element),
+                suggestion: 'Add descriptive text to the associated <label>',
+                filePath: document.uri.fsPath
+            });
+        }
+
+        if (id && !id.isDynamic && id.value) {
+            return this.createIssue({
+                type: IssueType.MISSING_FORM_LABEL,
+                severity: AccessibilitySeverity.SERIOUS,
+                wcagLevel: WCAGLevel.A,
+                message: `No <label> references input id "${id.value}"`,
+                description: 'An id on its own does not label an input; a <label for> must point to it',
+                ...this.locateElement(document, element),
+                suggestion: `Add <label for="${id.value}">...</label>, or wrap the input in a <label>`,
+                filePath: document.uri.fsPath
+            });
+        }
+
+        return this.createIssue({
+            type: IssueType.MISSING_FORM_LABEL,
+            severity: AccessibilitySeverity.SERIOUS,
+            wcagLevel: WCAGLevel.A,
+            message: 'Form input missing label',
+            description: 'Form inputs must have associated labels',
+            ...this.locateElement(document, element),
+            suggestion: 'Wrap the input in a <label>, or give it an id and add <label for="..."> (aria-label as a last resort)',
+            filePath: document.uri.fsPath
+        });
+    }
+
+    /**
+     * Check <label> elements for broken or misleading associations
+     */
+    private auditLabelAssociations(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const canResolveIds = !this.hasOpaqueContent(tree);
+
+        for (const label of tree.elements) {
+            if (label.tagName !== 'label' || label.hasSpreadAttributes) {
+                continue;
+            }
+
+            const forAttr = getAttribute(label, 'for');
+            const wrappedControl = getDescendants(label).find(descendant =>
+                descendant.isComponent || this.nameCalculator.isLabelable(descendant)
+            );
+
+            if (!forAttr) {
+                if (!wrappedControl && !label.children.some(child => child.kind === 'text' && child.isDynamic)) {
+                    issues.push(this.createIssue({
+                        type: IssueType.MISSING_FORM_LABEL,
+                        severity: AccessibilitySeverity.MODERATE,
+                        wcagLevel: WCAGLevel.A,
+                        message: 'Label is not associated with any form control',
+                        description: 'The label has no for attribute and does not wrap a form control',
+                        ...this.locateElement(document, label),
+                        suggestion: 'Add for="<input id>" or move the input inside the <label>',
+                        filePath: document.uri.fsPath
+                    }));
+                }
+                continue;
+            }
+
+            if (forAttr.isDynamic) {
+                continue;
+            }
+
+            const target = this.nameCalculator.getElementById(tree, forAttr.value);
+
+            if (!target) {
+                if (canResolveIds) {
+                    issues.push(this.createIssue({
+                        type: IssueType.MISSING_FORM_LABEL,
+                        severity: AccessibilitySeverity.SERIOUS,
+                        wcagLevel: WCAGLevel.A,
+                        message: `Label for="${forAttr.value}" does not match any element`,
+                        description: 'No element in this document has the id the label points to, so it labels nothing',
+                        ...this.locate(document, forAttr.start, forAttr.end),
+                        suggestion: `Set the input's id to "${forAttr.value}" or fix the for attribute`,
+                        filePath: document.uri.fsPath
+                    }));
+                }
+                continue;
+            }
+
+            if (!target.isComponent && !this.nameCalculator.isLabelable(target)) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_FORM_LABEL,
+                    severity: AccessibilitySeverity.MODERATE,
+                    wcagLevel: WCAGLevel.A,
+                    message: `Label points at a non-labelable <${target.tagName}>`,
+                    description: 'Only input, select, textarea, button, meter, output and progress can be labelled with <label for>',
+                    ...this.locate(document, forAttr.start, forAttr.end),
+                    suggestion: 'Point the label at a form control, or use aria-labelledby on custom widgets',
+                    filePath: document.uri.fsPath
+                }));
+                continue;
+            }
+
+            if (wrappedControl && wrappedControl !== target && !wrappedControl.isComponent) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_FORM_LABEL,
+                    severity: AccessibilitySeverity.MODERATE,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'Label wraps one control but its for attribute targets another',
+                    description: 'The for attribute wins, so the wrapped control is left without this label',
+                    ...this.locate(document, forAttr.start, forAttr.end),
+                    suggestion: 'Make for match the wrapped control\'s id, or move the label',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check form semantics beyond labels: radio/checkbox grouping, autocomplete
+     * purposes (WCAG 1.3.5), required state and error message associations
+     */
+    private auditForms(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const groups = new Map<string, MarkupElement[]>();
+
+        for (const element of tree.elements) {
+            if (!['input', 'select', 'textarea'].includes(element.tagName) ||
+                element.hasSpreadAttributes || this.isHiddenFromAccessibilityTree(element)) {
+                continue;
+            }
+
+            const type = (getAttributeValue(element, 'type') || 'text').toLowerCase();
+            const name = getAttribute(element, 'name');
+
+            if (element.tagName === 'input' && (type === 'radio' || type === 'checkbox') && name && !name.isDynamic) {
+                const form = findAncestor(element, ancestor => ancestor.tagName === 'form');
+                const key = `${form ? form.start : -1}:${type}:${name.value}`;
+                groups.set(key, [...(groups.get(key) || []), element]);
+            }
+
+            issues.push(...this.auditAutocomplete(document, element, type));
+
+            const accessibleName = this.nameCalculator.compute(element, tree);
+            const looksRequired = /\*|\brequired\b/i.test(accessibleName.name);
+            const isRequired = hasAttribute(element, 'required') || hasAttribute(element, 'aria-required');
+
+            if (looksRequired && !isRequired) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_REQUIRED_STATE,
+                    severity: AccessibilitySeverity.MODERATE,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'Field is labelled as required but not marked required',
+                    description: 'The asterisk or "required" text is not conveyed as a state, and browsers will not validate the field',
+                    ...this.locateElement(document, element),
+                    suggestion: 'Add the required attribute (or aria-required="true" on custom validation forms)',
+                    filePath: document.uri.fsPath
+                }));
+            }
+
+            const invalid = getAttribute(element, 'aria-invalid');
+            const hasErrorReference = hasAttribute(element, 'aria-describedby') || hasAttribute(element, 'aria-errormessage');
+
+            if (invalid && !invalid.isDynamic && invalid.value !== 'false' && !hasErrorReference) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_ERROR_MESSAGE,
+                    severity: AccessibilitySeverity.SERIOUS,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'Invalid field has no associated error message',
+                    description: 'Screen readers announce the field as invalid but cannot say what is wrong',
+                    ...this.locate(document, invalid.start, invalid.end),
+                    suggestion: 'Point aria-describedby or aria-errormessage at the element containing the error text',
+                    filePath: document.uri.fsPath
+                }));
+            }
+
+            const errorMessage = getAttribute(element, 'aria-errormessage');
+            if (errorMessage && (invalid === undefined || (!invalid.isDynamic && invalid.value === 'false'))) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_ERROR_MESSAGE,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'aria-errormessage has no effect without aria-invalid="true"',
+                    description: 'Assistive technology only exposes the error message while the field is marked invalid',
+                    ...this.locate(document, errorMessage.start, errorMessage.end),
+                    suggestion: 'Set aria-invalid="true" whenever the error message is shown',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        for (const members of groups.values()) {
+            if (members.length < 2) {
+                continue;
+            }
+
+            const containers = members.map(member => findAncestor(member, ancestor =>
+                ancestor.tagName === 'fieldset' || ancestor.isComponent ||
+                /^(group|radiogroup)$/.test(getAttributeValue(ancestor, 'role')?.trim() || '')));
+            const container = containers[0];
+
+            if (container?.isComponent) {
+                continue;
+            }
+
+            const groupName = container && containers.every(other => other === container)
+                ? this.nameCalculator.compute(container, tree)
+                : undefined;
+            const isGrouped = groupName !== undefined && (groupName.name.trim().length > 0 || groupName.isDynamic);
+
+            if (!isGrouped) {
+                const type = getAttributeValue(members[0], 'type')?.toLowerCase();
+                issues.push(this.createIssue({
+                    type: IssueType.FORM_GROUPING,
+                    severity: AccessibilitySeverity.MODERATE,
+                    wcagLevel: WCAGLevel.A,
+                    message: container
+                        ? `Group of ${members.length} ${type} buttons has no group name`
+                        : `${members.length} related ${type} buttons are not grouped`,
+                    description: 'Screen reader users hear each option on its own without the question they answer',
+                    ...this.locateElement(document, members[0]),
+                    suggestion: container
+                        ? 'Add a <legend> to the fieldset, or aria-labelledby to the group'
+                        : 'Wrap the options in <fieldset> with a <legend>, or role="radiogroup"/"group" with a name',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Validate an autocomplete attribute, or suggest one for personal data fields
+     */
+    private auditAutocomplete(document: vscode.TextDocument, element: MarkupElement, type: string): AccessibilityIssue[] {
+        const autocomplete = getAttribute(element, 'autocomplete');
+
+        if (autocomplete) {
+            if (autocomplete.isDynamic || this.isValidAutocomplete(autocomplete.value)) {
+                return [];
+            }
+
+            return [this.createIssue({
+                type: IssueType.INVALID_AUTOCOMPLETE,
+                severity: AccessibilitySeverity.SERIOUS,
+                wcagLevel: WCAGLevel.AA,
+                message: `Invalid autocomplete value: "${autocomplete.value}"`,
+                description: 'Browsers and assistive technology only recognise the HTML autofill field names',
+                ...this.locate(document, autocomplete.start, autocomplete.end),
+                suggestion: 'Use an autofill token such as "name", "email", "tel", "street-address" or "postal-code"',
+                filePath: document.uri.fsPath
+            })];
+        }
+
+        if (element.tagName !== 'input' || !AccessibilityAuditor.TEXT_ENTRY_TYPES.includes(type)) {
+            return [];
+        }
+
+        const purpose = this.guessInputPurpose(element, type);
+        if (!purpose) {
+            return [];
+        }
+
+        return [this.createIssue({
+            type: IssueType.INVALID_AUTOCOMPLETE,
+            severity: AccessibilitySeverity.MODERATE,
+            wcagLevel: WCAGLevel.AA,
+            message: `Personal data field has no autocomplete (looks like "${purpose}")`,
+            description: 'Identifying the input purpose lets browsers fill it in and lets assistive tools show familiar icons',
+            ...this.locateElement(document, element),
+            suggestion: `Add autocomplete="${purpose}"`,
+            filePath: document.uri.fsPath
+        })];
+    }
+
+    /**
+     * Check an autocomplete value against the HTML autofill grammar:
+     * [section-*] [shipping|billing] [home|work|mobile|fax|pager] field [webauthn]
+     */
+    private isValidAutocomplete(value: string): boolean {
+        const tokens = value.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+        if (tokens.length === 1 && (tokens[0] === 'on' || tokens[0] === 'off')) {
+            return true;
+        }
+
+        if (tokens[tokens.length - 1] === 'webauthn') {
+            tokens.pop();
+        }
+        if (tokens[0]?.startsWith('section-')) {
+            tokens.shift();
+        }
+        if (tokens[0] === 'shipping' || tokens[0] === 'billing') {
+            tokens.shift();
+        }
+
+        const field = tokens.pop();
+        if (!field || tokens.length > 1) {
+            return false;
+        }
+
+        if (tokens.length === 1) {
+            return AccessibilityAuditor.AUTOFILL_CONTACT_TYPES.includes(tokens[0]) &&
+                AccessibilityAuditor.AUTOFILL_CONTACT_FIELDS.includes(field);
+        }
+
+        return AccessibilityAuditor.AUTOFILL_FIELDS.includes(field) ||
+            AccessibilityAuditor.AUTOFILL_CONTACT_FIELDS.includes(field);
+    }
+
+    /**
+     * Guess the autofill purpose of a text field from its type, name and id
+     */
+    private guessInputPurpose(element: MarkupElement, type: string): string | undefined {
+        if (type === 'email' || type === 'tel') {
+            return type;
+        }
+
+        const hint = [getAttribute(element, 'name'), getAttribute(element, 'id')]
+            .filter(attr => attr && !attr.isDynamic)
+            .map(attr => (attr as MarkupAttribute).value)
+            .join(' ');
+
+        return AccessibilityAuditor.INPUT_PURPOSE_PATTERNS.find(entry => entry.pattern.test(hint))?.purpose;
+    }
+
+    /**
+     * Check that link text describes its destination: generic phrases, bare
+     * URLs, the same text leading to different places and unannounced new windows
+     */
+    private auditLinkText(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const linksByText = new Map<string, Array<{ element: MarkupElement; href: string; text: string }>>();
+
+        for (const element of tree.elements) {
+            const href = getAttribute(element, 'href');
+
+            if (element.tagName !== 'a' || element.isComponent || !href ||
+                this.isHiddenFromAccessibilityTree(element)) {
+                continue;
+            }
+
+            const accessibleName = this.nameCalculator.compute(element, tree);
+            const text = accessibleName.name.trim();
+
+            if (accessibleName.isDynamic || text === '') {
+                continue;
+            }
+
+            const language = this.getLanguage(element);
+            const isGeneric = this.linkTextAnalyzer.isGeneric(text, language);
+
+            if (isGeneric) {
+                issues.push(this.createIssue({
+                    type: IssueType.AMBIGUOUS_LINK_TEXT,
+                    severity: AccessibilitySeverity.MODERATE,
+                    wcagLevel: WCAGLevel.A,
+                    message: `Generic link text "${text}"`,
+                    description: 'Screen reader users often browse a list of links, where this text says nothing about the destination',
+                    ...this.locateElement(document, element),
+                    suggestion: 'Describe the destination in the link text, e.g. "Read more about pricing"',
+                    filePath: document.uri.fsPath
+                }));
+            } else if (this.linkTextAnalyzer.isUrl(text)) {
+                issues.push(this.createIssue({
+                    type: IssueType.AMBIGUOUS_LINK_TEXT,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.AAA,
+                    criterion: '2.4.9',
+                    message: 'URL used as link text',
+                    description: 'Screen readers read URLs character by character, and they rarely describe the destination',
+                    ...this.locateElement(document, element),
+                    suggestion: 'Use the title of the destination page as the link text',
+                    filePath: document.uri.fsPath
+                }));
+            }
+
+            if (!href.isDynamic && !isGeneric) {
+                const key = this.linkTextAnalyzer.normalize(text);
+                linksByText.set(key, [...(linksByText.get(key) || []), { element, href: href.value.trim(), text }]);
+            }
+
+            const target = getAttribute(element, 'target');
+            const warning = `${accessibleName.name} ${accessibleName.description}`;
+
+            if (target && !target.isDynamic && target.value.trim().toLowerCase() === '_blank' &&
+                !this.linkTextAnalyzer.warnsOfNewWindow(warning, language)) {
+                issues.push(this.createIssue({
+                    type: IssueType.NEW_WINDOW_WITHOUT_WARNING,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.AAA,
+                    message: 'Link opens a new window without warning',
+                    description: 'Users who cannot see the new window appear are left wondering why the Back button no longer works',
+                    ...this.locate(document, target.start, target.end),
+                    suggestion: 'Add "(opens in a new tab)" to the link text or aria-describedby, or remove target="_blank"',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        for (const links of linksByText.values()) {
+            const hrefs = new Set(links.map(link => link.href));
+
+            if (hrefs.size < 2) {
+                continue;
+            }
+
+            const relatedLocations = links.map(link => this.relate(
+                `"${link.text}" links to ${link.href || '(empty href)'}`,
+                this.locateElement(document, link.element)
+            ));
+
+            for (const link of links) {
+                issues.push(this.createIssue({
+                    type: IssueType.AMBIGUOUS_LINK_TEXT,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.AAA,
+                    criterion: '2.4.9',
+                    message: `Link text "${link.text}" is used for ${hrefs.size} different destinations`,
+                    description: 'Links with the same text should lead to the same place; otherwise users cannot tell them apart out of context',
+                    ...this.locateElement(document, link.element),
+                    suggestion: 'Make the text of each link unique, or add aria-label/aria-describedby to tell them apart',
+                    filePath: document.uri.fsPath,
+                    relatedLocations
+                }));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Get the language of an element from the nearest lang attribute (defaults to English)
+     */
+    private getLanguage(element: MarkupElement): string {
+        const isStaticLang = (candidate: MarkupElement) => {
+            const lang = getAttribute(candidate, 'lang');
+            return lang !== undefined && !lang.isDynamic && lang.value.trim() !== '';
+        };
+        const owner = isStaticLang(element) ? element : findAncestor(element, isStaticLang);
+
+        return owner ? (getAttributeValue(owner, 'lang') as string).trim() : 'en';
+    }
+
+    /**
+     * Check whether an element's only content is an icon hidden with aria-hidden
+     */
+    private isIconOnly(element: MarkupElement): boolean {
+        return getTextContent(element).trim() === '' && getDescendants(element).some(descendant =>
+            ['svg', 'i', 'span', 'img'].includes(descendant.tagName) &&
+            getAttributeValue(descendant, 'aria-hidden')?.trim() === 'true');
+    }
+
+    /**
+     * Report elements that reuse an id, linking every occurrence
+     * Ids that a for/headers/ARIA attribute points at are more serious: the
+     * reference silently resolves to the first occurrence only.
+     */
+    private auditDuplicateIds(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const index = this.nameCalculator.getIdIndex(tree);
+
+        for (const [id, elements] of index.getDuplicates()) {
+            const references = index.getReferences(id);
+            const referencedBy = [...new Set(references.map(reference => reference.attribute.name))];
+
+            const relatedLocations: RelatedIssueLocation[] = [
+                ...elements.map((element, position) => this.relate(
+                    position === 0 ? `First use of id "${id}"` : `Duplicate of id "${id}"`,
+                    this.locateElement(document, element)
+                )),
+                ...references.map(reference => this.relate(
+                    `Referenced by ${reference.attribute.name}`,
+                    this.locate(document, reference.attribute.start, reference.attribute.end)
+                ))
+            ];
+
+            for (const element of elements.slice(1)) {
+                const idAttr = getAttribute(element, 'id') as MarkupAttribute;
+
+                issues.push(this.createIssue({
+                    type: IssueType.DUPLICATE_ID,
+                    severity: references.length > 0 ? AccessibilitySeverity.SERIOUS : AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.A,
+                    // A broken reference breaks the relationship itself; otherwise the
+                    // finding is advisory, under 4.1.1 Parsing or, in WCAG 2.2 where
+                    // that is obsolete, 1.3.1
+                    criterion: references.length > 0 ? '1.3.1' : undefined,
+                    message: `Duplicate id "${id}" (${elements.length} elements)`,
+                    description: referencedBy.length > 0
+                        ? `This id is referenced by ${referencedBy.join(', ')}, which only ever reaches the first element`
+                        : 'Ids must be unique; any future label or ARIA reference would only reach the first element',
+                    ...this.locate(document, idAttr.start, idAttr.end),
+                    suggestion: 'Give each element a unique id',
+                    filePath: document.uri.fsPath,
+                    relatedLocations
+                }));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check that ID references in ARIA attributes resolve to a usable element
+     */
+    private auditIdReferences(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const canResolveIds = !this.hasOpaqueContent(tree);
+
+        for (const element of tree.elements) {
+            for (const attr of element.attributes) {
+                if (!this.ariaValidator.isIdReferenceAttribute(attr.name) || attr.isDynamic) {
+                    continue;
+                }
+
+                const ids = attr.value.trim().split(/\s+/).filter(Boolean);
+                const ownId = getAttribute(element, 'id');
+
+                for (const id of ids) {
+                    const targets = this.nameCalculator.getIdIndex(tree).getElementsById(id);
+                    const location = this.locate(document, attr.start, attr.end);
+
+                    if (targets.length === 0) {
+                        if (canResolveIds) {
+                            issues.push(this.createIssue({
+                                type: IssueType.INVALID_ARIA_ATTRIBUTE,
+                                severity: AccessibilitySeverity.SERIOUS,
+                                wcagLevel: WCAGLevel.A,
+                                message: `${attr.name} references missing id "${id}"`,
+                                description: 'No element in this document has this id, so assistive technology silently ignores the reference',
+                                ...location,
+                                suggestion: `Add id="${id}" to the intended element or remove it from ${attr.name}`,
+                                filePath: document.uri.fsPath
+                            }));
+                        }
+                        continue;
+                    }
+
+                    // Self references are only meaningful when combined with other labels
+                    const isSelf = ownId !== undefined && !ownId.isDynamic && ownId.value === id;
+                    if (isSelf && !(attr.name === 'aria-labelledby' && ids.length > 1)) {
+                        issues.push(this.createIssue({
+                            type: IssueType.INVALID_ARIA_ATTRIBUTE,
+                            severity: AccessibilitySeverity.MODERATE,
+                            wcagLevel: WCAGLevel.A,
+                            message: `${attr.name} references the element itself`,
+                            description: `An element cannot be its own ${attr.name.replace('aria-', '')} target`,
+                            ...location,
+                            suggestion: `Point ${attr.name} at a different element`,
+                            filePath: document.uri.fsPath
+                        }));
+                        continue;
+                    }
+
+                    if (targets.length > 1) {
+                        issues.push(this.createIssue({
+                            type: IssueType.INVALID_ARIA_ATTRIBUTE,
+                            severity: AccessibilitySeverity.SERIOUS,
+                            wcagLevel: WCAGLevel.A,
+                            message: `${attr.name} references duplicated id "${id}"`,
+                            description: `${targets.length} elements share this id; only the first one is used`,
+                            ...location,
+                            suggestion: 'Make the id unique so the reference is unambiguous',
+                            filePath: document.uri.fsPath
+                        }));
+                        continue;
+                    }
+
+                    if (this.isHiddenFromAccessibilityTree(targets[0])) {
+                        // Hidden label/description text is still read, but sighted users never see it
+                        const isNamingReference = attr.name === 'aria-labelledby' || attr.name === 'aria-describedby';
+
+                        issues.push(this.createIssue({
+                            type: IssueType.INVALID_ARIA_ATTRIBUTE,
+                            severity: isNamingReference ? AccessibilitySeverity.MINOR : AccessibilitySeverity.MODERATE,
+                            wcagLevel: WCAGLevel.A,
+                            message: `${attr.name} references hidden element "${id}"`,
+                            description: isNamingReference
+                                ? 'Hidden text is still used for the name or description; make sure it matches what sighted users see'
+                                : 'The referenced element is hidden from assistive technology, so the relationship is not exposed',
+                            ...location,
+                            suggestion: isNamingReference
+                                ? 'Prefer referencing visible text'
+                                : 'Reference an element that is exposed to assistive technology',
+                            filePath: document.uri.fsPath
+                        }));
+                    }
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check ARIA parent/child structure: required context roles and required owned elements
+     * Only explicit roles are checked. Elements owned through aria-owns count as children
+     * of the owner; components, spread props and dynamic content make ownership unknown.
+     */
+    private auditOwnership(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const owners = new Map<MarkupElement, MarkupElement>();
+        const ownedBy = new Map<MarkupElement, MarkupElement[]>();
+        const opaqueOwners = new Set<MarkupElement>();
+
+        for (const element of tree.elements) {
+            const owns = getAttribute(element, 'aria-owns');
+            if (!owns) {
+                continue;
+            }
+            if (owns.isDynamic) {
+                opaqueOwners.add(element);
+                continue;
+            }
+
+            const owned: MarkupElement[] = [];
+            for (const id of owns.value.trim().split(/\s+/).filter(Boolean)) {
+                const target = this.nameCalculator.getElementById(tree, id);
+                if (target) {
+                    owners.set(target, element);
+                    owned.push(target);
+                }
+            }
+            ownedBy.set(element, owned);
+        }
+
+        for (const element of tree.elements) {
+            const roleAttr = getAttribute(element, 'role');
+            if (!roleAttr || roleAttr.isDynamic || element.isComponent || this.isHiddenFromAccessibilityTree(element)) {
+                continue;
+            }
+
+            const role = this.nameCalculator.getRole(element);
+            if (!role) {
+                continue;
+            }
+
+            const contextRoles = this.ariaValidator.getRequiredContextRoles(role);
+            if (contextRoles.length > 0) {
+                const ownerRole = this.getOwnerRole(element, owners);
+
+                if (ownerRole !== null && !(ownerRole !== undefined && contextRoles.includes(ownerRole))) {
+                    issues.push(this.createIssue({
+                        type: IssueType.MISSING_ROLE,
+                        severity: AccessibilitySeverity.SERIOUS,
+                        wcagLevel: WCAGLevel.A,
+                        message: `Role "${role}" must be contained in ${this.formatRoleList(contextRoles)}`,
+                        description: ownerRole
+                            ? `This ${role} is owned by role "${ownerRole}", so assistive technology cannot announce its position in the widget`
+                            : `This ${role} has no owning ${this.formatRoleList(contextRoles)}, so assistive technology cannot announce its position in the widget`,
+                        ...this.locate(document, roleAttr.start, roleAttr.end),
+                        suggestion: `Place it inside an element with ${this.formatRoleList(contextRoles)} or reference it with aria-owns`,
+                        filePath: document.uri.fsPath
+                    }));
+                }
+            }
+
+            const ownedRoles = this.ariaValidator.getRequiredOwnedRoles(role);
+            if (ownedRoles.length > 0 && !opaqueOwners.has(element) && getAttributeValue(element, 'aria-busy') !== 'true') {
+                const childRoles = this.getOwnedRoles(element, ownedBy.get(element) || []);
+
+                if (childRoles !== null && !childRoles.some(childRole => ownedRoles.includes(childRole))) {
+                    issues.push(this.createIssue({
+                        type: IssueType.MISSING_ROLE,
+                        severity: AccessibilitySeverity.SERIOUS,
+                        wcagLevel: WCAGLevel.A,
+                        message: `Role "${role}" must contain ${this.formatRoleList(ownedRoles)}`,
+                        description: `This ${role} owns no ${this.formatRoleList(ownedRoles)} elements, so it is announced as an empty widget`,
+                        ...this.locate(document, roleAttr.start, roleAttr.end),
+                        suggestion: `Add child elements with ${this.formatRoleList(ownedRoles)}, or set aria-busy="true" while they load`,
+                        filePath: document.uri.fsPath
+                    }));
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Find the role of the element that owns this one in the accessibility tree
+     * @returns The owner's role, undefined when there is no owner, or null when it cannot be known
+     */
+    private getOwnerRole(element: MarkupElement, owners: Map<MarkupElement, MarkupElement>): string | undefined | null {
+        const visited = new Set<MarkupElement>();
+        let current: MarkupElement | null = element;
+
+        while (current && !visited.has(current)) {
+            visited.add(current);
+            const owner: MarkupElement | null = owners.get(current) || current.parent;
+            if (!owner || owner.tagName === '#document') {
+                return undefined;
+            }
+            if (owner.isComponent || getAttribute(owner, 'role')?.isDynamic) {
+                return null;
+            }
+
+            const role = this.nameCalculator.getRole(owner);
+            if (!this.isTransparentForOwnership(role)) {
+                return role;
+            }
+            current = owner;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Collect the roles of the elements this one owns, looking through generic wrappers
+     * @returns The owned roles, or null when the children cannot be known statically
+     */
+    private getOwnedRoles(element: MarkupElement, ariaOwned: MarkupElement[]): string[] | null {
+        const roles: string[] = [];
+        const pending: MarkupNode[] = [...element.children, ...ariaOwned];
+
+        while (pending.length > 0) {
+            const node = pending.shift() as MarkupNode;
+
+            if (node.kind === 'text') {
+                if (node.isDynamic) {
+                    return null;
+                }
+                continue;
+            }
+
+            if (node.isComponent || node.hasSpreadAttributes || getAttribute(node, 'role')?.isDynamic) {
+                return null;
+            }
+            if (this.nameCalculator.isHidden(node)) {
+                continue;
+            }
+
+            const role = this.nameCalculator.getRole(node);
+            if (this.isTransparentForOwnership(role)) {
+                pending.push(...node.children);
+            } else {
+                roles.push(role as string);
+            }
+        }
+
+        return roles;
+    }
+
+    /**
+     * Check whether a role is skipped over when computing ownership
+     */
+    private isTransparentForOwnership(role: string | undefined): boolean {
+        return role === undefined || role === 'generic' || role === 'none' || role === 'presentation';
+    }
+
+    /**
+     * Format a list of roles for a message: role "a", role "b" or role "c"
+     */
+    private formatRoleList(roles: string[]): string {
+        const quoted = roles.map(role => `"${role}"`);
+        const list = quoted.length > 1
+            ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}`
+            : quoted[0];
+        return `role ${list}`;
+    }
+
+    /**
+     * Check whether a tree contains markup whose ids cannot be known statically
+     * (components, spread props or dynamic id values), so missing targets may exist at runtime
+     */
+    private hasOpaqueContent(tree: MarkupDocument): boolean {
+        return tree.elements.some(element =>
+            element.isComponent || element.hasSpreadAttributes || getAttribute(element, 'id')?.isDynamic
+        );
+    }
+
+    /**
+     * Audit the heading outline of a parsed document
+     * The missing-h1 check only applies to full documents (with <html> or <body>),
+     * since partial templates and components are rendered inside a page.
+     */
+    private auditHeadingStructure(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const headings: Array<{ element: MarkupElement; level: number }> = [];
+
+        for (const element of tree.elements) {
+            if (element.isComponent || this.isHiddenFromAccessibilityTree(element)) {
+                continue;
+            }
+
+            const nativeLevel = /^h[1-6]$/.test(element.tagName) ? parseInt(element.tagName[1]) : undefined;
+            const isRoleHeading = getAttributeValue(element, 'role')?.trim() === 'heading';
+
+            if (nativeLevel === undefined && !isRoleHeading) {
+                continue;
+            }
+
+            const ariaLevel = getAttribute(element, 'aria-level');
+
+            if (isRoleHeading && !ariaLevel) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_HEADING_STRUCTURE,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'role="heading" without aria-level',
+                    description: 'Elements with role="heading" are exposed as level 2 unless aria-level is set',
+                    ...this.locateElement(document, element),
+                    suggestion: 'Add aria-level="1" to "6", or use a native <h1>-<h6> element',
+                    filePath: document.uri.fsPath
+                }));
+            }
+
+            const headingName = this.nameCalculator.compute(element, tree);
+            if (!headingName.isDynamic && headingName.name === '') {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_HEADING_STRUCTURE,
+                    severity: AccessibilitySeverity.SERIOUS,
+                    wcagLevel: WCAGLevel.AA,
+                    criterion: '2.4.6',
+                    message: 'Empty heading',
+                    description: 'Screen reader users navigate by headings; an empty heading is announced without content',
+                    ...this.locateElement(document, element),
+                    suggestion: 'Add text to the heading or remove the element',
+                    filePath: document.uri.fsPath
+                }));
+            }
+
+            // Dynamic levels cannot be evaluated statically
+            if (ariaLevel?.isDynamic) {
+                continue;
+            }
+
+            const parsedLevel = ariaLevel ? parseInt(ariaLevel.value) : NaN;
+            const level = !isNaN(parsedLevel) && parsedLevel > 0 ? parsedLevel : (nativeLevel ?? 2);
+            headings.push({ element, level });
+        }
+
+        const isFullDocument = tree.elements.some(element => element.tagName === 'html' || element.tagName === 'body');
+        const h1Headings = headings.filter(heading => heading.level === 1);
+
+        if (isFullDocument && h1Headings.length === 0) {
+            const anchor = headings[0]?.element ?? tree.elements.find(element => element.tagName === 'body');
+
+            issues.push(this.createIssue({
+                type: IssueType.MISSING_HEADING_STRUCTURE,
+                severity: AccessibilitySeverity.MODERATE,
+                wcagLevel: WCAGLevel.A,
+                message: 'Document has no level-one heading',
+                description: 'A single h1 identifies the main content and anchors the heading outline',
+                ...(anchor ? this.locateElement(document, anchor) : this.locate(document, 0, 0)),
+                suggestion: 'Add an <h1> that describes the page content',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        if (this.config.headingProfile === HeadingProfile.SINGLE_H1) {
+            // Headings on exclusive JSX branches never appear together
+            const extraH1Headings = h1Headings.filter((heading, index) =>
+                h1Headings.slice(0, index).some(earlier => canCoexist(earlier.element, heading.element)));
+
+            for (const heading of extraH1Headings) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_HEADING_STRUCTURE,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'Multiple level-one headings',
+                    description: 'The heading profile allows only one h1 per document',
+                    ...this.locateElement(document, heading.element),
+                    suggestion: 'Demote this heading to <h2> or lower',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        // Check for skipped levels (h2 -> h4)
+        for (let i = 1; i < headings.length; i++) {
+            const previous = headings[i - 1].level;
+            const current = headings[i].level;
+
+            if (current > previous + 1) {
+                issues.push(this.createIssue({
+                    type: IssueType.MISSING_HEADING_STRUCTURE,
+                    severity: AccessibilitySeverity.MODERATE,
+                    wcagLevel: WCAGLevel.A,
+                    message: `Heading level skipped: h${previous} → h${current}`,
+                    description: 'Heading levels should only increase by one so the outline reflects the content structure',
+                    ...this.locateElement(document, headings[i].element),
+                    suggestion: `Use <h${previous + 1}> here, or add the missing intermediate heading`,
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check table markup
+     * Data tables need header cells, scope on complex headers, valid headers=""
+     * references and a caption or name. Layout tables (role="presentation"/"none")
+     * must not use data table markup.
+     */
+    private auditTables(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const index = this.nameCalculator.getIdIndex(tree);
+        const canResolveIds = !this.hasOpaqueContent(tree);
+
+        for (const table of tree.elements) {
+            if (table.tagName !== 'table' || this.isHiddenFromAccessibilityTree(table)) {
+                continue;
+            }
+
+            // Rows and cells of nested tables belong to those tables
+            const ownDescendants = getDescendants(table)
+                .filter(element => findAncestor(element, ancestor => ancestor.tagName === 'table') === table);
+            const rows = ownDescendants.filter(element => element.tagName === 'tr');
+            const cells = ownDescendants.filter(element => element.tagName === 'td' || element.tagName === 'th');
+            const headerCells = cells.filter(cell => this.isHeaderCell(cell));
+            const role = getAttribute(table, 'role');
+
+            if (role && !role.isDynamic && /^(presentation|none)\b/.test(role.value.trim())) {
+                const dataMarkup = [
+                    ...headerCells,
+                    ...ownDescendants.filter(element => element.tagName === 'caption')
+                ];
+                const summary = getAttribute(table, 'summary');
+
+                for (const element of dataMarkup) {
+                    issues.push(this.createIssue({
+                        type: IssueType.TABLE_STRUCTURE,
+                        severity: AccessibilitySeverity.MODERATE,
+                        wcagLevel: WCAGLevel.A,
+                        message: `Layout table uses <${element.tagName}>`,
+                        description: 'Layout tables must not use data table markup; it suggests relationships that do not exist',
+                        ...this.locateElement(document, element),
+                        suggestion: element.tagName === 'th' ? 'Use <td> in layout tables' : 'Remove the caption from the layout table',
+                        filePath: document.uri.fsPath
+                    }));
+                }
+
+                if (summary) {
+                    issues.push(this.createIssue({
+                        type: IssueType.TABLE_STRUCTURE,
+                        severity: AccessibilitySeverity.MODERATE,
+                        wcagLevel: WCAGLevel.A,
+                        message: 'Layout table has a summary attribute',
+                        description: 'Layout tables must not use data table markup; it suggests relationships that do not exist',
+                        ...this.locate(document, summary.start, summary.end),
+                        suggestion: 'Remove the summary attribute, or better, replace the table with CSS layout',
+                        filePath: document.uri.fsPath
+                    }));
+                }
+                continue;
+            }
+
+            // Rows generated by components or expressions cannot be inspected
+            const isOpaque = ownDescendants.some(element => element.isComponent || element.hasSpreadAttributes) ||
+                [table, ...ownDescendants].some(element =>
+                    element.children.some(child => child.kind === 'text' && child.isDynamic));
+
+            if (headerCells.length === 0 && !isOpaque && rows.length > 1) {
+                issues.push(this.createIssue({
+                    type: IssueType.TABLE_STRUCTURE,
+                    severity: AccessibilitySeverity.SERIOUS,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'Data table has no header cells',
+                    description: 'Without <th> cells, screen readers cannot announce which row and column a value belongs to',
+                    ...this.locateElement(document, table),
+                    suggestion: 'Mark header cells with <th scope="col"> or <th scope="row">, or add role="presentation" if the table is only for layout',
+                    filePath: document.uri.fsPath
+                }));
+            }
+
+            if (this.isComplexTable(rows)) {
+                for (const cell of headerCells) {
+                    const id = getAttribute(cell, 'id');
+                    const isReferenced = id !== undefined && !id.isDynamic &&
+                        index.getReferences(id.value).some(reference => reference.attribute.name === 'headers');
+
+                    if (cell.tagName === 'th' && !hasAttribute(cell, 'scope') && !isReferenced) {
+                        issues.push(this.createIssue({
+                            type: IssueType.TABLE_STRUCTURE,
+                            severity: AccessibilitySeverity.MODERATE,
+                            wcagLevel: WCAGLevel.A,
+                            message: 'Header cell in a complex table has no scope',
+                            description: 'With several header rows or columns, screen readers cannot tell which cells this header applies to',
+                            ...this.locateElement(document, cell),
+                            suggestion: 'Add scope="col", scope="row", scope="colgroup" or scope="rowgroup"',
+                            filePath: document.uri.fsPath
+                        }));
+                    }
+                }
+            }
+
+            for (const cell of cells) {
+                const headers = getAttribute(cell, 'headers');
+                if (!headers || headers.isDynamic) {
+                    continue;
+                }
+
+                for (const id of headers.value.trim().split(/\s+/).filter(Boolean)) {
+                    const target = index.getElementById(id);
+
+                    if (!target && canResolveIds) {
+                        issues.push(this.createIssue({
+                            type: IssueType.TABLE_STRUCTURE,
+                            severity: AccessibilitySeverity.SERIOUS,
+                            wcagLevel: WCAGLevel.A,
+                            message: `headers references missing id "${id}"`,
+                            description: 'The cell is not associated with the header it names',
+                            ...this.locate(document, headers.start, headers.end),
+                            suggestion: `Add id="${id}" to the header cell or fix the headers attribute`,
+                            filePath: document.uri.fsPath
+                        }));
+                    } else if (target && !(cells.includes(target) && this.isHeaderCell(target))) {
+                        issues.push(this.createIssue({
+                            type: IssueType.TABLE_STRUCTURE,
+                            severity: AccessibilitySeverity.MODERATE,
+                            wcagLevel: WCAGLevel.A,
+                            message: `headers references "${id}", which is not a header cell of this table`,
+                            description: 'The headers attribute may only point at header cells in the same table',
+                            ...this.locate(document, headers.start, headers.end),
+                            suggestion: 'Point headers at <th> ids in the same table',
+                            filePath: document.uri.fsPath
+                        }));
+                    }
+                }
+            }
+
+            const name = this.nameCalculator.compute(table, tree);
+            if (headerCells.length > 0 && !name.name.trim() && !name.isDynamic) {
+                issues.push(this.createIssue({
+                    type: IssueType.TABLE_STRUCTURE,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'Data table has no caption',
+                    description: 'A caption or accessible name lets screen reader users identify the table before reading it',
+                    ...this.locateElement(document, table),
+                    suggestion: 'Add a <caption> as the first child of the table, or aria-labelledby pointing at its heading',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check whether a table cell is a header cell
+     */
+    private isHeaderCell(cell: MarkupElement): boolean {
+        const role = getAttributeValue(cell, 'role')?.trim();
+        if (role) {
+            return role === 'columnheader' || role === 'rowheader';
+        }
+        return cell.tagName === 'th';
+    }
+
+    /**
+     * Check whether a table's headers are too complex for browsers to associate on their own:
+     * headers in both the first row and first column, several header rows or columns, or spanning headers
+     */
+    private isComplexTable(rows: MarkupElement[]): boolean {
+        const rowCells = rows.map(row => row.children.filter((child): child is MarkupElement =>
+            child.kind === 'element' && (child.tagName === 'td' || child.tagName === 'th')));
+        // An empty corner cell does not stop a row from being a header row
+        const headerRows = rowCells.filter(cells => cells.some(cell => this.isHeaderCell(cell)) &&
+            cells.every(cell => this.isHeaderCell(cell) || !getTextContent(cell).trim()));
+        const rowHeaderColumns = Math.max(0, ...rowCells
+            .filter(cells => !headerRows.includes(cells))
+            .map(cells => {
+                const firstDataCell = cells.findIndex(cell => !this.isHeaderCell(cell));
+                return firstDataCell === -1 ? 0 : firstDataCell;
+            }));
+        const hasSpanningHeader = rowCells.some(cells => cells.some(cell => this.isHeaderCell(cell) &&
+            (parseInt(getAttributeValue(cell, 'colspan') || '1') > 1 ||
+                parseInt(getAttributeValue(cell, 'rowspan') || '1') > 1)));
+
+        return (headerRows.length > 0 && rowHeaderColumns > 0) ||
+            headerRows.length > 1 || rowHeaderColumns > 1 || hasSpanningHeader;
+    }
+
+    /**
+     * Check page landmarks: a single main, banner and contentinfo, uniquely named
+     * repeated landmarks, named regions, and content outside every landmark
+     */
+    private auditLandmarks(document: vscode.TextDocument, tree: MarkupDocument): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const landmarks: Array<{ element: MarkupElement; role: string; name: string; isDynamic: boolean }> = [];
+
+        for (const element of tree.elements) {
+            if (this.isHiddenFromAccessibilityTree(element)) {
+                continue;
+            }
+
+            const role = this.getLandmarkRole(element, tree);
+            if (role) {
+                const name = this.nameCalculator.compute(element, tree);
+                landmarks.push({ element, role, name: name.name.trim().toLowerCase(), isDynamic: name.isDynamic });
+            }
+        }
+
+        const isFullDocument = tree.elements.some(element => element.tagName === 'html' || element.tagName === 'body');
+        const body = tree.elements.find(element => element.tagName === 'body');
+
+        if (isFullDocument && !landmarks.some(landmark => landmark.role === 'main')) {
+            const anchor = body ?? tree.elements[0];
+            issues.push(this.createIssue({
+                type: IssueType.LANDMARK_STRUCTURE,
+                severity: AccessibilitySeverity.MODERATE,
+                wcagLevel: WCAGLevel.A,
+                message: 'Page has no main landmark',
+                description: 'Screen reader users jump to the main landmark to skip repeated navigation',
+                ...this.locateElement(document, anchor),
+                suggestion: 'Wrap the primary content in <main>',
+                filePath: document.uri.fsPath
+            }));
+        }
+
+        // Banner and contentinfo nested in another landmark are scoped to it and do not count
+        const singletonRoles = ['main', 'banner', 'contentinfo'];
+        const landmarkElements = new Set(landmarks.map(landmark => landmark.element));
+        for (const role of singletonRoles) {
+            const topLevel = landmarks.filter(landmark => landmark.role === role &&
+                !findAncestor(landmark.element, ancestor => landmarkElements.has(ancestor)));
+
+            topLevel.slice(1).forEach(landmark => {
+                issues.push(this.createIssue({
+                    type: IssueType.LANDMARK_STRUCTURE,
+                    severity: AccessibilitySeverity.MODERATE,
+                    wcagLevel: WCAGLevel.A,
+                    message: `Page has more than one top-level ${role} landmark`,
+                    description: `A page should have a single ${role} landmark so users know where it leads`,
+                    ...this.locateElement(document, landmark.element),
+                    suggestion: role === 'main'
+                        ? 'Keep one visible <main> and hide the others with the hidden attribute'
+                        : `Merge the ${role} landmarks or scope this one inside a sectioning element`,
+                    filePath: document.uri.fsPath
+                }));
+            });
+        }
+
+        for (const landmark of landmarks) {
+            if (landmark.role === 'region' && !landmark.name && !landmark.isDynamic) {
+                issues.push(this.createIssue({
+                    type: IssueType.LANDMARK_STRUCTURE,
+                    severity: AccessibilitySeverity.MODERATE,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'Region landmark has no accessible name',
+                    description: 'Unnamed regions are announced only as "region", which does not tell users what they contain',
+                    ...this.locateElement(document, landmark.element),
+                    suggestion: 'Add aria-labelledby pointing at the region\'s heading, or aria-label',
+                    filePath: document.uri.fsPath
+                }));
+                continue;
+            }
+
+            const isAmbiguous = !singletonRoles.includes(landmark.role) && !landmark.isDynamic && landmarks.some(other => other !== landmark &&
+                other.role === landmark.role && !other.isDynamic && other.name === landmark.name);
+
+            if (isAmbiguous) {
+                issues.push(this.createIssue({
+                    type: IssueType.LANDMARK_STRUCTURE,
+                    severity: AccessibilitySeverity.MODERATE,
+                    wcagLevel: WCAGLevel.A,
+                    message: landmark.name
+                        ? `Several ${landmark.role} landmarks share the name "${landmark.name}"`
+                        : `Several ${landmark.role} landmarks have no accessible name`,
+                    description: `Repeated ${landmark.role} landmarks need unique names so users can tell them apart in the landmarks list`,
+                    ...this.locateElement(document, landmark.element),
+                    suggestion: 'Give each one a distinct aria-label or aria-labelledby (e.g. "Primary", "Footer")',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        if (isFullDocument && body && landmarks.length > 0) {
+            for (const node of this.findContentOutsideLandmarks(body, landmarkElements)) {
+                issues.push(this.createIssue({
+                    type: IssueType.LANDMARK_STRUCTURE,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.A,
+                    message: 'Content is not contained in any landmark',
+                    description: 'Users who navigate by landmarks will skip over this content',
+                    ...this.locate(document, node.start, node.kind === 'element' ? node.openTagEnd : node.end),
+                    suggestion: 'Move it into <main>, <header>, <footer>, <nav> or another landmark',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Get the landmark role of an element, if it is one
+     * Header and footer are only banner/contentinfo when not scoped to sectioning content,
+     * and section/form only become landmarks once they have an accessible name.
+     */
+    private getLandmarkRole(element: MarkupElement, tree: MarkupDocument): string | undefined {
+        if (element.isComponent) {
+            return undefined;
+        }
+
+        const roleAttr = getAttribute(element, 'role');
+        if (roleAttr && !roleAttr.isDynamic && roleAttr.value.trim()) {
+            const role = this.nameCalculator.getRole(element);
+            return role && this.ariaValidator.isLandmarkRole(role) ? role : undefined;
+        }
+
+        switch (element.tagName) {
+            case 'main':
+                return 'main';
+            case 'nav':
+                return 'navigation';
+            case 'aside':
+                return 'complementary';
+            case 'search':
+                return 'search';
+            case 'header':
+            case 'footer': {
+                const isScoped = findAncestor(element, ancestor =>
+                    AccessibilityAuditor.SECTIONING_ELEMENTS.includes(ancestor.tagName)) !== undefined;
+                if (isScoped) {
+                    return undefined;
+                }
+                return element.tagName === 'header' ? 'banner' : 'contentinfo';
+            }
+            case 'section':
+            case 'form': {
+                const name = this.nameCalculator.compute(element, tree);
+                if (!name.name.trim() && !name.isDynamic) {
+                    return undefined;
+                }
+                return element.tagName === 'section' ? 'region' : 'form';
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Find the outermost nodes with perceivable content that no landmark contains
+     */
+    private findContentOutsideLandmarks(container: MarkupElement, landmarks: Set<MarkupElement>): MarkupNode[] {
+        const result: MarkupNode[] = [];
+
+        for (const child of container.children) {
+            if (child.kind === 'text') {
+                if (child.text.trim() || child.isDynamic) {
+                    result.push(child);
+                }
+                continue;
+            }
+
+            if (landmarks.has(child) || this.nameCalculator.isHidden(child) ||
+                AccessibilityAuditor.LANDMARK_EXEMPT_ROLES.includes(this.nameCalculator.getRole(child) || '')) {
+                continue;
+            }
+
+            // Skip links sit before the landmarks on purpose
+            if (child.tagName === 'a' && (getAttributeValue(child, 'href') || '').startsWith('#')) {
+                continue;
+            }
+
+            if (getDescendants(child).some(descendant => landmarks.has(descendant))) {
+                result.push(...this.findContentOutsideLandmarks(child, landmarks));
+            } else if (this.hasPerceivableContent(child)) {
+                result.push(child);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Check whether an element renders text or embedded content
+     */
+    private hasPerceivableContent(element: MarkupElement): boolean {
+        if (AccessibilityAuditor.EMBEDDED_CONTENT_ELEMENTS.includes(element.tagName)) {
+            return true;
+        }
+
+        return element.children.some(child => child.kind === 'text'
+            ? child.text.trim().length > 0 || child.isDynamic
+            : !this.nameCalculator.isHidden(child) && this.hasPerceivableContent(child));
+    }
+
+    /**
+     * Check whether an element or one of its ancestors is hidden from assistive technology
+     */
+    private isHiddenFromAccessibilityTree(element: MarkupElement): boolean {
+        return this.nameCalculator.isHidden(element) ||
+            findAncestor(element, ancestor => this.nameCalculator.isHidden(ancestor)) !== undefined;
+    }
+
+    /**
+     * Audit JSX/React content
+     */
+    private async auditJSX(document: vscode.TextDocument): Promise<AccessibilityIssue[]> {
+        const issues: AccessibilityIssue[] = [];
+        const tree = this.jsxParser.parse(document.getText(), document.languageId);
+
+        for (const element of tree.elements) {
+            issues.push(...this.auditElement(document, element, tree));
+        }
+
+        issues.push(...this.auditHeadingStructure(document, tree));
+        issues.push(...this.auditTables(document, tree));
+        issues.push(...this.auditLabelAssociations(document, tree));
+        issues.push(...this.auditForms(document, tree));
+        issues.push(...this.auditLinkText(document, tree));
+        issues.push(...this.auditDuplicateIds(document, tree));
+        issues.push(...this.auditIdReferences(document, tree));
+        issues.push(...this.auditOwnership(document, tree));
+        issues.push(...this.auditLanguages(document, tree));
+        issues.push(...await this.auditEmbeddedCSS(document, tree));
+
+        return issues;
+    }
+
+    /**
+     * Audit CSS for color contrast issues
+     */
+    private async auditCSS(document: vscode.TextDocument): Promise<AccessibilityIssue[]> {
+        const issues: AccessibilityIssue[] = [];
+        const text = document.getText();
+        const styleSheet = this.cssParser.parse(text, document.languageId);
+
+        issues.push(...this.auditFocusIndicators(document, styleSheet));
+        issues.push(...this.auditFocusObscured(document, styleSheet));
+        issues.push(...this.auditTargetSizes(document, styleSheet));
+        issues.push(...this.auditColorContrast(document, styleSheet, await this.loadVariables(document, styleSheet)));
+
+        return issues;
+    }
+
+    /**
+     * Check the contrast of rules that set both a text and a background color (1.4.3)
+     * Rules whose font-size and font-weight make the text large are held to 3:1
+     * instead of 4.5:1. Variables are substituted first and the substitutions are
+     * listed in the finding.
+     */
+    private auditColorContrast(
+        document: vscode.TextDocument,
+        styleSheet: StyleSheet,
+        variables: CSSVariableResolver
+    ): AccessibilityIssue[] {
+        const issues: AccessibilityIssue[] = [];
+        const pageBackground = this.findPageBackground(styleSheet, variables);
+
+        for (const rule of styleSheet.rules) {
+            const foreground = this.getWinningDeclaration(rule.declarations, 'color');
+            const background = this.getWinningDeclaration(rule.declarations, 'background-color', 'background');
+
+            if (!foreground || !background) {
+                continue;
+            }
+
+            const location = this.locate(document, foreground.start, foreground.end);
+            const foregroundValue = variables.resolve(foreground.value, rule.declarations);
+            const backgroundValue = variables.resolve(background.value, rule.declarations);
+
+            // A transparent background is no background: the rule's text sits on whatever is behind it
+            if (/^none$/i.test(backgroundValue.value.trim()) || this.colorAnalyzer.isTransparent(backgroundValue.value)) {
+                continue;
+            }
+            const chains = [foregroundValue, backgroundValue]
+                .filter(resolved => resolved.chain.length > 0)
+                .map(resolved => resolved.chain.join(' → '));
+            const resolution = chains.length > 0 ? `. Resolution: ${chains.join('; ')}` : '';
+            const textStyle = this.getTextStyle(rule.declarations.map(declaration =>
+                ({ ...declaration, value: variables.resolve(declaration.value, rule.declarations).value })));
+            const isLarge = textStyle.size !== undefined && textStyle.size >=
+                (textStyle.bold ? AccessibilityAuditor.LARGE_BOLD_TEXT_SIZE : AccessibilityAuditor.LARGE_TEXT_SIZE);
+            const minimumRatio = isLarge ? 3 : 4.5;
+            const minimum = `${minimumRatio}:1`;
+            const textDescription = textStyle.size !== undefined
+                ? `${Math.round(textStyle.size * 10) / 10}px${textStyle.bold ? ' bold' : ''} text`
+                : 'text with no font-size in this rule';
+            const threshold = `${minimum} for ${isLarge ? 'large' : 'normal'} ${textDescription}`;
+
+            try {
+                const result = this.colorAnalyzer.analyzeContrast(foregroundValue.value, backgroundValue.value, pageBackground);
+
+                const range = result.contrastRange;
+                const passes = isLarge ? result.passesAALarge : result.passesAA;
+
+                if (!passes) {
+                    const compared = `${result.effectiveForeground} on ${result.effectiveBackground}`;
+                    // Without the page background a failure is only confirmed when even the best backdrop fails
+                    const isConfirmed = !range || range.best < minimumRatio;
+                    const backdrops = range?.estimated ? 'the sampled page backgrounds' : 'the page background';
+
+                    issues.push(this.createIssue({
+                        type: IssueType.LOW_COLOR_CONTRAST,
+                        severity: isConfirmed ? AccessibilitySeverity.SERIOUS : AccessibilitySeverity.MINOR,
+                        wcagLevel: WCAGLevel.AA,
+                        message: range
+                            ? `${isConfirmed ? 'Low color contrast' : 'Color contrast may be low'}: ${range.worst}:1 to ${range.best}:1 depending on ${backdrops} (minimum ${minimum})`
+                            : `Low color contrast ratio: ${result.contrastRatio}:1 (minimum ${minimum})`,
+                        description: range
+                            ? `The background is translucent and the page background is unknown; on the worst backdrop the colors are ${compared}, below WCAG AA (${threshold})${resolution}`
+                            : `Color contrast does not meet WCAG AA standards (${threshold}); compared ${compared}${resolution}`,
+                        ...location,
+                        suggestion: range
+                            ? 'Use an opaque background, or set a background on html or body (or a11yassist.pageBackground) so the contrast can be computed'
+                            : `Adjust colors to achieve at least ${minimum} contrast ratio`,
+                        filePath: document.uri.fsPath
+                    }));
+                }
+            } catch (error) {
+                // Report colors that cannot be evaluated instead of passing them silently
+                issues.push(this.createIssue({
+                    type: IssueType.LOW_COLOR_CONTRAST,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.AA,
+                    message: 'Unable to evaluate color contrast',
+                    description: `${error instanceof Error ? error.message : String(error)}, so the contrast of this rule was not checked${resolution}`,
+                    ...location,
+                    suggestion: 'Check the contrast of this rule manually or use literal color values',
+                    filePath: document.uri.fsPath
+                }));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Get the declaration that applies for any of the given properties in a rule
+     * The last !important declaration wins, otherwise the last declaration
      */
-    constructor(context: vscode.ExtensionContext) {
-        this.context = context;
-        this.ariaValidator = new ARIAValidator();
-        this.colorAnalyzer = new ColorContrastAnalyzer();
+    private getWinningDeclaration(declarations: StyleDeclaration[], ...properties: string[]): StyleDeclaration | undefined {
+        const matching = declarations.filter(declaration => properties.includes(declaration.property.toLowerCase()));
+        return matching.filter(declaration => declaration.important).pop() ?? matching.pop();
+    }
 
-        // Create diagnostic collection for accessibility issues
-        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('accessibility');
-        context.subscriptions.push(this.diagnosticCollection);
+    /**
+     * Get the font size in pixels and the boldness declared by a rule
+     * Reads font-size, font-weight and the font shorthand. The parent font size
+     * is not known, so em and % are taken relative to the root font size.
+     */
+    private getTextStyle(declarations: StyleDeclaration[]): { size?: number; bold: boolean } {
+        let size: number | undefined;
+        let weight: string | undefined;
+
+        for (const declaration of declarations) {
+            const property = declaration.property.toLowerCase();
+            const value = declaration.value.trim().toLowerCase();
+
+            if (property === 'font-size') {
+                size = this.parseFontSize(value);
+            } else if (property === 'font-weight') {
+                weight = value;
+            } else if (property === 'font') {
+                // [style] [variant] [weight] [stretch] size[/line-height] family
+                const tokens = value.split(/\s+/);
+                const sizeIndex = tokens.findIndex(token => this.parseFontSize(token.split('/')[0]) !== undefined);
+
+                if (sizeIndex >= 0) {
+                    size = this.parseFontSize(tokens[sizeIndex].split('/')[0]);
+                    weight = tokens.slice(0, sizeIndex).find(token => /^(bold|bolder|lighter|normal|\d{3})$/.test(token)) ?? 'normal';
+                }
+            }
+        }
+
+        const numericWeight = weight === 'bold' || weight === 'bolder'
+            ? 700
+            : weight !== undefined && /^\d+$/.test(weight) ? parseInt(weight, 10) : 400;
+
+        return { size, bold: numericWeight >= 700 };
     }
 
     /**
-     * Run accessibility audit on current file
+     * Convert a font-size value to pixels
      */
-    public async runAudit(): Promise<AccessibilityIssue[]> {
-        const editor = vscode.window.activeTextEditor;
+    private parseFontSize(value: string): number | undefined {
+        const keyword = AccessibilityAuditor.FONT_SIZE_KEYWORDS[value];
+        if (keyword !== undefined) {
+            return keyword * this.config.rootFontSize;
+        }
 
-        if (!editor) {
-            vscode.window.showWarningMessage('No active editor to audit');
-            return [];
+        const percentage = /^(\d*\.?\d+)%$/.exec(value);
+        if (percentage) {
+            return parseFloat(percentage[1]) / 100 * this.config.rootFontSize;
         }
 
-        const document = editor.document;
-        const issues: AccessibilityIssue[] = [];
+        return this.parseCSSPixels(value);
+    }
 
-        // Determine file type and run appropriate audits
-        const languageId = document.languageId;
+    /**
+     * Audit CSS embedded in a markup document for removed focus indicators and contrast
+     */
+    private async auditEmbeddedCSS(document: vscode.TextDocument, tree: MarkupDocument): Promise<AccessibilityIssue[]> {
+        const styleSheet = this.getEmbeddedStyleSheet(document, tree);
 
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: 'Running Accessibility Audit',
-            cancellable: false
-        }, async (progress) => {
-            progress.report({ increment: 0, message: 'Analyzing document...' });
+        if (styleSheet.rules.length === 0) {
+            return [];
+        }
 
-            if (languageId === 'html' || languageId === 'handlebars' || languageId === 'php') {
-                issues.push(...await this.auditHTML(document));
-            }
+        return [
+            ...this.auditFocusIndicators(document, styleSheet),
+            ...this.auditColorContrast(document, styleSheet, await this.loadVariables(document, styleSheet))
+        ];
+    }
 
-            progress.report({ increment: 30, message: 'Checking ARIA attributes...' });
+    /**
+     * Collect the CSS of <style> elements, style attributes and JSX style objects
+     * Offsets are positions in the document. Each inline style becomes a rule
+     * whose selector is its element with [style], e.g. "button[style]".
+     */
+    private getEmbeddedStyleSheet(document: vscode.TextDocument, tree: MarkupDocument): StyleSheet {
+        const text = document.getText();
+        const styleSheet: StyleSheet = { rules: [], declarations: [] };
 
-            if (languageId === 'typescript' || languageId === 'typescriptreact' ||
-                languageId === 'javascript' || languageId === 'javascriptreact') {
-                issues.push(...await this.auditJSX(document));
+        for (const element of tree.elements) {
+            if (element.tagName === 'style') {
+                for (const block of this.getStyleElementContent(text, element)) {
+                    const embedded = this.parseEmbeddedCSS(text, block.text, block.start);
+                    styleSheet.rules.push(...embedded.rules);
+                    styleSheet.declarations.push(...embedded.declarations);
+                }
+                continue;
             }
 
-            progress.report({ increment: 30, message: 'Analyzing color contrast...' });
+            const style = getAttribute(element, 'style');
+            const declarations = style ? this.getInlineStyleDeclarations(text, style) : [];
 
-            if (languageId === 'css' || languageId === 'scss' || languageId === 'less') {
-                issues.push(...await this.auditCSS(document));
+            if (style && declarations.length > 0) {
+                styleSheet.rules.push({
+                    selectors: [`${element.tagName}${hasAttribute(element, 'tabindex') ? '[tabindex]' : ''}[style]`],
+                    declarations,
+                    atRules: [],
+                    start: style.start,
+                    end: style.end
+                });
             }
+        }
+
+        return styleSheet;
+    }
+
+    /**
+     * Get the stylesheet text of a <style> element and where it starts
+     * HTML keeps the body as raw text; JSX passes it as string or template
+     * literal children, e.g. <style>{`...`}</style>.
+     */
+    private getStyleElementContent(text: string, element: MarkupElement): Array<{ text: string; start: number }> {
+        if (element.children.length === 0) {
+            const content = text.slice(element.openTagEnd, element.end);
+            const close = /<\/style\s*>$/i.exec(content);
+            return [{ text: close ? content.slice(0, close.index) : content, start: element.openTagEnd }];
+        }
 
-            progress.report({ increment: 20, message: 'Validating structure...' });
+        return element.children
+            .filter((child): child is MarkupText => child.kind === 'text' && !child.isDynamic && child.text.trim() !== '')
+            .map(child => ({
+                text: child.text,
+                start: child.start + Math.max(text.slice(child.start, child.end).indexOf(child.text), 0)
+            }));
+    }
 
-            // Check for common issues across all file types
-            issues.push(...await this.auditCommonIssues(document));
+    /**
+     * Get the declarations of a style attribute with document offsets
+     * JSX style objects (style={{ ... }}) go through the JSX parser, CSS text through the CSS parser.
+     */
+    private getInlineStyleDeclarations(text: string, style: MarkupAttribute): StyleDeclaration[] {
+        const source = text.slice(style.start, style.end);
 
-            progress.report({ increment: 20, message: 'Complete!' });
-        });
+        if (style.isDynamic) {
+            const valueStart = style.start + Math.max(source.indexOf(style.value), 0);
 
-        // Update diagnostics after all audits complete
-        this.updateDiagnostics(document, issues);
+            return this.jsxParser.parseStyleObject(style.value, valueStart);
+        }
 
-        return issues;
+        // Parse the raw attribute text so offsets survive character references
+        const equals = /=\s*(["']?)/.exec(source);
+        if (!equals) {
+            return [];
+        }
+
+        const rawStart = equals.index + equals[0].length;
+        const rawEnd = equals[1] ? Math.max(source.lastIndexOf(equals[1]), rawStart) : source.length;
+
+        return this.parseEmbeddedCSS(text, source.slice(rawStart, rawEnd), style.start + rawStart, true)
+            .rules[0]?.declarations || [];
     }
 
     /**
-     * Audit HTML content
+     * Parse CSS embedded in a template that may contain template tags ({{ }}, <? ?>, <% %>)
+     * Tags are blanked out so their braces and semicolons do not end rules, then
+     * declaration values are read back from the document.
+     * @param inline - The CSS is a declaration list from a style attribute
      */
-    private async auditHTML(document: vscode.TextDocument): Promise<AccessibilityIssue[]> {
-        const issues: AccessibilityIssue[] = [];
-        const text = document.getText();
-        const lines = text.split('\n');
+    private parseEmbeddedCSS(text: string, css: string, start: number, inline: boolean = false): StyleSheet {
+        const masked = css.replace(/\{\{[\s\S]*?\}\}|<\?[\s\S]*?\?>|<%[\s\S]*?%>/g, tag => tag.replace(/[^\n]/g, '_'));
+        const styleSheet = inline
+            ? this.cssParser.parse(`*{${masked}}`, 'css', start - 2)
+            : this.cssParser.parse(masked, 'css', start);
 
-        lines.forEach((line, lineIndex) => {
-            // Check for images without alt text
-            if (/<img\s/.test(line) && !/alt\s*=/.test(line)) {
-                issues.push(this.createIssue({
-                    type: IssueType.MISSING_ALT_TEXT,
-                    severity: AccessibilitySeverity.CRITICAL,
-                    wcagLevel: WCAGLevel.A,
-                    message: 'Image missing alt attribute',
-                    description: 'All images must have an alt attribute for screen readers',
-                    line: lineIndex,
-                    column: line.indexOf('<img'),
-                    code: line.trim(),
-                    suggestion: 'Add alt="descriptive text" to the image tag',
-                    filePath: document.uri.fsPath
-                }));
+        if (masked !== css) {
+            for (const declaration of [...styleSheet.declarations, ...styleSheet.rules.flatMap(rule => rule.declarations)]) {
+                const source = text.slice(declaration.start, declaration.end);
+                declaration.value = source.slice(source.indexOf(':') + 1).replace(/!\s*important\s*$/i, '').trim();
             }
+        }
 
-            // Check for form inputs without labels
-            if (/<input\s/.test(line)) {
-                const hasLabel = /aria-label\s*=|aria-labelledby\s*=|id\s*=/.test(line);
-                if (!hasLabel) {
-                    issues.push(this.createIssue({
-                        type: IssueType.MISSING_FORM_LABEL,
-                        severity: AccessibilitySeverity.SERIOUS,
-                        wcagLevel: WCAGLevel.A,
-                        message: 'Form input missing label',
-                        description: 'Form inputs must have associated labels',
-                        line: lineIndex,
-                        column: line.indexOf('<input'),
-                        code: line.trim(),
-                        suggestion: 'Add aria-label or associate with a <label> element',
-                        filePath: document.uri.fsPath
-                    }));
-                }
-            }
+        return styleSheet;
+    }
 
-            // Check for buttons without accessible names
-            if (/<button[^>]*>(\s*)<\/button>/.test(line)) {
-                issues.push(this.createIssue({
-                    type: IssueType.EMPTY_BUTTON,
-                    severity: AccessibilitySeverity.CRITICAL,
-                    wcagLevel: WCAGLevel.A,
-                    message: 'Empty button element',
-                    description: 'Buttons must have accessible text content',
-                    line: lineIndex,
-                    column: line.indexOf('<button'),
-                    code: line.trim(),
-                    suggestion: 'Add text content or aria-label to the button',
-                    filePath: document.uri.fsPath
-                }));
-            }
+    /**
+     * Get the page background that translucent backgrounds are composited over
+     * A background on html, body or :root wins over the configured page background
+     */
+    private findPageBackground(styleSheet: StyleSheet, variables: CSSVariableResolver): string | undefined {
+        const background = styleSheet.rules
+            .filter(rule => rule.atRules.length === 0 &&
+                rule.selectors.some(selector => /^(html|body|:root)$/i.test(selector.trim())))
+            .flatMap(rule => rule.declarations
+                .filter(declaration => /^background(-color)?$/i.test(declaration.property))
+                .map(declaration => variables.resolve(declaration.value, rule.declarations).value))
+            .filter(value => this.colorAnalyzer.isValidColor(value))
+            .pop();
 
-            // Check for links without accessible names
-            if (/<a\s[^>]*>(\s*)<\/a>/.test(line)) {
-                issues.push(this.createIssue({
-                    type: IssueType.EMPTY_LINK,
-                    severity: AccessibilitySeverity.SERIOUS,
-                    wcagLevel: WCAGLevel.A,
-                    message: 'Empty link element',
-                    description: 'Links must have accessible text content',
-                    line: lineIndex,
-                    column: line.indexOf('<a'),
-                    code: line.trim(),
-                    suggestion: 'Add text content or aria-label to the link',
-                    filePath: document.uri.fsPath
-                }));
+        return background || this.config.pageBackground || undefined;
+    }
+
+    /**
+     * Collect the variables a stylesheet can use, from the files it imports and itself
+     */
+    private async loadVariables(document: vscode.TextDocument, styleSheet: StyleSheet): Promise<CSSVariableResolver> {
+        const resolver = new CSSVariableResolver();
+        const visited = new Set<string>([document.uri.fsPath]);
+
+        await this.addImportedVariables(resolver, document.getText(), document.uri.fsPath, visited);
+        resolver.addStyleSheet(styleSheet, document.getText(), path.basename(document.uri.fsPath));
+
+        return resolver;
+    }
+
+    /**
+     * Add the variables of every stylesheet imported by a file, nested imports first
+     */
+    private async addImportedVariables(
+        resolver: CSSVariableResolver,
+        text: string,
+        filePath: string,
+        visited: Set<string>
+    ): Promise<void> {
+        for (const importPath of resolver.getImports(text)) {
+            if (visited.size >= AccessibilityAuditor.MAX_IMPORTED_STYLESHEETS) {
+                return;
             }
 
-            // Check for improper tabindex
-            const tabindexMatch = line.match(/tabindex\s*=\s*["'](\d+)["']/);
-            if (tabindexMatch && parseInt(tabindexMatch[1]) > 0) {
-                issues.push(this.createIssue({
-                    type: IssueType.IMPROPER_TAB_INDEX,
-                    severity: AccessibilitySeverity.MODERATE,
-                    wcagLevel: WCAGLevel.A,
-                    message: 'Positive tabindex value',
-                    description: 'Positive tabindex values can create confusing navigation order',
-                    line: lineIndex,
-                    column: line.indexOf('tabindex'),
-                    code: line.trim(),
-                    suggestion: 'Use tabindex="0" or tabindex="-1" instead',
-                    filePath: document.uri.fsPath
-                }));
+            const imported = await this.readImportedStyleSheet(importPath, filePath);
+            if (!imported || visited.has(imported.filePath)) {
+                continue;
             }
 
-            // Validate ARIA attributes
-            const ariaMatches = line.matchAll(/aria-[\w-]+\s*=\s*["']([^"']*)["']/g);
-            for (const match of ariaMatches) {
-                const fullMatch = match[0];
-                const attrName = fullMatch.split('=')[0].trim();
-                const attrValue = match[1];
+            visited.add(imported.filePath);
+            await this.addImportedVariables(resolver, imported.text, imported.filePath, visited);
+            resolver.addStyleSheet(
+                this.cssParser.parse(imported.text, imported.languageId), imported.text, path.basename(imported.filePath));
+        }
+    }
 
-                const validation = this.ariaValidator.validateAttribute(attrName, attrValue);
+    /**
+     * Find and read an imported stylesheet
+     * Tries the Sass partial (_name) and index file names, and resolves "~" imports
+     * from the workspace's node_modules.
+     */
+    private async readImportedStyleSheet(
+        importPath: string,
+        fromFile: string
+    ): Promise<{ filePath: string; text: string; languageId: string } | undefined> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const base = importPath.startsWith('~') && workspaceFolder
+            ? path.join(workspaceFolder, 'node_modules', importPath.slice(1))
+            : path.resolve(path.dirname(fromFile), importPath);
+        // Styles embedded in HTML or JSX import plain CSS
+        const fromExtension = path.extname(fromFile).toLowerCase();
+        const extension = ['.scss', '.less'].includes(fromExtension) ? fromExtension : '.css';
+        const directory = path.dirname(base);
+        const name = path.basename(base);
 
-                if (!validation.isValid) {
-                    issues.push(this.createIssue({
-                        type: IssueType.INVALID_ARIA_ATTRIBUTE,
-                        severity: AccessibilitySeverity.SERIOUS,
-                        wcagLevel: WCAGLevel.A,
-                        message: `Invalid ARIA attribute: ${attrName}`,
-                        description: validation.recommendation || 'ARIA attribute is invalid',
-                        line: lineIndex,
-                        column: line.indexOf(fullMatch),
-                        code: line.trim(),
-                        suggestion: validation.recommendation || 'Fix or remove this ARIA attribute',
-                        filePath: document.uri.fsPath
-                    }));
-                }
-            }
+        const candidates = path.extname(name)
+            ? [base, path.join(directory, `_${name}`)]
+            : [
+                `${base}${extension}`,
+                path.join(directory, `_${name}${extension}`),
+                `${base}.css`,
+                path.join(base, `_index${extension}`),
+                path.join(base, `index${extension}`)
+            ];
 
-            // Check for role attribute
-            const roleMatch = line.match(/role\s*=\s*["']([^"']*)["']/);
-            if (roleMatch) {
-                const role = roleMatch[1];
-                const validation = this.ariaValidator.validateRole(role);
+        for (const candidate of candidates) {
+            try {
+                const content = await vscode.workspace.fs.readFile(vscode.Uri.file(candidate));
+                const languageId = path.extname(candidate).slice(1).toLowerCase();
 
-                if (!validation.isValid) {
-                    issues.push(this.createIssue({
-                        type: IssueType.MISSING_ROLE,
-                        severity: AccessibilitySeverity.SERIOUS,
-                        wcagLevel: WCAGLevel.A,
-                        message: `Invalid ARIA role: ${role}`,
-                        description: 'ARIA role is not valid',
-                        line: lineIndex,
-                        column: line.indexOf('role'),
-                        code: line.trim(),
-                        suggestion: validation.recommendation || 'Use a valid ARIA role',
-                        filePath: document.uri.fsPath
-                    }));
-                }
+                return {
+                    filePath: candidate,
+                    text: Buffer.from(content).toString('utf8'),
+                    languageId: languageId === 'scss' || languageId === 'less' ? languageId : 'css'
+                };
+            } catch (error) {
+                // Not found, try the next candidate
             }
-        });
-
-        // Check for missing lang attribute on html tag
-        if (/<html[^>]*>/.test(text) && !/<html[^>]*lang\s*=/.test(text)) {
-            issues.push(this.createIssue({
-                type: IssueType.MISSING_LANG_ATTRIBUTE,
-                severity: AccessibilitySeverity.SERIOUS,
-                wcagLevel: WCAGLevel.A,
-                message: 'HTML element missing lang attribute',
-                description: 'The lang attribute helps screen readers pronounce content correctly',
-                line: 0,
-                column: 0,
-                code: '<html>',
-                suggestion: 'Add lang="en" (or appropriate language code) to <html> tag',
-                filePath: document.uri.fsPath
-            }));
         }
 
-        return issues;
+        return undefined;
     }
 
     /**
-     * Audit JSX/React content
+     * Find sticky or fixed bars that can cover the focused element (2.4.11)
+     * Scroll padding or margin anywhere in the stylesheet is taken as the
+     * page reserving room for them.
      */
-    private async auditJSX(document: vscode.TextDocument): Promise<AccessibilityIssue[]> {
-        const issues: AccessibilityIssue[] = [];
-        const text = document.getText();
-        const lines = text.split('\n');
+    private auditFocusObscured(document: vscode.TextDocument, styleSheet: StyleSheet): AccessibilityIssue[] {
+        const allDeclarations = [...styleSheet.declarations, ...styleSheet.rules.flatMap(rule => rule.declarations)];
+        const reservesSpace = allDeclarations.some(declaration => /^scroll-(padding|margin)/i.test(declaration.property));
 
-        lines.forEach((line, lineIndex) => {
-            // Check for onClick without onKeyPress
-            if (/onClick\s*=/.test(line) && !/<(button|a|input|select|textarea)\s/.test(line)) {
-                if (!/onKeyPress\s*=|onKeyDown\s*=|onKeyUp\s*=/.test(line)) {
-                    issues.push(this.createIssue({
-                        type: IssueType.KEYBOARD_TRAP,
-                        severity: AccessibilitySeverity.SERIOUS,
-                        wcagLevel: WCAGLevel.A,
-                        message: 'onClick without keyboard handler',
-                        description: 'Interactive elements with onClick should have keyboard handlers',
-                        line: lineIndex,
-                        column: line.indexOf('onClick'),
-                        code: line.trim(),
-                        suggestion: 'Add onKeyPress, onKeyDown, or use a button element',
-                        filePath: document.uri.fsPath
-                    }));
-                }
-            }
+        if (reservesSpace) {
+            return [];
+        }
 
-            // Check for img without alt
-            if (/<img\s/.test(line) && !/alt\s*=/.test(line)) {
-                issues.push(this.createIssue({
-                    type: IssueType.MISSING_ALT_TEXT,
-                    severity: AccessibilitySeverity.CRITICAL,
-                    wcagLevel: WCAGLevel.A,
-                    message: 'Image missing alt attribute',
-                    description: 'All images must have an alt attribute',
-                    line: lineIndex,
-                    column: line.indexOf('<img'),
-                    code: line.trim(),
-                    suggestion: 'Add alt="descriptive text" or alt="" for decorative images',
-                    filePath: document.uri.fsPath
-                }));
-            }
+        const issues: AccessibilityIssue[] = [];
 
-            // Check for label without htmlFor
-            if (/<label[^>]*>/.test(line) && !/htmlFor\s*=/.test(line)) {
+        for (const rule of styleSheet.rules) {
+            const position = rule.declarations.find(declaration =>
+                declaration.property.toLowerCase() === 'position' && /^(fixed|sticky)\b/i.test(declaration.value.trim()));
+            const edge = rule.declarations.find(declaration =>
+                ['top', 'bottom', 'inset', 'inset-block', 'inset-block-start', 'inset-block-end']
+                    .includes(declaration.property.toLowerCase()));
+
+            if (position && edge) {
                 issues.push(this.createIssue({
-                    type: IssueType.MISSING_FORM_LABEL,
-                    severity: AccessibilitySeverity.MODERATE,
-                    wcagLevel: WCAGLevel.A,
-                    message: 'Label without htmlFor attribute',
-                    description: 'Labels should be associated with form inputs',
-                    line: lineIndex,
-                    column: line.indexOf('<label'),
-                    code: line.trim(),
-                    suggestion: 'Add htmlFor attribute matching the input id',
+                    type: IssueType.FOCUS_NOT_OBSCURED,
+                    severity: AccessibilitySeverity.MINOR,
+                    wcagLevel: WCAGLevel.AA,
+                    message: `${position.value.trim().split(/\s/)[0] === 'fixed' ? 'Fixed' : 'Sticky'} element may hide focused content`,
+                    description: 'When keyboard users tab to content scrolled under a fixed header or footer, they cannot see where focus is',
+                    ...this.locate(document, position.start, position.end),
+                    suggestion: 'Add scroll-padding-top/scroll-padding-bottom on html equal to the bar height',
                     filePath: document.uri.fsPath
                 }));
             }
-        });
+        }
 
         return issues;
     }
 
     /**
-     * Audit CSS for color contrast issues
+     * Find rules that remove the focus indicator without providing a replacement
+     * A replacement can live in the same rule or in a related :focus/:focus-visible
+     * rule for the same base selector (e.g. button:focus-visible for button:focus).
      */
-    private async auditCSS(document: vscode.TextDocument): Promise<AccessibilityIssue[]> {
+    private auditFocusIndicators(document: vscode.TextDocument, styleSheet: StyleSheet): AccessibilityIssue[] {
         const issues: AccessibilityIssue[] = [];
-        const text = document.getText();
+        const reported = new Set<number>();
+
+        const focusRules = styleSheet.rules.flatMap(rule =>
+            rule.selectors
+                .filter(selector => this.isFocusSelector(selector))
+                .map(selector => ({ rule, base: this.getFocusBaseSelector(selector) }))
+        );
 
-        // Extract color declarations
-        const colorPairs = this.extractColorPairs(text);
+        const outlineRemovedFor = new Set<string>();
+        for (const rule of styleSheet.rules) {
+            if (rule.declarations.some(declaration => this.isOutlineRemoval(declaration))) {
+                rule.selectors.forEach(selector => outlineRemovedFor.add(this.getFocusBaseSelector(selector)));
+            }
+        }
 
-        colorPairs.forEach(pair => {
-            if (pair.foreground && pair.background) {
-                try {
-                    const result = this.colorAnalyzer.analyzeContrast(
-                        pair.foreground,
-                        pair.background
-                    );
+        for (const rule of styleSheet.rules) {
+            for (const selector of rule.selectors) {
+                const isFocus = this.isFocusSelector(selector);
+                if (!isFocus && !this.isBareInteractiveSelector(selector)) {
+                    continue;
+                }
 
-                    if (!result.passesAA) {
-                        issues.push(this.createIssue({
-                            type: IssueType.LOW_COLOR_CONTRAST,
-                            severity: AccessibilitySeverity.SERIOUS,
-                            wcagLevel: WCAGLevel.AA,
-                            message: `Low color contrast ratio: ${result.contrastRatio}:1`,
-                            description: 'Color contrast does not meet WCAG AA standards (4.5:1)',
-                            line: pair.line,
-                            column: 0,
-                            code: pair.code,
-                            suggestion: `Adjust colors to achieve at least 4.5:1 contrast ratio`,
-                            filePath: document.uri.fsPath
-                        }));
+                const base = this.getFocusBaseSelector(selector);
+
+                for (const declaration of rule.declarations) {
+                    const removesOutline = this.isOutlineRemoval(declaration);
+
+                    // box-shadow: none only hides a focus ring when the outline is gone too
+                    const removesShadow = isFocus && declaration.property === 'box-shadow' &&
+                        /^none$/i.test(declaration.value) && outlineRemovedFor.has(base);
+
+                    if ((!removesOutline && !removesShadow) || reported.has(declaration.start)) {
+                        continue;
+                    }
+
+                    const hasReplacement =
+                        rule.declarations.some(other => other !== declaration && this.isFocusIndicator(other)) ||
+                        focusRules.some(related =>
+                            related.rule !== rule &&
+                            (related.base === base || related.base === '' || related.base === '*') &&
+                            related.rule.declarations.some(other => this.isFocusIndicator(other))
+                        );
+
+                    if (hasReplacement) {
+                        continue;
                     }
-                } catch (error) {
-                    // Invalid color format, skip
+
+                    reported.add(declaration.start);
+                    issues.push(this.createIssue({
+                        type: IssueType.MISSING_FOCUS_INDICATOR,
+                        severity: AccessibilitySeverity.SERIOUS,
+                        wcagLevel: WCAGLevel.AA,
+                        message: `Focus indicator removed: ${declaration.property}: ${declaration.value}`,
+                        description: `"${selector}" removes the visible focus indicator and no replacement focus style was found`,
+                        ...this.locate(document, declaration.start, declaration.end),
+                        suggestion: 'Provide a visible :focus-visible style (outline, box-shadow or border) for this selector',
+                        filePath: document.uri.fsPath
+                    }));
                 }
             }
-        });
+        }
 
         return issues;
     }
 
     /**
-     * Extract color pairs from CSS
+     * Check whether a selector applies when the element is focused
      */
-    private extractColorPairs(css: string): Array<{
-        line: number;
-        foreground?: string;
-        background?: string;
-        code: string;
-    }> {
-        const pairs: Array<{
-            line: number;
-            foreground?: string;
-            background?: string;
-            code: string;
-        }> = [];
-
-        const lines = css.split('\n');
-        let currentFg: string | undefined;
-        let currentBg: string | undefined;
-        let ruleStartLine = 0;
-
-        lines.forEach((line, index) => {
-            if (/{/.test(line)) {
-                ruleStartLine = index;
-                currentFg = undefined;
-                currentBg = undefined;
-            }
-
-            const colorMatch = line.match(/color\s*:\s*([^;]+)/i);
-            if (colorMatch) {
-                currentFg = colorMatch[1].trim();
-            }
-
-            const bgMatch = line.match(/background(?:-color)?\s*:\s*([^;]+)/i);
-            if (bgMatch) {
-                currentBg = bgMatch[1].trim();
-            }
-
-            if (/}/.test(line) && (currentFg || currentBg)) {
-                pairs.push({
-                    line: ruleStartLine,
-                    foreground: currentFg,
-                    background: currentBg,
-                    code: lines.slice(ruleStartLine, index + 1).join('\n')
-                });
-            }
-        });
+    private isFocusSelector(selector: string): boolean {
+        // :focus:not(:focus-visible) deliberately hides the ring for mouse users only
+        return /:focus(-visible)?(?![\w-])/.test(selector) && !/:not\(\s*:focus-visible\s*\)/.test(selector);
+    }
+
+    /**
+     * Check whether a selector targets interactive elements in every state
+     */
+    private isBareInteractiveSelector(selector: string): boolean {
+        const compounds = selector.split(/\s*[\s>+~]\s*/);
+        const last = compounds[compounds.length - 1];
+
+        // Other states (:hover, :active) are not a focus indicator removal
+        if (last.includes(':')) {
+            return false;
+        }
 
-        return pairs;
+        return /^(\*|a|button|input|select|textarea|summary)?(\[[^\]]*\]|\.[\w-]+)*$/.test(last) &&
+            (/^(\*|a|button|input|select|textarea|summary)/.test(last) || /\[tabindex/.test(last));
     }
 
     /**
-     * Audit common accessibility issues
+     * Strip focus pseudo-classes so related rules can be matched
      */
-    private async auditCommonIssues(document: vscode.TextDocument): Promise<AccessibilityIssue[]> {
-        const issues: AccessibilityIssue[] = [];
-        const text = document.getText();
-        const lines = text.split('\n');
+    private getFocusBaseSelector(selector: string): string {
+        return selector
+            .replace(/:not\(\s*:focus-visible\s*\)/g, '')
+            .replace(/:focus(-visible)?(?![\w-])/g, '')
+            .trim();
+    }
 
-        // Check for autofocus attribute
-        lines.forEach((line, lineIndex) => {
-            if (/autofocus|autoFocus/.test(line)) {
-                issues.push(this.createIssue({
-                    type: IssueType.KEYBOARD_TRAP,
-                    severity: AccessibilitySeverity.MODERATE,
-                    wcagLevel: WCAGLevel.A,
-                    message: 'Autofocus can cause accessibility issues',
-                    description: 'Autofocus can disorient keyboard and screen reader users',
-                    line: lineIndex,
-                    column: line.search(/autofocus|autoFocus/),
-                    code: line.trim(),
-                    suggestion: 'Remove autofocus or use with caution',
-                    filePath: document.uri.fsPath
-                }));
+    /**
+     * Check whether a declaration removes the outline
+     */
+    private isOutlineRemoval(declaration: StyleDeclaration): boolean {
+        const value = declaration.value.trim().toLowerCase();
+
+        switch (declaration.property) {
+            case 'outline': {
+                const tokens = value.split(/\s+/);
+                return tokens.includes('none') || tokens.some(token => /^0(px|em|rem)?$/.test(token));
             }
-        });
+            case 'outline-style':
+                return value === 'none';
+            case 'outline-width':
+                return /^0(px|em|rem)?$/.test(value);
+            default:
+                return false;
+        }
+    }
 
-        return issues;
+    /**
+     * Check whether a declaration draws a visible focus indicator
+     */
+    private isFocusIndicator(declaration: StyleDeclaration): boolean {
+        const value = declaration.value.trim().toLowerCase();
+        const property = declaration.property;
+
+        if (property === 'outline' || property === 'outline-style' || property === 'outline-width') {
+            return !this.isOutlineRemoval(declaration);
+        }
+
+        if (property === 'box-shadow' || /^border(-(top|right|bottom|left|block|inline)(-(start|end))?)?(-(width|style|color))?$/.test(property) ||
+            /^text-decoration(-line)?$/.test(property) || property === 'background' || property === 'background-color') {
+            return !/^(none|0|0px|transparent|initial|unset|inherit)$/.test(value);
+        }
+
+        return false;
     }
 
     /**
@@ -455,6 +3352,7 @@ export class AccessibilityAuditor {
         type: IssueType;
         severity: AccessibilitySeverity;
         wcagLevel: WCAGLevel;
+        criterion?: string;
         message: string;
         description: string;
         line: number;
@@ -462,47 +3360,67 @@ export class AccessibilityAuditor {
         code: string;
         suggestion: string;
         filePath: string;
+        endLine?: number;
+        endColumn?: number;
+        relatedLocations?: RelatedIssueLocation[];
     }): AccessibilityIssue {
+        const criterion = params.criterion ||
+            this.wcagCriteria.getCriterionForIssue(params.type, this.config.wcagVersion);
+
         return {
             id: `${params.type}-${params.line}-${params.column}`,
             type: params.type,
             severity: params.severity,
             wcagLevel: params.wcagLevel,
+            successCriterion: criterion,
             message: params.message,
             description: params.description,
             line: params.line,
             column: params.column,
             code: params.code,
             suggestion: params.suggestion,
-            documentation: this.getDocumentationLink(params.type),
-            filePath: params.filePath
+            documentation: this.wcagCriteria.getDocumentationLink(criterion, this.config.wcagVersion),
+            filePath: params.filePath,
+            endLine: params.endLine,
+            endColumn: params.endColumn,
+            relatedLocations: params.relatedLocations
+        };
+    }
+
+    /**
+     * Build related information for an issue from a resolved location
+     */
+    private relate(message: string, location: SourceLocation): RelatedIssueLocation {
+        return {
+            message,
+            line: location.line,
+            column: location.column,
+            endLine: location.endLine,
+            endColumn: location.endColumn
         };
     }
 
     /**
-     * Get documentation link for issue type
+     * Resolve a source range to issue location fields
      */
-    private getDocumentationLink(type: IssueType): string {
-        const baseUrl = 'https://www.w3.org/WAI/WCAG21/quickref/';
+    private locate(document: vscode.TextDocument, start: number, end: number): SourceLocation {
+        const startPosition = document.positionAt(start);
+        const endPosition = document.positionAt(end);
 
-        const links: Record<IssueType, string> = {
-            [IssueType.MISSING_ALT_TEXT]: `${baseUrl}#non-text-content`,
-            [IssueType.MISSING_ARIA_LABEL]: `${baseUrl}#name-role-value`,
-            [IssueType.INVALID_ARIA_ATTRIBUTE]: `${baseUrl}#name-role-value`,
-            [IssueType.LOW_COLOR_CONTRAST]: `${baseUrl}#contrast-minimum`,
-            [IssueType.MISSING_FORM_LABEL]: `${baseUrl}#labels-or-instructions`,
-            [IssueType.MISSING_HEADING_STRUCTURE]: `${baseUrl}#info-and-relationships`,
-            [IssueType.MISSING_LANG_ATTRIBUTE]: `${baseUrl}#language-of-page`,
-            [IssueType.KEYBOARD_TRAP]: `${baseUrl}#keyboard`,
-            [IssueType.MISSING_FOCUS_INDICATOR]: `${baseUrl}#focus-visible`,
-            [IssueType.IMPROPER_TAB_INDEX]: `${baseUrl}#focus-order`,
-            [IssueType.MISSING_ROLE]: `${baseUrl}#name-role-value`,
-            [IssueType.REDUNDANT_TITLE]: `${baseUrl}#name-role-value`,
-            [IssueType.EMPTY_LINK]: `${baseUrl}#link-purpose-in-context`,
-            [IssueType.EMPTY_BUTTON]: `${baseUrl}#name-role-value`
+        return {
+            line: startPosition.line,
+            column: startPosition.character,
+            endLine: endPosition.line,
+            endColumn: endPosition.character,
+            code: document.getText(new vscode.Range(startPosition, endPosition))
         };
+    }
 
-        return links[type] || baseUrl;
+    /**
+     * Resolve the opening tag of an element to issue location fields
+     */
+    private locateElement(document: vscode.TextDocument, element: MarkupElement): SourceLocation {
+        return this.locate(document, element.start, element.openTagEnd);
     }
 
     /**
@@ -510,12 +3428,9 @@ export class AccessibilityAuditor {
      */
     private updateDiagnostics(document: vscode.TextDocument, issues: AccessibilityIssue[]): void {
         const diagnostics: vscode.Diagnostic[] = issues.map(issue => {
-            const range = new vscode.Range(
-                issue.line,
-                issue.column,
-                issue.line,
-                issue.column + issue.code.length
-            );
+            const range = issue.endLine !== undefined && issue.endColumn !== undefined
+                ? new vscode.Range(issue.line, issue.column, issue.endLine, issue.endColumn)
+                : new vscode.Range(issue.line, issue.column, issue.line, issue.column + issue.code.length);
 
             const severity = this.mapSeverityToDiagnostic(issue.severity);
 
@@ -528,6 +3443,17 @@ export class AccessibilityAuditor {
             diagnostic.code = issue.type;
             diagnostic.source = 'Accessibility Enhancer';
 
+            if (issue.relatedLocations) {
+                diagnostic.relatedInformation = issue.relatedLocations.map(related =>
+                    new vscode.DiagnosticRelatedInformation(
+                        new vscode.Location(
+                            document.uri,
+                            new vscode.Range(related.line, related.column, related.endLine, related.endColumn)
+                        ),
+                        related.message
+                    ));
+            }
+
             return diagnostic;
         });
 
@@ -552,3 +3478,14 @@ export class AccessibilityAuditor {
         }
     }
 }
+
+/**
+ * Source location fields shared by all issues
+ */
+interface SourceLocation {
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    code: string;
+}
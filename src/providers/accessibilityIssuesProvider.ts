@@ -7,26 +7,35 @@
  */
 
 import * as vscode from 'vscode';
-import { AccessibilityIssue, AccessibilitySeverity } from '../types';
+import { AccessibilityAuditResult, AccessibilityIssue, AccessibilitySeverity, IssueType, WCAGLevel } from '../types';
 
 /**
  * a11yassistIssuesProvider class
  * Provides tree view for accessibility issues
  */
 export class AccessibilityIssuesProvider implements vscode.TreeDataProvider<IssueTreeItem> {
+    /**
+     * Issue types shown in their own group instead of under a severity
+     */
+    private static readonly CATEGORIES: Array<{ key: string; label: string; icon: string; types: IssueType[] }> = [
+        { key: 'landmarks', label: 'Landmarks', icon: 'symbol-namespace', types: [IssueType.LANDMARK_STRUCTURE] }
+    ];
+
     private _onDidChangeTreeData: vscode.EventEmitter<IssueTreeItem | undefined | null | void> =
         new vscode.EventEmitter<IssueTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<IssueTreeItem | undefined | null | void> =
         this._onDidChangeTreeData.event;
 
     private issues: AccessibilityIssue[] = [];
+    private result: AccessibilityAuditResult | undefined;
     private expandedStates: Map<string, boolean> = new Map();
 
     /**
-     * Update issues and refresh tree view
+     * Show the result of an audit and refresh tree view
      */
-    public updateIssues(issues: AccessibilityIssue[]): void {
-        this.issues = issues;
+    public updateAuditResult(result: AccessibilityAuditResult): void {
+        this.result = result;
+        this.issues = result.issues;
         this._onDidChangeTreeData.fire();
     }
 
@@ -42,15 +51,23 @@ export class AccessibilityIssuesProvider implements vscode.TreeDataProvider<Issu
      */
     getChildren(element?: IssueTreeItem): Thenable<IssueTreeItem[]> {
         if (!element) {
-            // Root level - group by severity
-            return Promise.resolve(this.getSeverityGroups());
+            // Root level - conformance, then issues grouped by severity, then categories
+            return Promise.resolve([...this.getConformanceItems(), ...this.getSeverityGroups()]);
+        } else if (element.contextValue === 'conformance') {
+            return Promise.resolve(this.getConformanceLevelItems());
         } else if (element.contextValue === 'severity' && element.id) {
             // Show issues for this severity
             // Extract severity from id: "severity-critical" -> "critical"
             const severity = element.id.replace('severity-', '') as AccessibilitySeverity;
-            const issuesForSeverity = this.issues.filter(i => i.severity === severity);
+            const issuesForSeverity = this.getUncategorizedIssues().filter(i => i.severity === severity);
             console.log(`Getting children for severity: ${severity}, found ${issuesForSeverity.length} issues`);
             return Promise.resolve(this.getIssueItems(issuesForSeverity));
+        } else if (element.contextValue === 'category' && element.id) {
+            // Extract category from id: "category-landmarks" -> "landmarks"
+            const category = AccessibilityIssuesProvider.CATEGORIES
+                .find(c => `category-${c.key}` === element.id);
+            const issuesForCategory = category ? this.issues.filter(i => category.types.includes(i.type)) : [];
+            return Promise.resolve(this.getIssueItems(issuesForCategory));
         }
 
         return Promise.resolve([]);
@@ -69,8 +86,10 @@ export class AccessibilityIssuesProvider implements vscode.TreeDataProvider<Issu
             AccessibilitySeverity.MINOR
         ];
 
+        const uncategorized = this.getUncategorizedIssues();
+
         for (const severity of severities) {
-            const count = this.issues.filter(i => i.severity === severity).length;
+            const count = uncategorized.filter(i => i.severity === severity).length;
 
             if (count > 0) {
                 const severityKey = `severity-${severity}`;
@@ -87,6 +106,24 @@ export class AccessibilityIssuesProvider implements vscode.TreeDataProvider<Issu
             }
         }
 
+        for (const category of AccessibilityIssuesProvider.CATEGORIES) {
+            const count = this.issues.filter(i => category.types.includes(i.type)).length;
+
+            if (count > 0) {
+                const categoryKey = `category-${category.key}`;
+                const isExpanded = this.expandedStates.get(categoryKey) !== false;
+
+                const item = new IssueTreeItem(
+                    `${category.label} (${count})`,
+                    isExpanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.contextValue = 'category';
+                item.id = categoryKey;
+                item.iconPath = new vscode.ThemeIcon(category.icon);
+                groups.push(item);
+            }
+        }
+
         if (groups.length === 0) {
             const item = new IssueTreeItem(
                 'No accessibility issues found',
@@ -99,6 +136,84 @@ export class AccessibilityIssuesProvider implements vscode.TreeDataProvider<Issu
         return groups;
     }
 
+    /**
+     * Get the conformance summary for the audited file
+     */
+    private getConformanceItems(): IssueTreeItem[] {
+        if (!this.result) {
+            return [];
+        }
+
+        const compliance = this.result.wcagCompliance;
+        const isExpanded = this.expandedStates.get('conformance') === true;
+        const item = new IssueTreeItem(
+            `WCAG ${this.result.wcagVersion} Conformance`,
+            isExpanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.description = [
+            `A ${compliance.levelA ? 'pass' : 'fail'}`,
+            `AA ${compliance.levelAA ? 'pass' : 'fail'}`,
+            `AAA ${compliance.levelAAA ? 'pass' : 'fail'}`
+        ].join(', ');
+        item.tooltip = `${this.result.fileName}: a level passes when no success criterion at or below it failed. ` +
+            `${this.result.untestedCriteria.length} criteria cannot be tested automatically.`;
+        item.contextValue = 'conformance';
+        item.id = 'conformance';
+        item.iconPath = new vscode.ThemeIcon('verified');
+
+        return [item];
+    }
+
+    /**
+     * Get pass/fail items for each conformance level
+     */
+    private getConformanceLevelItems(): IssueTreeItem[] {
+        if (!this.result) {
+            return [];
+        }
+
+        const result = this.result;
+        const levels: Array<{ level: WCAGLevel; passes: boolean }> = [
+            { level: WCAGLevel.A, passes: result.wcagCompliance.levelA },
+            { level: WCAGLevel.AA, passes: result.wcagCompliance.levelAA },
+            { level: WCAGLevel.AAA, passes: result.wcagCompliance.levelAAA }
+        ];
+
+        const items = levels.map(({ level, passes }) => {
+            const failed = result.failedCriteria.filter(criterion => criterion.level === level);
+            const item = new IssueTreeItem(`Level ${level}`, vscode.TreeItemCollapsibleState.None);
+
+            item.description = passes
+                ? 'Pass'
+                : failed.length > 0 ? `Fail: ${failed.map(criterion => criterion.id).join(', ')}` : 'Fail (lower level failed)';
+            item.tooltip = failed.length > 0
+                ? failed.map(criterion => `${criterion.id} ${criterion.title}`).join('\n')
+                : undefined;
+            item.contextValue = 'conformance-level';
+            item.id = `conformance-level-${level}`;
+            item.iconPath = new vscode.ThemeIcon(passes ? 'pass' : 'error');
+            return item;
+        });
+
+        const untested = new IssueTreeItem('Not tested automatically', vscode.TreeItemCollapsibleState.None);
+        untested.description = `${result.untestedCriteria.length} criteria`;
+        untested.tooltip = result.untestedCriteria.map(criterion => `${criterion.id} ${criterion.title}`).join('\n');
+        untested.contextValue = 'conformance-level';
+        untested.id = 'conformance-untested';
+        untested.iconPath = new vscode.ThemeIcon('eye');
+        items.push(untested);
+
+        return items;
+    }
+
+    /**
+     * Get issues that are not shown in a category group
+     */
+    private getUncategorizedIssues(): AccessibilityIssue[] {
+        return this.issues.filter(i =>
+            !AccessibilityIssuesProvider.CATEGORIES.some(category => category.types.includes(i.type)));
+    }
+
     /**
      * Get issue items for display
      */
@@ -163,11 +278,12 @@ export class AccessibilityIssuesProvider implements vscode.TreeDataProvider<Issu
      */
     public clearIssues(): void {
         this.issues = [];
+        this.result = undefined;
         this._onDidChangeTreeData.fire();
     }
 
     /**
-     * Set expanded state for a severity group
+     * Set expanded state for a severity, category or conformance group
      */
     public setSeverityExpandedState(severityKey: string, isExpanded: boolean): void {
         this.expandedStates.set(severityKey, isExpanded);
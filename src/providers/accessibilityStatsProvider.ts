@@ -8,7 +8,7 @@
 
 import * as vscode from 'vscode';
 import { AnalyticsManager } from '../features/analyticsManager';
-import { UsageStatistics } from '../types';
+import { AccessibilityAuditResult, UsageStatistics, WCAGLevel } from '../types';
 
 /**
  * a11yassistStatsProvider class
@@ -21,6 +21,7 @@ export class AccessibilityStatsProvider implements vscode.TreeDataProvider<Stats
         this._onDidChangeTreeData.event;
 
     private analyticsManager: AnalyticsManager;
+    private lastAuditResult: AccessibilityAuditResult | undefined;
 
     /**
      * Constructor
@@ -35,6 +36,14 @@ export class AccessibilityStatsProvider implements vscode.TreeDataProvider<Stats
         }, 60000);
     }
 
+    /**
+     * Show the conformance of the most recently audited file
+     */
+    public updateAuditResult(result: AccessibilityAuditResult): void {
+        this.lastAuditResult = result;
+        this.refresh();
+    }
+
     /**
      * Refresh tree view
      */
@@ -59,6 +68,8 @@ export class AccessibilityStatsProvider implements vscode.TreeDataProvider<Stats
         } else if (element.contextValue === 'feature-usage') {
             // Show feature usage details
             return Promise.resolve(this.getFeatureUsageItems());
+        } else if (element.contextValue === 'last-audit') {
+            return Promise.resolve(this.getConformanceItems());
         }
 
         return Promise.resolve([]);
@@ -114,6 +125,18 @@ export class AccessibilityStatsProvider implements vscode.TreeDataProvider<Stats
             items.push(fixRateItem);
         }
 
+        // Conformance of the last audited file
+        if (this.lastAuditResult) {
+            const lastAuditItem = new StatsTreeItem(
+                'Last Audit',
+                vscode.TreeItemCollapsibleState.Expanded
+            );
+            lastAuditItem.description = `${this.lastAuditResult.fileName} (WCAG ${this.lastAuditResult.wcagVersion})`;
+            lastAuditItem.iconPath = new vscode.ThemeIcon('verified');
+            lastAuditItem.contextValue = 'last-audit';
+            items.push(lastAuditItem);
+        }
+
         // Feature usage section
         if (Object.keys(stats.featuresUsed).length > 0) {
             const featureUsageItem = new StatsTreeItem(
@@ -151,6 +174,33 @@ export class AccessibilityStatsProvider implements vscode.TreeDataProvider<Stats
         return items;
     }
 
+    /**
+     * Get pass/fail items per conformance level for the last audit
+     */
+    private getConformanceItems(): StatsTreeItem[] {
+        if (!this.lastAuditResult) {
+            return [];
+        }
+
+        const compliance = this.lastAuditResult.wcagCompliance;
+        const levels: Array<[WCAGLevel, boolean]> = [
+            [WCAGLevel.A, compliance.levelA],
+            [WCAGLevel.AA, compliance.levelAA],
+            [WCAGLevel.AAA, compliance.levelAAA]
+        ];
+
+        return levels.map(([level, passes]) => {
+            const item = new StatsTreeItem(
+                `Level ${level}`,
+                vscode.TreeItemCollapsibleState.None
+            );
+            item.description = passes ? 'Pass' : 'Fail';
+            item.iconPath = new vscode.ThemeIcon(passes ? 'pass' : 'error');
+            item.contextValue = 'stat';
+            return item;
+        });
+    }
+
     /**
      * Get feature usage items
      */
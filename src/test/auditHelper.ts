@@ -0,0 +1,65 @@
+/**
+ * Audit Test Helper
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Runs the accessibility auditor on source text through the VS Code API stub
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AccessibilityAuditor } from '../features/accessibilityAuditor';
+import { AccessibilityAuditResult, AccessibilityIssue } from '../types';
+import { openDocument, setConfiguration } from './vscodeStub';
+
+/**
+ * File extension used for each language id when no file name is given
+ */
+const EXTENSIONS: Record<string, string> = {
+    html: 'html',
+    javascriptreact: 'jsx',
+    typescriptreact: 'tsx',
+    typescript: 'ts',
+    javascript: 'js',
+    css: 'css',
+    scss: 'scss',
+    less: 'less'
+};
+
+/**
+ * Audit source text as if it were open in the active editor
+ * @param text - Document text
+ * @param languageId - VSCode language id, e.g. "html" or "javascriptreact"
+ * @param settings - a11yassist settings, keyed without the prefix
+ * @param fileName - Document path; imports are resolved relative to it
+ */
+export async function auditResult(
+    text: string,
+    languageId: string,
+    settings: Record<string, unknown> = {},
+    fileName: string = path.join(__dirname, `document.${EXTENSIONS[languageId] ?? languageId}`)
+): Promise<AccessibilityAuditResult> {
+    setConfiguration(settings);
+    openDocument(text, languageId, fileName);
+
+    const auditor = new AccessibilityAuditor({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+    const result = await auditor.runAudit();
+
+    if (!result) {
+        throw new Error('No audit result');
+    }
+
+    return result;
+}
+
+/**
+ * Audit source text and return only the issues
+ */
+export async function audit(
+    text: string,
+    languageId: string,
+    settings: Record<string, unknown> = {},
+    fileName?: string
+): Promise<AccessibilityIssue[]> {
+    return (await auditResult(text, languageId, settings, fileName)).issues;
+}
@@ -0,0 +1,32 @@
+/**
+ * Unit Test Runner
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Runs the compiled unit test suites with the Node.js test runner
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+/**
+ * Find compiled test files below a directory
+ */
+function findTestFiles(directory: string): string[] {
+    return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            return findTestFiles(fullPath);
+        }
+        return entry.name.endsWith('.test.js') ? [fullPath] : [];
+    });
+}
+
+// The suites run outside VS Code; the stub stands in for the vscode module
+const testFiles = findTestFiles(path.join(__dirname, 'suite')).sort();
+const result = spawnSync(process.execPath, ['--require', path.join(__dirname, 'vscodeStub.js'), '--test', ...testFiles], {
+    stdio: 'inherit'
+});
+
+process.exit(result.status ?? 1);
@@ -0,0 +1,931 @@
+/**
+ * Accessibility Auditor Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for the audit rules, run on real documents through the VS Code API stub
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, describe, it } from 'node:test';
+import { audit, auditResult } from '../auditHelper';
+import { AccessibilityIssue, IssueType } from '../../types';
+
+/**
+ * Keep the findings of one issue type
+ */
+function ofType(issues: AccessibilityIssue[], type: IssueType): AccessibilityIssue[] {
+    return issues.filter(issue => issue.type === type);
+}
+
+describe('AccessibilityAuditor', () => {
+    describe('HTML element tree', () => {
+        it('reports autofocus on elements at the attribute', async () => {
+            const issues = await audit('<form>\n  <input type="text"\n    autofocus aria-label="Name">\n</form>', 'html');
+            const [autofocus] = ofType(issues, IssueType.KEYBOARD_TRAP);
+
+            assert.ok(autofocus);
+            assert.deepStrictEqual([autofocus.line, autofocus.column], [2, 4]);
+        });
+
+        it('ignores autofocus in comments, text, scripts and styles', async () => {
+            const issues = await audit(
+                '<!-- do not use autofocus here -->\n<p>We avoid autofocus in forms.</p>\n' +
+                '<script>field.autofocus = true;</script>\n<style>.autofocus { color: red; }</style>', 'html');
+
+            assert.deepStrictEqual(ofType(issues, IssueType.KEYBOARD_TRAP), []);
+            assert.deepStrictEqual(ofType(await audit('.autofocus { outline: 2px solid; }', 'css'), IssueType.KEYBOARD_TRAP), []);
+        });
+
+        it('ignores markup inside comments and scripts', async () => {
+            const issues = await audit('<!-- <img src="old.png"> -->\n<script>const html = "<img src=x>";</script>', 'html');
+
+            assert.deepStrictEqual(ofType(issues, IssueType.MISSING_ALT_TEXT), []);
+        });
+
+        it('reports images without alt across multi-line tags', async () => {
+            const issues = await audit('<p>\n  <img\n    src="logo.png"\n    width="10">\n</p>', 'html');
+            const [image] = ofType(issues, IssueType.MISSING_ALT_TEXT);
+
+            assert.deepStrictEqual([image.line, image.column, image.endLine], [1, 2, 3]);
+        });
+
+        it('reports a missing lang attribute on html', async () => {
+            assert.strictEqual(ofType(await audit('<html><body></body></html>', 'html'), IssueType.MISSING_LANG_ATTRIBUTE).length, 1);
+            assert.strictEqual(ofType(await audit('<html lang="en"><body></body></html>', 'html'), IssueType.MISSING_LANG_ATTRIBUTE).length, 0);
+        });
+    });
+
+    describe('JSX element tree', () => {
+        it('reports autoFocus props but not variables or strings named autoFocus', async () => {
+            const issues = await audit(
+                'const autoFocus = true;\nconst hint = "autoFocus";\nconst App = () => <input aria-label="Name" autoFocus />;',
+                'javascriptreact');
+            const [autofocus] = ofType(issues, IssueType.KEYBOARD_TRAP);
+
+            assert.strictEqual(ofType(issues, IssueType.KEYBOARD_TRAP).length, 1);
+            assert.deepStrictEqual([autofocus.line, autofocus.column], [2, 43]);
+            assert.deepStrictEqual(ofType(await audit('export const autoFocus = true;', 'typescript'), IssueType.KEYBOARD_TRAP), []);
+        });
+
+        it('reports onClick on non-interactive elements without a keyboard handler', async () => {
+            const issues = await audit(
+                'const App = () => <>\n  <div onClick={open}>Open</div>\n  <div onClick={open} onKeyDown={open}>Open</div>\n' +
+                '  <button onClick={open}>Open</button>\n</>;', 'javascriptreact');
+            const [onClick] = ofType(issues, IssueType.KEYBOARD_TRAP);
+
+            assert.strictEqual(ofType(issues, IssueType.KEYBOARD_TRAP).length, 1);
+            assert.deepStrictEqual([onClick.line, onClick.column], [1, 7]);
+        });
+
+        it('reports images without alt unless props are spread', async () => {
+            const issues = await audit(
+                'const App = () => <main>{items.map(item => <img src={item.src} />)}<img {...props} /></main>;', 'typescriptreact');
+
+            assert.strictEqual(ofType(issues, IssueType.MISSING_ALT_TEXT).length, 1);
+        });
+    });
+
+    describe('heading outline', () => {
+        const headings = async (text: string, languageId = 'html', settings = {}): Promise<string[]> =>
+            ofType(await audit(text, languageId, settings), IssueType.MISSING_HEADING_STRUCTURE).map(issue => issue.message);
+
+        it('reports skipped heading levels', async () => {
+            assert.deepStrictEqual(await headings('<h1>A</h1><h2>B</h2><h4>C</h4>'), ['Heading level skipped: h2 → h4']);
+            assert.deepStrictEqual(await headings('<h1>A</h1><h2>B</h2><h3>C</h3><h2>D</h2>'), []);
+        });
+
+        it('uses aria-level and treats role="heading" without it as level 2', async () => {
+            assert.deepStrictEqual(await headings('<h1>A</h1><div role="heading" aria-level="3">B</div>'),
+                ['Heading level skipped: h1 → h3']);
+            assert.deepStrictEqual(await headings('<h1>A</h1><div role="heading">B</div>'), ['role="heading" without aria-level']);
+        });
+
+        it('reports a missing h1 only in full documents', async () => {
+            assert.deepStrictEqual(await headings('<html><body><h2>A</h2></body></html>'), ['Document has no level-one heading']);
+            assert.deepStrictEqual(await headings('<section><h2>A</h2></section>'), []);
+        });
+
+        it('reports extra h1 headings unless the profile allows them', async () => {
+            const text = '<h1>A</h1><h1>B</h1>';
+
+            assert.deepStrictEqual(await headings(text), ['Multiple level-one headings']);
+            assert.deepStrictEqual(await headings(text, 'html', { headingProfile: 'multiple-h1' }), []);
+        });
+
+        it('reports empty headings and skips hidden ones', async () => {
+            assert.deepStrictEqual(await headings('<h1> </h1>'), ['Empty heading']);
+            assert.deepStrictEqual(await headings('<h1><img src="logo.png" alt="Acme"></h1>'), []);
+            assert.deepStrictEqual(await headings('<h1>A</h1><div aria-hidden="true"><h3>B</h3></div>'), []);
+            assert.deepStrictEqual(await headings('const Title = () => <h1>{title}</h1>;', 'javascriptreact'), []);
+        });
+    });
+
+    describe('focus indicators', () => {
+        const removals = async (text: string, languageId = 'css'): Promise<string[]> =>
+            ofType(await audit(text, languageId), IssueType.MISSING_FOCUS_INDICATOR).map(issue => issue.message);
+
+        it('reports an outline removed on focus without a replacement', async () => {
+            const text = 'button:focus {\n  outline: none;\n}';
+            const [issue] = ofType(await audit(text, 'css'), IssueType.MISSING_FOCUS_INDICATOR);
+
+            assert.strictEqual(issue.message, 'Focus indicator removed: outline: none');
+            assert.deepStrictEqual([issue.line, issue.column], [1, 2]);
+            assert.deepStrictEqual(await removals('a { outline: 0; }'), ['Focus indicator removed: outline: 0']);
+        });
+
+        it('accepts a replacement in the same rule or a related focus rule', async () => {
+            assert.deepStrictEqual(await removals('button:focus { outline: none; box-shadow: 0 0 0 3px #005fcc; }'), []);
+            assert.deepStrictEqual(await removals('button:focus { outline: none; }\nbutton:focus-visible { outline: 2px solid; }'), []);
+            assert.deepStrictEqual(await removals('button { outline: none; }\n:focus-visible { outline: 2px solid; }'), []);
+        });
+
+        it('allows hiding the ring for mouse users only', async () => {
+            assert.deepStrictEqual(await removals('button:focus:not(:focus-visible) { outline: none; }'), []);
+        });
+
+        it('ignores non-focus states and non-interactive selectors', async () => {
+            assert.deepStrictEqual(await removals('a:hover { outline: none; }\n.card { outline: none; }'), []);
+        });
+
+        it('reports box-shadow: none only when the outline is removed too', async () => {
+            assert.deepStrictEqual(await removals('button:focus { box-shadow: none; }'), []);
+            assert.deepStrictEqual(await removals('button { outline: none; }\nbutton:focus { box-shadow: none; }'), [
+                'Focus indicator removed: outline: none',
+                'Focus indicator removed: box-shadow: none'
+            ]);
+        });
+
+        it('resolves nested SCSS selectors', async () => {
+            assert.deepStrictEqual(await removals('.nav {\n  a {\n    &:focus { outline: none; }\n  }\n}', 'scss'),
+                ['Focus indicator removed: outline: none']);
+        });
+    });
+
+    describe('accessible names', () => {
+        it('reports form controls, buttons and links without a computed name', async () => {
+            const issues = await audit(
+                '<input id="q" type="text">\n<button><span aria-hidden="true">★</span></button>\n<a href="/"></a>', 'html');
+
+            assert.deepStrictEqual(issues.map(issue => issue.type).filter(type => type !== IssueType.MISSING_HEADING_STRUCTURE),
+                [IssueType.MISSING_FORM_LABEL, IssueType.EMPTY_BUTTON, IssueType.EMPTY_LINK]);
+        });
+
+        it('accepts names from labels, aria-labelledby, alt text and title', async () => {
+            const issues = await audit(
+                '<label for="q">Search</label><input id="q" type="text">\n' +
+                '<span id="l">Close</span><button aria-labelledby="l"></button>\n' +
+                '<a href="/"><img src="icons/house.png" alt="Home"></a>\n<select title="Size"></select>', 'html');
+
+            assert.deepStrictEqual(issues, []);
+        });
+
+        it('reports other roles that require a name', async () => {
+            const issues = await audit('<div role="dialog"></div>\n<nav></nav>', 'html');
+
+            assert.deepStrictEqual(ofType(issues, IssueType.MISSING_ARIA_LABEL).map(issue => issue.message),
+                ['Element with role "dialog" has no accessible name']);
+        });
+
+        it('skips dynamic names and hidden elements in JSX', async () => {
+            const text = 'const App = () => <>\n  <button>{label}</button>\n  <button aria-label={t("close")} />\n' +
+                '  <div hidden><button /></div>\n</>;';
+
+            assert.deepStrictEqual(ofType(await audit(text, 'javascriptreact'), IssueType.EMPTY_BUTTON), []);
+        });
+
+        it('reports an unnamed button inside hidden={false}', async () => {
+            const issues = await audit('const App = () => <div hidden={false}><button /></div>;', 'javascriptreact');
+
+            assert.strictEqual(ofType(issues, IssueType.EMPTY_BUTTON).length, 1);
+        });
+    });
+
+    describe('label associations', () => {
+        const labels = async (text: string, languageId = 'html'): Promise<string[]> =>
+            ofType(await audit(text, languageId), IssueType.MISSING_FORM_LABEL).map(issue => issue.message);
+
+        it('does not treat an id on its own as a label', async () => {
+            assert.deepStrictEqual(await labels('<input id="email" type="email">'), ['No <label> references input id "email"']);
+            assert.deepStrictEqual(await labels('<label for="email">Email</label><input id="email" type="email">'), []);
+        });
+
+        it('reports empty labels and labels that point nowhere', async () => {
+            assert.deepStrictEqual(await labels('<label for="e"> </label><input id="e">'), ['Form input has an empty label']);
+
+            const [issue] = ofType(await audit('<label for="mail">Email</label>\n<input id="email" aria-label="Email">', 'html'),
+                IssueType.MISSING_FORM_LABEL);
+            assert.strictEqual(issue.message, 'Label for="mail" does not match any element');
+            assert.deepStrictEqual([issue.line, issue.column], [0, 7]);
+        });
+
+        it('reports labels that label nothing or the wrong control', async () => {
+            assert.deepStrictEqual(await labels('<label>Name</label>'), ['Label is not associated with any form control']);
+            assert.deepStrictEqual(await labels('<label for="d">Name</label><div id="d"></div>'),
+                ['Label points at a non-labelable <div>']);
+            assert.deepStrictEqual(
+                await labels('<label for="b">A <input id="a" aria-label="A"></label><input id="b" aria-label="B">'),
+                ['Label wraps one control but its for attribute targets another']);
+        });
+
+        it('does not report missing targets when components may render them', async () => {
+            const text = 'const Form = () => <><label htmlFor="email">Email</label><EmailField /></>;';
+
+            assert.deepStrictEqual(await labels(text, 'javascriptreact'), []);
+        });
+    });
+
+    describe('id references', () => {
+        const references = async (text: string, languageId = 'html'): Promise<string[]> =>
+            ofType(await audit(text, languageId), IssueType.INVALID_ARIA_ATTRIBUTE).map(issue => issue.message);
+
+        it('reports references to missing ids at the attribute', async () => {
+            const [issue] = ofType(await audit('<p id="hint">Hint</p>\n<input aria-label="Code" aria-describedby="hint error">', 'html'),
+                IssueType.INVALID_ARIA_ATTRIBUTE);
+
+            assert.strictEqual(issue.message, 'aria-describedby references missing id "error"');
+            assert.deepStrictEqual([issue.line, issue.column], [1, 25]);
+        });
+
+        it('reports self and duplicated references', async () => {
+            assert.deepStrictEqual(await references('<div id="d" role="region" aria-labelledby="d"></div>'),
+                ['aria-labelledby references the element itself']);
+            assert.deepStrictEqual(await references('<span id="x">A</span><span id="x">B</span><button aria-labelledby="x"></button>'),
+                ['aria-labelledby references duplicated id "x"']);
+        });
+
+        it('allows an element to label itself alongside other labels', async () => {
+            assert.deepStrictEqual(await references(
+                '<span id="verb">Delete</span><button id="item" aria-labelledby="verb item">Report</button>'), []);
+        });
+
+        it('reports hidden targets, as advisories for naming references', async () => {
+            const issues = ofType(await audit(
+                '<span id="l" hidden>Close</span><button aria-labelledby="l"></button>\n' +
+                '<ul id="menu" aria-hidden="true"></ul><button aria-controls="menu">Menu</button>', 'html'),
+            IssueType.INVALID_ARIA_ATTRIBUTE);
+
+            assert.deepStrictEqual(issues.map(issue => [issue.message, issue.severity]), [
+                ['aria-labelledby references hidden element "l"', 'minor'],
+                ['aria-controls references hidden element "menu"', 'moderate']
+            ]);
+        });
+
+        it('skips dynamic references and documents with opaque ids', async () => {
+            assert.deepStrictEqual(await references(
+                'const A = () => <><input aria-label="A" aria-describedby={hintId} /><Hint /><section aria-labelledby="x" /></>;',
+                'javascriptreact'), []);
+        });
+    });
+
+    describe('role attributes', () => {
+        const roleIssues = async (text: string): Promise<string[]> =>
+            ofType(await audit(text, 'html'), IssueType.INVALID_ARIA_ATTRIBUTE).map(issue => issue.message);
+
+        it('reports naming attributes on roles that cannot be named', async () => {
+            const [issue] = ofType(await audit('<p>\n<span aria-label="Note">!</span></p>', 'html'), IssueType.INVALID_ARIA_ATTRIBUTE);
+
+            assert.strictEqual(issue.message, 'aria-label is prohibited on role "generic"');
+            assert.deepStrictEqual([issue.line, issue.column], [1, 6]);
+            assert.deepStrictEqual(await roleIssues('<div role="presentation" aria-labelledby="p"></div><p id="p">x</p>'),
+                ['aria-labelledby is prohibited on role "presentation"']);
+        });
+
+        it('reports missing required states on explicit roles only', async () => {
+            assert.deepStrictEqual(await roleIssues('<div role="checkbox" tabindex="0">Agree</div>'),
+                ['Role "checkbox" is missing required attribute: aria-checked']);
+            assert.deepStrictEqual(await roleIssues('<input type="checkbox" role="checkbox" aria-label="Agree">'), []);
+            assert.deepStrictEqual(await roleIssues('<input type="checkbox" aria-label="Agree">'), []);
+        });
+
+        it('reports attributes the explicit role does not support', async () => {
+            assert.deepStrictEqual(await roleIssues('<a href="/" role="link" aria-pressed="true">Home</a>'),
+                ['aria-pressed is not supported on role "link"']);
+            assert.deepStrictEqual(await roleIssues('<div role="button" tabindex="0" aria-pressed="false">Bold</div>'), []);
+        });
+
+        it('allows naming blockquote roles and advises on named time elements', async () => {
+            assert.deepStrictEqual(await roleIssues('<blockquote aria-label="Quote">Hi</blockquote>'), []);
+
+            const [issue] = ofType(await audit('<time datetime="2024-01-01" aria-label="New year">1/1</time>', 'html'),
+                IssueType.INVALID_ARIA_ATTRIBUTE);
+            assert.deepStrictEqual([issue.message, issue.severity], ['aria-label on <time> may not be announced', 'minor']);
+        });
+    });
+
+    describe('context and owned roles', () => {
+        const structure = async (text: string, languageId = 'html'): Promise<string[]> =>
+            ofType(await audit(text, languageId), IssueType.MISSING_ROLE).map(issue => issue.message);
+
+        it('reports owned roles outside their required context', async () => {
+            const [issue] = ofType(await audit('<div>\n  <div role="tab">One</div>\n</div>', 'html'), IssueType.MISSING_ROLE);
+
+            assert.strictEqual(issue.message, 'Role "tab" must be contained in role "tablist"');
+            assert.deepStrictEqual([issue.line, issue.column], [1, 7]);
+        });
+
+        it('looks through generic wrappers and follows aria-owns', async () => {
+            assert.deepStrictEqual(await structure(
+                '<div role="tablist"><div><button role="tab" aria-selected="true">One</button></div></div>'), []);
+            assert.deepStrictEqual(await structure(
+                '<ul role="listbox" aria-label="Fruit" aria-owns="apple"></ul><div><div id="apple" role="option" aria-selected="false">Apple</div></div>'),
+            []);
+        });
+
+        it('reports containers without their required owned roles', async () => {
+            assert.deepStrictEqual(await structure('<div role="menu" aria-label="Actions"><div>Open</div></div>'),
+                ['Role "menu" must contain role "menuitem", "menuitemcheckbox", "menuitemradio" or "group"']);
+            assert.deepStrictEqual(await structure('<div role="menu" aria-label="Actions" aria-busy="true"></div>'), []);
+        });
+
+        it('skips ownership that depends on components or dynamic children', async () => {
+            assert.deepStrictEqual(await structure(
+                'const Tabs = () => <><div role="tablist">{tabs}</div><TabList><div role="tab">A</div></TabList></>;',
+                'javascriptreact'), []);
+        });
+    });
+
+    describe('versioned roles and attributes', () => {
+        const roleMessages = async (text: string): Promise<string[]> =>
+            (await audit(text, 'html')).filter(issue => issue.type === IssueType.MISSING_ROLE ||
+                issue.type === IssueType.INVALID_ARIA_ATTRIBUTE).map(issue => `${issue.severity}: ${issue.message}`);
+
+        it('separates unknown, abstract and deprecated roles', async () => {
+            assert.deepStrictEqual(await roleMessages('<div role="buton">A</div>'), ['serious: Invalid ARIA role: buton']);
+            assert.deepStrictEqual(await roleMessages('<div role="widget">A</div>'), ['serious: Abstract ARIA role: widget']);
+            assert.deepStrictEqual(await roleMessages('<div role="directory">A</div>'), ['minor: Deprecated ARIA role: directory']);
+        });
+
+        it('advises on module roles without a core fallback', async () => {
+            assert.deepStrictEqual(await roleMessages('<div role="doc-chapter">A</div>'), ['minor: ARIA module role: doc-chapter']);
+            assert.deepStrictEqual(await roleMessages('<div role="doc-chapter region" aria-label="One">A</div>'), []);
+        });
+
+        it('reports deprecated attributes as advisories', async () => {
+            assert.deepStrictEqual(await roleMessages('<div role="button" tabindex="0" aria-grabbed="false">Drag</div>'),
+                ['minor: Deprecated ARIA attribute: aria-grabbed']);
+        });
+    });
+
+    describe('landmarks', () => {
+        const landmarks = async (text: string): Promise<string[]> =>
+            ofType(await audit(text, 'html'), IssueType.LANDMARK_STRUCTURE).map(issue => issue.message);
+
+        it('reports a page without a main landmark', async () => {
+            assert.deepStrictEqual(await landmarks('<html lang="en"><body><h1>A</h1></body></html>'), ['Page has no main landmark']);
+            assert.deepStrictEqual(await landmarks('<section><p>Partial</p></section>'), []);
+        });
+
+        it('counts only top-level banner and contentinfo landmarks', async () => {
+            assert.deepStrictEqual(await landmarks(
+                '<body><header>Site</header><main><h1>A</h1><article><header>Post</header></article></main><footer>F</footer></body>'),
+            []);
+            assert.deepStrictEqual(await landmarks('<body><main><h1>A</h1></main><main hidden>B</main><main>C</main></body>'),
+                ['Page has more than one top-level main landmark']);
+        });
+
+        it('reports unnamed regions and landmarks that cannot be told apart', async () => {
+            assert.deepStrictEqual(await landmarks('<div role="region">A</div>'), ['Region landmark has no accessible name']);
+            assert.deepStrictEqual(await landmarks('<nav>A</nav><nav>B</nav>'), [
+                'Several navigation landmarks have no accessible name',
+                'Several navigation landmarks have no accessible name'
+            ]);
+            assert.deepStrictEqual(await landmarks('<nav aria-label="Primary">A</nav><nav aria-label="Footer">B</nav>'), []);
+        });
+
+        it('treats only named sections as regions', async () => {
+            assert.deepStrictEqual(await landmarks('<section>A</section><section aria-label="News">B</section>'), []);
+        });
+
+        it('reports content outside landmarks as an advisory', async () => {
+            const issues = ofType(await audit('<body>\n<main><h1>A</h1></main>\n<p>Stray</p>\n</body>', 'html'),
+                IssueType.LANDMARK_STRUCTURE);
+
+            assert.deepStrictEqual(issues.map(issue => [issue.message, issue.severity, issue.line]),
+                [['Content is not contained in any landmark', 'minor', 2]]);
+        });
+    });
+
+    describe('duplicate ids', () => {
+        it('reports later uses of an id with the first use and references as related locations', async () => {
+            const issues = ofType(await audit(
+                '<label for="name">Name</label>\n<input id="name">\n<input id="name" aria-label="Nickname">', 'html'),
+            IssueType.DUPLICATE_ID);
+
+            assert.deepStrictEqual(issues.map(issue => [issue.message, issue.severity, issue.line]),
+                [['Duplicate id "name" (2 elements)', 'serious', 2]]);
+            assert.deepStrictEqual(issues[0].relatedLocations?.map(location => [location.message, location.line]), [
+                ['First use of id "name"', 1],
+                ['Duplicate of id "name"', 2],
+                ['Referenced by for', 0]
+            ]);
+        });
+
+        it('reports unreferenced duplicates as advisories', async () => {
+            const [issue] = ofType(await audit('<p id="a">One</p><p id="a">Two</p>', 'html'), IssueType.DUPLICATE_ID);
+
+            assert.strictEqual(issue.severity, 'minor');
+        });
+
+        it('ignores ids and h1 headings on exclusive JSX branches and in separate components', async () => {
+            const text = 'const Page = () => loading\n  ? <h1 id="title">Loading</h1>\n  : <h1 id="title">Ready</h1>;\n' +
+                'function Empty() {\n  if (!items) {\n    return <h1 id="empty">None</h1>;\n  }\n  return <h1 id="empty">Some</h1>;\n}\n' +
+                'const Other = () => <h1 id="title">Other</h1>;';
+            const issues = await audit(text, 'javascriptreact');
+
+            assert.deepStrictEqual(ofType(issues, IssueType.DUPLICATE_ID), []);
+            assert.deepStrictEqual(ofType(issues, IssueType.MISSING_HEADING_STRUCTURE), []);
+        });
+
+        it('still reports duplicates within one JSX branch', async () => {
+            const text = 'const Page = () => open ? <><h1 id="a">A</h1><h1 id="a">B</h1></> : null;';
+            const issues = await audit(text, 'javascriptreact');
+
+            assert.strictEqual(ofType(issues, IssueType.DUPLICATE_ID).length, 1);
+            assert.deepStrictEqual(ofType(issues, IssueType.MISSING_HEADING_STRUCTURE).map(issue => issue.message),
+                ['Multiple level-one headings']);
+        });
+    });
+
+    describe('tables', () => {
+        const tables = async (text: string, languageId = 'html'): Promise<string[]> =>
+            ofType(await audit(text, languageId), IssueType.TABLE_STRUCTURE).map(issue => issue.message);
+
+        it('reports data tables without header cells or a caption', async () => {
+            assert.deepStrictEqual(await tables('<table><tr><td>A</td><td>1</td></tr><tr><td>B</td><td>2</td></tr></table>'),
+                ['Data table has no header cells']);
+            assert.deepStrictEqual(await tables('<table><tr><th>Name</th></tr><tr><td>A</td></tr></table>'),
+                ['Data table has no caption']);
+            assert.deepStrictEqual(await tables(
+                '<table><caption>Scores</caption><tr><th>Name</th></tr><tr><td>A</td></tr></table>'), []);
+        });
+
+        it('reports data markup in layout tables', async () => {
+            assert.deepStrictEqual(await tables(
+                '<table role="presentation" summary="Layout"><caption>Page</caption><tr><th>A</th></tr></table>'), [
+                'Layout table uses <th>',
+                'Layout table uses <caption>',
+                'Layout table has a summary attribute'
+            ]);
+        });
+
+        it('requires scope on headers of complex tables', async () => {
+            const text = '<table><caption>Sales</caption>' +
+                '<tr><td></td><th>Q1</th><th scope="col">Q2</th></tr>' +
+                '<tr><th scope="row">North</th><td>1</td><td>2</td></tr></table>';
+
+            assert.deepStrictEqual(await tables(text), ['Header cell in a complex table has no scope']);
+        });
+
+        it('checks headers references against the header cells of the table', async () => {
+            const text = '<table><caption>T</caption><tr><th id="h">H</th></tr>' +
+                '<tr><td id="d" headers="h">1</td><td headers="d">2</td><td headers="x">3</td></tr></table>';
+
+            assert.deepStrictEqual(await tables(text), [
+                'headers references "d", which is not a header cell of this table',
+                'headers references missing id "x"'
+            ]);
+        });
+
+        it('skips rows rendered by expressions', async () => {
+            assert.deepStrictEqual(await tables('const T = () => <table><tbody>{rows}</tbody></table>;', 'javascriptreact'), []);
+        });
+    });
+
+    describe('media', () => {
+        const types = async (text: string, languageId = 'html'): Promise<string[]> =>
+            (await audit(text, languageId)).map(issue => issue.message);
+
+        it('reports videos without a captions track', async () => {
+            assert.deepStrictEqual(await types('<video src="a.mp4" controls></video>'), ['Video has no captions track']);
+            assert.deepStrictEqual(await types(
+                '<video src="a.mp4" controls><track kind="subtitles" src="a.vtt" srclang="en"></video>'), []);
+            assert.deepStrictEqual(await types('const V = () => <video controls>{tracks}</video>;', 'javascriptreact'), []);
+        });
+
+        it('reports autoplaying sound only without muted or controls', async () => {
+            const messages = (await types('<audio src="a.mp3" autoplay></audio>')).filter(message => message.startsWith('Autoplaying'));
+
+            assert.deepStrictEqual(messages, ['Autoplaying <audio> plays sound with no way to stop it']);
+            assert.ok(!(await types('<video autoplay muted><track kind="captions"></video>')).length);
+            assert.ok(!(await types('const V = () => <video autoPlay muted={isMuted}><track kind="captions" /></video>;',
+                'javascriptreact')).length);
+        });
+
+        it('accepts a transcript link beside an audio player', async () => {
+            assert.deepStrictEqual(await types('<div><audio src="a.mp3" controls></audio><a href="a.html">Read the transcript</a></div>'), []);
+            assert.deepStrictEqual(await types(
+                'const Episode = () => <figure><audio src="a.mp3" controls /><Transcript /></figure>;', 'javascriptreact'), []);
+        });
+
+        it('accepts a description reference only when it points at a transcript', async () => {
+            const transcript = '<audio src="a.mp3" controls aria-describedby="t"></audio><div id="t">Transcript: Hello</div>';
+            const link = '<audio src="a.mp3" controls aria-details="d"></audio><p id="d"><a href="/t">Full text</a> of the <a href="t.html">transcript</a></p>';
+            const duration = '<audio src="a.mp3" controls aria-describedby="len"></audio><span id="len">3 minutes</span>';
+
+            assert.deepStrictEqual(await types(transcript), []);
+            assert.deepStrictEqual(await types(link), []);
+            assert.deepStrictEqual(await types(duration), ['Audio has no transcript nearby']);
+        });
+
+        it('reports frames and embedded objects without a text alternative', async () => {
+            assert.deepStrictEqual(await types('<iframe src="map.html"></iframe><embed src="a.swf">'), [
+                'Iframe has no title',
+                '<embed> has no text alternative'
+            ]);
+            assert.deepStrictEqual(await types(
+                '<iframe src="map.html" title="Store map"></iframe><object data="a.pdf">Annual report</object>'), []);
+        });
+    });
+
+    describe('forms', () => {
+        const messages = async (text: string, type: IssueType): Promise<string[]> =>
+            ofType(await audit(text, 'html'), type).map(issue => issue.message);
+
+        it('reports related radio buttons without a named group', async () => {
+            const radios = '<label><input type="radio" name="size" value="s"> Small</label>' +
+                '<label><input type="radio" name="size" value="l"> Large</label>';
+
+            assert.deepStrictEqual(await messages(radios, IssueType.FORM_GROUPING), ['2 related radio buttons are not grouped']);
+            assert.deepStrictEqual(await messages(`<fieldset>${radios}</fieldset>`, IssueType.FORM_GROUPING),
+                ['Group of 2 radio buttons has no group name']);
+            assert.deepStrictEqual(await messages(`<fieldset><legend>Size</legend>${radios}</fieldset>`, IssueType.FORM_GROUPING), []);
+        });
+
+        it('validates autocomplete tokens and suggests them for personal data', async () => {
+            assert.deepStrictEqual(await messages('<input name="email" type="email" aria-label="Email" autocomplete="e-mail">',
+                IssueType.INVALID_AUTOCOMPLETE), ['Invalid autocomplete value: "e-mail"']);
+            assert.deepStrictEqual(await messages(
+                '<input type="text" id="shipping-zip" aria-label="Zip" autocomplete="section-a shipping postal-code">',
+                IssueType.INVALID_AUTOCOMPLETE), []);
+            assert.deepStrictEqual(await messages('<input type="tel" aria-label="Phone" autocomplete="work tel">',
+                IssueType.INVALID_AUTOCOMPLETE), []);
+            assert.deepStrictEqual(await messages('<input type="text" name="first_name" aria-label="First name">',
+                IssueType.INVALID_AUTOCOMPLETE), ['Personal data field has no autocomplete (looks like "given-name")']);
+        });
+
+        it('reports fields labelled required but not marked required', async () => {
+            assert.deepStrictEqual(await messages('<label for="n">Name *</label><input id="n" type="text">',
+                IssueType.MISSING_REQUIRED_STATE), ['Field is labelled as required but not marked required']);
+            assert.deepStrictEqual(await messages('<label for="n">Name *</label><input id="n" type="text" required>',
+                IssueType.MISSING_REQUIRED_STATE), []);
+        });
+
+        it('requires error messages on invalid fields and invalid state for error messages', async () => {
+            assert.deepStrictEqual(await messages('<input aria-label="Code" aria-invalid="true">', IssueType.MISSING_ERROR_MESSAGE),
+                ['Invalid field has no associated error message']);
+            assert.deepStrictEqual(await messages(
+                '<input aria-label="Code" aria-errormessage="e"><p id="e">Wrong code</p>', IssueType.MISSING_ERROR_MESSAGE),
+            ['aria-errormessage has no effect without aria-invalid="true"']);
+            assert.deepStrictEqual(await messages(
+                '<input aria-label="Code" aria-invalid="true" aria-errormessage="e"><p id="e">Wrong code</p>',
+                IssueType.MISSING_ERROR_MESSAGE), []);
+        });
+    });
+
+    describe('link text', () => {
+        const links = async (text: string, settings = {}): Promise<string[]> =>
+            (await audit(text, 'html', settings)).filter(issue => issue.type === IssueType.AMBIGUOUS_LINK_TEXT ||
+                issue.type === IssueType.NEW_WINDOW_WITHOUT_WARNING).map(issue => `${issue.severity}: ${issue.message}`);
+
+        it('reports generic and URL link text', async () => {
+            assert.deepStrictEqual(await links('<a href="/pricing">Click here</a>\n<a href="https://example.com">https://example.com</a>'), [
+                'moderate: Generic link text "Click here"',
+                'minor: URL used as link text'
+            ]);
+            assert.deepStrictEqual(await links('<a href="/pricing">Click here<span class="sr-only"> to see pricing</span></a>'), []);
+        });
+
+        it('uses the language of the link and configured phrases', async () => {
+            assert.deepStrictEqual(await links('<p lang="fr"><a href="/a">Cliquez ici</a></p>'), ['moderate: Generic link text "Cliquez ici"']);
+            assert.deepStrictEqual(await links('<a href="/a">Tap here</a>', { genericLinkText: { en: ['tap here'] } }),
+                ['moderate: Generic link text "Tap here"']);
+        });
+
+        it('reports the same text leading to different destinations', async () => {
+            const issues = await audit('<a href="/a">Report</a>\n<a href="/b">Report</a>\n<a href="/a">report</a>', 'html');
+            const [first] = ofType(issues, IssueType.AMBIGUOUS_LINK_TEXT);
+
+            assert.strictEqual(ofType(issues, IssueType.AMBIGUOUS_LINK_TEXT).length, 3);
+            assert.strictEqual(first.message, 'Link text "Report" is used for 2 different destinations');
+            assert.deepStrictEqual(first.relatedLocations?.map(location => location.line), [0, 1, 2]);
+        });
+
+        it('reports new windows without a warning in the name or description', async () => {
+            assert.deepStrictEqual(await links('<a href="/r" target="_blank">Annual report</a>'),
+                ['minor: Link opens a new window without warning']);
+            assert.deepStrictEqual(await links('<a href="/r" target="_blank">Annual report (opens in a new tab)</a>'), []);
+            assert.deepStrictEqual(await links('<a href="/r" target="_blank" aria-describedby="w">Annual report</a><p id="w">Opens in a new window</p>'), []);
+        });
+
+        it('names icon-only buttons and links', async () => {
+            const issues = await audit('<button><svg aria-hidden="true"></svg></button><a href="/"><i aria-hidden="true"></i></a>', 'html');
+
+            assert.deepStrictEqual(issues.map(issue => issue.message), [
+                'Icon-only button has no accessible name',
+                'Icon-only link has no accessible name'
+            ]);
+        });
+    });
+
+    describe('alt text', () => {
+        const altText = async (text: string): Promise<string[]> =>
+            ofType(await audit(text, 'html'), IssueType.POOR_ALT_TEXT).map(issue => `${issue.severity}: ${issue.message}`);
+
+        it('reports file names and placeholders at the alt attribute', async () => {
+            const [issue] = ofType(await audit('<p>\n  <img src="/img/team-photo.jpg?v=2" alt="team-photo"></p>', 'html'),
+                IssueType.POOR_ALT_TEXT);
+
+            assert.strictEqual(issue.message, 'Alt text "team-photo" is a file name');
+            assert.deepStrictEqual([issue.line, issue.column], [1, 37]);
+            assert.deepStrictEqual(await altText('<img src="a.png" alt="IMG_0042.JPG">'), ['moderate: Alt text "IMG_0042.JPG" is a file name']);
+            assert.deepStrictEqual(await altText('<img src="a.png" alt="Image.">'), ['moderate: Placeholder alt text "Image."']);
+        });
+
+        it('advises on redundant prefixes and long alt text', async () => {
+            assert.deepStrictEqual(await altText('<img src="a.png" alt="Picture of a red kite">'),
+                ['minor: Alt text starts with "Picture of"']);
+            assert.deepStrictEqual(await altText(`<img src="a.png" alt="${'word '.repeat(40)}">`),
+                ['minor: Alt text is 199 characters long']);
+        });
+
+        it('reports alt text that repeats the caption or link text', async () => {
+            assert.deepStrictEqual(await altText('<figure><img src="a.png" alt="Red kite"><figcaption>Red kite.</figcaption></figure>'),
+                ['minor: Alt text repeats the caption']);
+            assert.deepStrictEqual(await altText('<a href="/k"><img src="a.png" alt="Red kite"> Red kite</a>'),
+                ['minor: Alt text repeats the link text']);
+        });
+
+        it('reports empty alt only when the image is all a link contains', async () => {
+            assert.deepStrictEqual(await altText('<a href="/"><img src="logo.png" alt=""></a>'),
+                ['moderate: Image is the only content of a link but has empty alt text']);
+            assert.deepStrictEqual(await altText('<a href="/"><img src="logo.png" alt=""> Home</a><img src="rule.png" alt="">'), []);
+        });
+    });
+
+    describe('document metadata', () => {
+        const page = (head: string, lang = 'en'): string =>
+            `<html lang="${lang}"><head>${head}</head><body><main><h1>A</h1></main></body></html>`;
+        const messages = async (text: string): Promise<string[]> =>
+            (await audit(text, 'html')).map(issue => `${issue.severity}: ${issue.message}`);
+
+        it('reports a missing or empty page title in full documents only', async () => {
+            assert.deepStrictEqual(await messages(page('')), ['serious: Page has no <title>']);
+            assert.deepStrictEqual(await messages(page('<title> </title>')), ['serious: Page title is empty']);
+            assert.deepStrictEqual(await messages(page('<title>Checkout</title>')), []);
+            assert.deepStrictEqual(await messages('<main><h1>Partial</h1></main>'), []);
+        });
+
+        it('reports viewports that restrict zooming', async () => {
+            const zoom = '<title>T</title><meta name="viewport" content="width=device-width, ';
+
+            assert.deepStrictEqual(await messages(page(`${zoom}user-scalable=no">`)), ['serious: Viewport disables zooming (user-scalable=no)']);
+            assert.deepStrictEqual(await messages(page(`${zoom}maximum-scale=1.5">`)), ['serious: Viewport limits zoom to 1.5x']);
+            assert.deepStrictEqual(await messages(page(`${zoom}maximum-scale=5">`)), []);
+        });
+
+        it('reports timed refreshes and redirects', async () => {
+            assert.deepStrictEqual(await messages(page('<title>T</title><meta http-equiv="refresh" content="30">')),
+                ['serious: Page reloads automatically every 30 seconds']);
+            assert.deepStrictEqual(await messages(page('<title>T</title><meta http-equiv="refresh" content="5; url=/new">')),
+                ['serious: Page redirects automatically after 5 seconds']);
+            assert.deepStrictEqual(await messages(page('<title>T</title><meta http-equiv="refresh" content="0; url=/new">')), []);
+        });
+
+        it('validates lang on the page and on passages', async () => {
+            const issues = await audit(page('<title>T</title>', 'en_US').replace('<h1>A</h1>', '<h1>A</h1><p lang="iw">Shalom</p>'), 'html');
+
+            assert.deepStrictEqual(ofType(issues, IssueType.INVALID_LANG_ATTRIBUTE).map(issue => [issue.severity, issue.message, issue.suggestion]), [
+                ['serious', 'Invalid language tag "en_US"', 'Separate subtags with hyphens: "en-US"'],
+                ['minor', 'Deprecated language tag "iw"', 'Use lang="he"']
+            ]);
+            assert.deepStrictEqual(await messages(page('<title>T</title>', ' ')), ['serious: HTML element has an empty lang attribute']);
+        });
+    });
+
+    describe('WCAG versions', () => {
+        const duplicates = '<p id="a">One</p><p id="a">Two</p>';
+
+        it('maps duplicate ids to the criterion of the selected version', async () => {
+            const criteria = async (text: string, wcagVersion: string): Promise<string[]> =>
+                ofType(await audit(text, 'html', { wcagVersion }), IssueType.DUPLICATE_ID).map(issue => issue.successCriterion);
+
+            assert.deepStrictEqual(await criteria(duplicates, '2.1'), ['4.1.1']);
+            assert.deepStrictEqual(await criteria(duplicates, '2.2'), ['1.3.1']);
+            assert.deepStrictEqual(await criteria(`<label for="a">A</label>${duplicates}`, '2.1'), ['1.3.1']);
+        });
+
+        it('drops findings of criteria outside the selected version', async () => {
+            const css = 'button { width: 16px; height: 16px; }';
+
+            assert.strictEqual(ofType(await audit(css, 'css', { wcagVersion: '2.2' }), IssueType.TARGET_SIZE).length, 1);
+            assert.deepStrictEqual(ofType(await audit(css, 'css', { wcagVersion: '2.1' }), IssueType.TARGET_SIZE), []);
+        });
+
+        it('links documentation to the quick reference of the selected version', async () => {
+            const [issue] = await audit(duplicates, 'html', { wcagVersion: '2.0' });
+
+            assert.strictEqual(issue.documentation, 'https://www.w3.org/WAI/WCAG22/quickref/?versions=2.0#parsing');
+        });
+    });
+
+    describe('WCAG 2.2 checks', () => {
+        const messages = async (text: string, languageId: string, type: IssueType): Promise<string[]> =>
+            ofType(await audit(text, languageId), type).map(issue => `${issue.severity}: ${issue.message}`);
+
+        it('reports pointer targets below 24x24px unless padded', async () => {
+            assert.deepStrictEqual(await messages('.icon-btn { width: 1rem; min-height: 20px; }', 'css', IssueType.TARGET_SIZE),
+                ['moderate: Pointer target is 16x20px, below the 24x24px minimum']);
+            assert.deepStrictEqual(await messages('a { width: 16px; height: 16px; padding: 4px; }\n' +
+                'button::before { width: 8px; height: 8px; }\n.card { width: 10px; height: 10px; }', 'css', IssueType.TARGET_SIZE), []);
+        });
+
+        it('reports fixed and sticky bars unless scroll padding reserves room', async () => {
+            const header = 'header { position: sticky; top: 0; }';
+
+            assert.deepStrictEqual(await messages(header, 'css', IssueType.FOCUS_NOT_OBSCURED),
+                ['minor: Sticky element may hide focused content']);
+            assert.deepStrictEqual(await messages(`html { scroll-padding-top: 4rem; }\n${header}`, 'css', IssueType.FOCUS_NOT_OBSCURED), []);
+        });
+
+        it('reports dragging without a single-pointer alternative', async () => {
+            assert.deepStrictEqual(await messages('<li draggable="true">Item</li>', 'html', IssueType.DRAGGING_MOVEMENT),
+                ['moderate: Drag and drop without a single-pointer alternative']);
+            assert.deepStrictEqual(await messages(
+                '<li draggable="true">Item <button>Move up</button></li>', 'html', IssueType.DRAGGING_MOVEMENT), []);
+        });
+
+        it('reports login fields that block pasting or password managers', async () => {
+            assert.deepStrictEqual(await messages(
+                '<label>Password <input type="password" onpaste="return false" autocomplete="off"></label>',
+                'html', IssueType.INACCESSIBLE_AUTHENTICATION),
+            ['serious: Login field blocks paste', 'moderate: Login field turns off autocomplete']);
+            assert.deepStrictEqual(await messages(
+                '<label>Password <input type="password" autocomplete="current-password"></label>',
+                'html', IssueType.INACCESSIBLE_AUTHENTICATION), []);
+        });
+    });
+
+    describe('audit result', () => {
+        it('counts severities and passes every level when only advisories remain', async () => {
+            const result = await auditResult('<p id="a">One</p><p id="a">Two</p>', 'html');
+
+            assert.deepStrictEqual([result.wcagVersion, result.totalIssues, result.minorCount], ['2.2', 1, 1]);
+            assert.deepStrictEqual(result.wcagCompliance, { levelA: true, levelAA: true, levelAAA: true });
+            assert.deepStrictEqual(result.failedCriteria, []);
+        });
+
+        it('fails level A and above for a serious level A issue', async () => {
+            const result = await auditResult('<label for="n">Name</label><input id="n"><input id="n" aria-label="Nick">', 'html');
+
+            assert.strictEqual(result.seriousCount, 1);
+            assert.deepStrictEqual(result.wcagCompliance, { levelA: false, levelAA: false, levelAAA: false });
+            assert.deepStrictEqual(result.failedCriteria.map(criterion => criterion.id), ['1.3.1']);
+        });
+
+        it('lists criteria no check covers as untested', async () => {
+            const untested = (await auditResult('<p>Text</p>', 'html')).untestedCriteria.map(criterion => criterion.id);
+
+            assert.ok(untested.includes('1.2.5'));
+            assert.ok(!untested.includes('1.4.3'));
+        });
+    });
+
+    describe('color contrast', () => {
+        const contrast = async (text: string): Promise<string[]> =>
+            ofType(await audit(text, 'css'), IssueType.LOW_COLOR_CONTRAST).map(issue => `${issue.severity}: ${issue.message}`);
+
+        it('reports text and background colors below 4.5:1', async () => {
+            assert.deepStrictEqual(await contrast('.note { color: #777; background-color: #fff; }'),
+                ['serious: Low color contrast ratio: 4.48:1 (minimum 4.5:1)']);
+            assert.deepStrictEqual(await contrast('.note { color: #595959; background-color: #fff; }'), []);
+        });
+
+        it('skips rules whose background is transparent', async () => {
+            assert.deepStrictEqual(await contrast('.a { color: #eee; background: transparent; }\n' +
+                '.b { color: #eee; background-color: rgb(0 0 0 / 0); }'), []);
+        });
+
+        it('reports a translucent background over an unknown page as advisory unless the best case fails', async () => {
+            assert.deepStrictEqual(await contrast('.a { color: #222; background-color: rgb(0 0 0 / 30%); }'),
+                ['minor: Color contrast may be low: 1:1 to 7.55:1 depending on the page background (minimum 4.5:1)']);
+            assert.deepStrictEqual(await contrast('.a { color: #222; background-color: rgb(0 0 0 / 50%); }'),
+                ['serious: Low color contrast: 1:1 to 4:1 depending on the page background (minimum 4.5:1)']);
+            assert.deepStrictEqual(await contrast('.a { color: rgb(0 0 0 / 80%); background-color: rgb(255 255 255 / 50%); }'),
+                ['minor: Color contrast may be low: 4.4:1 to 12.63:1 depending on the sampled page backgrounds (minimum 4.5:1)']);
+        });
+
+        it('composites translucent backgrounds over the page background', async () => {
+            assert.deepStrictEqual(await contrast('body { background: #fff; }\n.a { color: #222; background-color: rgb(0 0 0 / 50%); }'),
+                ['serious: Low color contrast ratio: 4:1 (minimum 4.5:1)']);
+        });
+
+        it('holds large text to 3:1', async () => {
+            const gray = (font: string): string => `.a { color: #777; background-color: #fff; ${font} }`;
+
+            assert.deepStrictEqual(await contrast(gray('font-size: 24px;')), []);
+            assert.deepStrictEqual(await contrast(gray('font-size: 18pt;')), []);
+            assert.deepStrictEqual(await contrast(gray('font-size: 1.5rem;')), []);
+            assert.deepStrictEqual(await contrast(gray('font-size: 14pt; font-weight: 700;')), []);
+            assert.deepStrictEqual(await contrast(gray('font: bold 14pt/1.2 Arial, sans-serif;')), []);
+            assert.deepStrictEqual(await contrast(gray('font-size: 2em; font-weight: 600;')), []);
+            assert.deepStrictEqual(await contrast(gray('font-size: xx-large;')), []);
+        });
+
+        it('keeps 4.5:1 for normal text and sizes it cannot resolve', async () => {
+            const gray = (font: string): string => `.a { color: #777; background-color: #fff; ${font} }`;
+
+            assert.deepStrictEqual(await contrast(gray('font-size: 14pt;')), ['serious: Low color contrast ratio: 4.48:1 (minimum 4.5:1)']);
+            assert.deepStrictEqual(await contrast(gray('font-size: calc(1rem + 1vw);')), ['serious: Low color contrast ratio: 4.48:1 (minimum 4.5:1)']);
+            assert.deepStrictEqual(await contrast('.a { color: #333; background-color: #555; font-size: 32px; }'),
+                ['serious: Low color contrast ratio: 1.69:1 (minimum 3:1)']);
+        });
+
+        it('sizes relative units against the configured root font size', async () => {
+            const text = '.a { color: #777; background-color: #fff; font-size: 1.2rem; }';
+
+            assert.strictEqual(ofType(await audit(text, 'css'), IssueType.LOW_COLOR_CONTRAST).length, 1);
+            assert.deepStrictEqual(ofType(await audit(text, 'css', { rootFontSize: 20 }), IssueType.LOW_COLOR_CONTRAST), []);
+        });
+    });
+
+    describe('CSS variables', () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'a11yassist-'));
+        const contrast = async (text: string, languageId: string, fileName?: string): Promise<AccessibilityIssue[]> =>
+            ofType(await audit(text, languageId, {}, fileName), IssueType.LOW_COLOR_CONTRAST);
+
+        after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+        it('resolves custom properties before checking contrast and lists the chain', async () => {
+            const [issue] = await contrast(':root { --muted: #777; }\n.a { color: var(--muted); background-color: #fff; }', 'css');
+
+            assert.strictEqual(issue.message, 'Low color contrast ratio: 4.48:1 (minimum 4.5:1)');
+            assert.ok(issue.description.endsWith('. Resolution: --muted: #777 (document.css:1)'));
+        });
+
+        it('follows SCSS imports to partials', async () => {
+            fs.writeFileSync(path.join(directory, '_colors.scss'), '$muted: #777;\n');
+            const fileName = path.join(directory, 'main.scss');
+            const [issue] = await contrast('@use "colors" as c;\n.a { color: c.$muted; background: #fff; }', 'scss', fileName);
+
+            assert.ok(issue.description.endsWith('. Resolution: $muted: #777 (_colors.scss:1)'));
+        });
+
+        it('reports rules whose variables cannot be resolved instead of passing them', async () => {
+            const [issue] = await contrast('.a { color: var(--missing); background: #fff; }', 'css');
+
+            assert.deepStrictEqual([issue.severity, issue.message], ['minor', 'Unable to evaluate color contrast']);
+            assert.ok(issue.description.endsWith('. Resolution: --missing is not defined'));
+        });
+    });
+
+    describe('embedded styles', () => {
+        const positions = (issues: AccessibilityIssue[], type: IssueType): string[] =>
+            ofType(issues, type).map(issue => `${issue.line}:${issue.column} ${issue.message}`);
+
+        it('audits <style> elements at their document offsets', async () => {
+            const issues = await audit('<p>Intro</p>\n<style>\n  button:focus { outline: none; }\n</style>', 'html');
+
+            assert.deepStrictEqual(positions(issues, IssueType.MISSING_FOCUS_INDICATOR),
+                ['2:17 Focus indicator removed: outline: none']);
+        });
+
+        it('checks the contrast of style attributes', async () => {
+            const issues = await audit('<main><p style="color: #777; background: #fff">Text</p></main>', 'html');
+
+            assert.deepStrictEqual(positions(issues, IssueType.LOW_COLOR_CONTRAST),
+                ['0:16 Low color contrast ratio: 4.48:1 (minimum 4.5:1)']);
+        });
+
+        it('reads JSX style objects, with unitless numbers in pixels', async () => {
+            const paragraph = (size: number): string =>
+                `const A = () => <p style={{ color: '#777', backgroundColor: '#fff', fontSize: ${size}, fontWeight: 700 }}>Hi</p>;`;
+
+            assert.deepStrictEqual(ofType(await audit(paragraph(19), 'javascriptreact'), IssueType.LOW_COLOR_CONTRAST), []);
+            assert.deepStrictEqual(positions(await audit(paragraph(16), 'javascriptreact'), IssueType.LOW_COLOR_CONTRAST),
+                ['0:28 Low color contrast ratio: 4.48:1 (minimum 4.5:1)']);
+        });
+
+        it('audits JSX <style> template literals', async () => {
+            const issues = await audit('const A = () => <style>{`\n  a:focus { outline: 0; }\n`}</style>;', 'javascriptreact');
+
+            assert.deepStrictEqual(positions(issues, IssueType.MISSING_FOCUS_INDICATOR), ['1:12 Focus indicator removed: outline: 0']);
+        });
+
+        it('resolves imports of embedded styles as CSS', async () => {
+            const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'a11yassist-'));
+            try {
+                fs.writeFileSync(path.join(directory, 'theme.css'), ':root { --muted: #777; }\n');
+                const text = '<style>@import "theme";\n.a { color: var(--muted); background: #fff; }</style>';
+                const [issue] = ofType(await audit(text, 'html', {}, path.join(directory, 'page.html')), IssueType.LOW_COLOR_CONTRAST);
+
+                assert.ok(issue.description.endsWith('. Resolution: --muted: #777 (theme.css:1)'));
+            } finally {
+                fs.rmSync(directory, { recursive: true, force: true });
+            }
+        });
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * Accessible Name Calculator Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for accessible name and description computation (accname 1.2)
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { AccessibleNameCalculator } from '../../utils/accessibleNameCalculator';
+import { ARIAValidator } from '../../utils/ariaValidator';
+import { HTMLParser } from '../../utils/htmlParser';
+import { JSXParser } from '../../utils/jsxParser';
+import { AccessibleNameResult } from '../../types';
+
+describe('AccessibleNameCalculator', () => {
+    const calculator = new AccessibleNameCalculator(new ARIAValidator());
+    const parser = new HTMLParser();
+
+    const nameOf = (html: string, id: string): AccessibleNameResult => {
+        const tree = parser.parse(html);
+        const element = tree.elements.find(candidate =>
+            candidate.attributes.some(attribute => attribute.name === 'id' && attribute.value === id));
+        assert.ok(element, `no element with id "${id}"`);
+        return calculator.compute(element, tree);
+    };
+
+    it('prefers aria-labelledby over aria-label and content', () => {
+        const result = nameOf('<span id="l1">Save</span><span id="l2">draft</span>' +
+            '<button id="b" aria-labelledby="l1 l2" aria-label="Ignored">Text</button>', 'b');
+
+        assert.strictEqual(result.name, 'Save draft');
+        assert.strictEqual(result.source, 'aria-labelledby');
+    });
+
+    it('uses aria-label before content', () => {
+        const result = nameOf('<button id="b" aria-label="Close">X</button>', 'b');
+
+        assert.strictEqual(result.name, 'Close');
+        assert.strictEqual(result.source, 'aria-label');
+    });
+
+    it('names form fields from explicit and wrapping labels', () => {
+        assert.strictEqual(nameOf('<label for="e">Email</label><input id="e" type="email">', 'e').name, 'Email');
+        assert.strictEqual(nameOf('<label>Phone <input id="p" type="tel"></label>', 'p').name, 'Phone');
+    });
+
+    it('names images from alt and buttons from their contents', () => {
+        const result = nameOf('<a id="home" href="/"><img src="logo.png" alt="Home"> page</a>', 'home');
+
+        assert.strictEqual(result.name, 'Home page');
+        assert.strictEqual(result.source, 'contents');
+    });
+
+    it('leaves hidden content out of the name', () => {
+        const result = nameOf('<button id="b"><span aria-hidden="true">★</span> Favourite</button>', 'b');
+
+        assert.strictEqual(result.name, 'Favourite');
+    });
+
+    it('falls back to title and reports no name when there is none', () => {
+        assert.strictEqual(nameOf('<input id="q" type="text" title="Search">', 'q').source, 'title');
+        assert.strictEqual(nameOf('<button id="b"></button>', 'b').source, 'none');
+    });
+
+    it('computes the description from aria-describedby', () => {
+        const result = nameOf('<input id="pw" type="password" aria-label="Password" aria-describedby="hint">' +
+            '<p id="hint">At least 12 characters</p>', 'pw');
+
+        assert.strictEqual(result.description, 'At least 12 characters');
+    });
+
+    it('treats hidden={false} in JSX as not hidden', () => {
+        const tree = new JSXParser().parse('<div hidden={false}><button>Save</button></div>', 'javascriptreact');
+        const [div, button] = tree.elements;
+
+        assert.strictEqual(calculator.isHidden(div), false);
+        assert.strictEqual(calculator.compute(button, tree).name, 'Save');
+        assert.strictEqual(calculator.isHidden(new JSXParser().parse('<div hidden={true} />', 'javascriptreact').elements[0]), true);
+    });
+});
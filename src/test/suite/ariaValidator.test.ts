@@ -0,0 +1,54 @@
+/**
+ * ARIA Validator Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for the WAI-ARIA role and attribute matrix
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { ARIAValidator } from '../../utils/ariaValidator';
+
+describe('ARIAValidator', () => {
+    const validator = new ARIAValidator();
+
+    it('rejects abstract and unknown roles', () => {
+        assert.strictEqual(validator.validateRole('button').isValid, true);
+        assert.strictEqual(validator.validateRole('widget').status, 'abstract');
+        assert.strictEqual(validator.validateRole('widget').isValid, false);
+        assert.strictEqual(validator.validateRole('buton').status, 'unknown');
+    });
+
+    it('lists the attributes a role requires', () => {
+        assert.deepStrictEqual(validator.getRequiredAttributes('checkbox'), ['aria-checked']);
+        assert.deepStrictEqual(validator.getRequiredAttributes('button'), []);
+    });
+
+    it('prohibits naming on roles that cannot be named', () => {
+        for (const role of ['generic', 'paragraph', 'presentation', 'none', 'code']) {
+            assert.ok(validator.getProhibitedAttributes(role).includes('aria-label'), role);
+            assert.strictEqual(validator.isAttributeSupported(role, 'aria-label'), false, role);
+        }
+    });
+
+    it('allows naming on blockquote and time', () => {
+        for (const role of ['blockquote', 'time']) {
+            assert.deepStrictEqual(validator.getProhibitedAttributes(role), [], role);
+            assert.strictEqual(validator.isAttributeSupported(role, 'aria-labelledby'), true, role);
+        }
+    });
+
+    it('supports role-specific attributes only on their roles', () => {
+        assert.strictEqual(validator.isAttributeSupported('button', 'aria-pressed'), true);
+        assert.strictEqual(validator.isAttributeSupported('link', 'aria-pressed'), false);
+        assert.strictEqual(validator.isAttributeSupported('link', 'aria-describedby'), true);
+    });
+
+    it('maps elements to their implicit roles', () => {
+        assert.strictEqual(validator.getImplicitRole('time', {}), 'time');
+        assert.strictEqual(validator.getImplicitRole('a', { href: '/' }), 'link');
+        assert.strictEqual(validator.getImplicitRole('a', {}), undefined);
+        assert.strictEqual(validator.getImplicitRole('input', { type: 'checkbox' }), 'checkbox');
+    });
+});
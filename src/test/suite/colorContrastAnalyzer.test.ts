@@ -0,0 +1,66 @@
+/**
+ * Color Contrast Analyzer Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for contrast ratios and alpha compositing
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { ColorContrastAnalyzer } from '../../utils/colorContrastAnalyzer';
+
+describe('ColorContrastAnalyzer', () => {
+    const analyzer = new ColorContrastAnalyzer();
+
+    it('computes the WCAG contrast ratio and thresholds', () => {
+        const result = analyzer.analyzeContrast('#000', 'white');
+
+        assert.strictEqual(result.contrastRatio, 21);
+        assert.strictEqual(result.passesAAA, true);
+        assert.strictEqual(analyzer.analyzeContrast('#777', '#fff').passesAA, false);
+        assert.strictEqual(analyzer.analyzeContrast('#777', '#fff').passesAALarge, true);
+    });
+
+    it('composites a translucent foreground over the background', () => {
+        const result = analyzer.analyzeContrast('rgba(0, 0, 0, 0.2)', '#fff');
+
+        assert.strictEqual(result.effectiveForeground, '#cccccc');
+        assert.strictEqual(result.contrastRatio, 1.61);
+        assert.strictEqual(result.contrastRange, undefined);
+    });
+
+    it('reports the worst and best case when the backdrop is unknown', () => {
+        const result = analyzer.analyzeContrast('#222', 'rgb(0 0 0 / 50%)');
+
+        assert.deepStrictEqual(result.contrastRange, { worst: 1, best: 4 });
+        assert.strictEqual(result.contrastRatio, 1);
+    });
+
+    it('marks the range as estimated when both colors are translucent', () => {
+        const result = analyzer.analyzeContrast('rgb(0 0 0 / 80%)', 'rgb(255 255 255 / 50%)');
+
+        assert.strictEqual(result.contrastRange?.estimated, true);
+        assert.ok(result.contrastRange.worst < result.contrastRange.best);
+    });
+
+    it('composites a translucent background over a known backdrop', () => {
+        const result = analyzer.analyzeContrast('#222', 'rgb(0 0 0 / 50%)', '#fff');
+
+        assert.strictEqual(result.effectiveBackground, '#808080');
+        assert.strictEqual(result.contrastRatio, 4);
+        assert.strictEqual(result.contrastRange, undefined);
+    });
+
+    it('recognises fully transparent colors', () => {
+        assert.strictEqual(analyzer.isTransparent('transparent'), true);
+        assert.strictEqual(analyzer.isTransparent('rgb(0 0 0 / 0)'), true);
+        assert.strictEqual(analyzer.isTransparent('rgb(0 0 0 / 1%)'), false);
+        assert.strictEqual(analyzer.isTransparent('var(--bg)'), false);
+    });
+
+    it('names the color it cannot parse', () => {
+        assert.throws(() => analyzer.analyzeContrast('var(--text)', '#fff'), /"var\(--text\)"/);
+        assert.throws(() => analyzer.analyzeContrast('#000', '#fff', 'inherit'), /"inherit"/);
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * CSS Color Parser Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for CSS Color 4/5 parsing and conversion to sRGB
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { CSSColorParser } from '../../utils/cssColorParser';
+import { RGBAColor } from '../../types';
+
+describe('CSSColorParser', () => {
+    const parser = new CSSColorParser();
+
+    const assertColor = (value: string, expected: [number, number, number, number?]): void => {
+        const color = parser.parse(value) as RGBAColor;
+        assert.ok(color, `"${value}" did not parse`);
+
+        const actual = [color.r, color.g, color.b, color.alpha];
+        [...expected.slice(0, 3), expected[3] ?? 1].forEach((channel, index) => {
+            assert.ok(Math.abs(actual[index] - (channel as number)) < 0.5,
+                `"${value}" gave ${actual.map(c => c.toFixed(3)).join(', ')}`);
+        });
+    };
+
+    it('parses hex colors with and without alpha', () => {
+        assertColor('#0f0', [0, 255, 0]);
+        assertColor('#336699', [51, 102, 153]);
+        assertColor('#f008', [255, 0, 0, 0.533]);
+        assertColor('#00000080', [0, 0, 0, 0.502]);
+    });
+
+    it('parses named colors and transparent', () => {
+        assertColor('rebeccapurple', [102, 51, 153]);
+        assertColor('transparent', [0, 0, 0, 0]);
+    });
+
+    it('parses rgb, hsl and hwb in legacy and space syntax', () => {
+        assertColor('rgba(255, 0, 0, 0.5)', [255, 0, 0, 0.5]);
+        assertColor('rgb(0 128 255 / 25%)', [0, 128, 255, 0.25]);
+        assertColor('hsl(120 100% 25%)', [0, 127.5, 0]);
+        assertColor('hsl(0.5turn, 100%, 50%)', [0, 255, 255]);
+        assertColor('hwb(0 0% 0%)', [255, 0, 0]);
+    });
+
+    it('converts Lab and LCH to sRGB', () => {
+        assertColor('lab(100 0 0)', [255, 255, 255]);
+        assertColor('lab(50% 40 -20)', [170.94, 90.422, 154.172]);
+        assertColor('lch(52.2345 72.2 56.2)', [197.924, 92.664, 6.26]);
+    });
+
+    it('converts OKLab and OKLCH to sRGB', () => {
+        assertColor('oklab(62.8% 0.225 0.126)', [255, 0, 0]);
+        assertColor('oklch(62.8% 0.2577 29.23)', [255, 0, 0.066]);
+        assertColor('oklch(0.7 0.1 200 / 0.3)', [64.217, 177.034, 182.851, 0.3]);
+    });
+
+    it('mixes colors with color-mix()', () => {
+        assertColor('color-mix(in srgb, red, blue)', [127.5, 0, 127.5]);
+        assertColor('color-mix(in oklch, white, black)', [99.086, 99.086, 99.086]);
+        assertColor('color-mix(in srgb, red 30%, blue 30%)', [127.5, 0, 127.5, 0.6]);
+    });
+
+    it('returns null for values that are not a fixed color', () => {
+        assert.strictEqual(parser.parse('var(--brand)'), null);
+        assert.strictEqual(parser.parse('currentColor'), null);
+        assert.strictEqual(parser.parse('#12'), null);
+        assert.strictEqual(parser.parse('rgb(1 2)'), null);
+    });
+});
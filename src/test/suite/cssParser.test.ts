@@ -0,0 +1,70 @@
+/**
+ * CSS Parser Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for parsing CSS, SCSS and LESS into style rules
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { CSSParser } from '../../utils/cssParser';
+
+describe('CSSParser', () => {
+    const parser = new CSSParser();
+
+    it('splits rules into selectors and declarations with source offsets', () => {
+        const text = 'a, button:focus { color: red; outline: none !important }';
+        const [rule] = parser.parse(text).rules;
+
+        assert.deepStrictEqual(rule.selectors, ['a', 'button:focus']);
+        assert.deepStrictEqual(rule.declarations.map(declaration => [declaration.property, declaration.value, declaration.important]),
+            [['color', 'red', false], ['outline', 'none', true]]);
+        assert.strictEqual(text.slice(rule.declarations[0].start, rule.declarations[0].end), 'color: red');
+        assert.strictEqual(text.slice(rule.start, rule.end), text);
+    });
+
+    it('flattens nested SCSS and LESS rules', () => {
+        const scss = parser.parse('.nav { a { color: red; &:focus { outline: 0; } } }', 'scss');
+        const less = parser.parse('.card, .panel { .title { color: red; } }', 'less');
+
+        assert.deepStrictEqual(scss.rules.map(rule => rule.selectors), [['.nav'], ['.nav a'], ['.nav a:focus']]);
+        assert.deepStrictEqual(less.rules[1].selectors, ['.card .title', '.panel .title']);
+    });
+
+    it('records enclosing at-rule preludes', () => {
+        const { rules } = parser.parse('@media (min-width: 40em) { @supports (display: grid) { a { color: red; } } }');
+
+        assert.deepStrictEqual(rules[0].atRules, ['@media (min-width: 40em)', '@supports (display: grid)']);
+    });
+
+    it('keeps top-level variables separate from rules', () => {
+        const { rules, declarations } = parser.parse('$focus: #005fcc !default;\n@gap: 4px;\na { color: $focus; }', 'scss');
+
+        assert.deepStrictEqual(declarations.map(declaration => [declaration.property, declaration.value]),
+            [['$focus', '#005fcc'], ['@gap', '4px']]);
+        assert.strictEqual(rules.length, 1);
+    });
+
+    it('ignores comments and braces inside strings and comments', () => {
+        const { rules } = parser.parse(
+            '/* a { outline: none } */\n// b { color: red }\na::before { content: "}"; color: red; }', 'scss');
+
+        assert.strictEqual(rules.length, 1);
+        assert.deepStrictEqual(rules[0].declarations.map(declaration => declaration.property), ['content', 'color']);
+        assert.strictEqual(parser.parse('// a { color: red }\nb { color: red }', 'css').rules.length, 2);
+    });
+
+    it('keeps // inside url() in SCSS', () => {
+        const [rule] = parser.parse('a { background: url(http://example.com/a.png); color: red; }', 'scss').rules;
+
+        assert.deepStrictEqual(rule.declarations.map(declaration => declaration.value),
+            ['url(http://example.com/a.png)', 'red']);
+    });
+
+    it('adds the offset of embedded stylesheets', () => {
+        const [rule] = parser.parse('a { color: red; }', 'css', 100).rules;
+
+        assert.deepStrictEqual([rule.start, rule.declarations[0].start], [100, 104]);
+    });
+});
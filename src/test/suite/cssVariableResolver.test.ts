@@ -0,0 +1,94 @@
+/**
+ * CSS Variable Resolver Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for custom property and SCSS/LESS variable substitution
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { CSSParser } from '../../utils/cssParser';
+import { CSSVariableResolver } from '../../utils/cssVariableResolver';
+
+describe('CSSVariableResolver', () => {
+    const parser = new CSSParser();
+
+    const createResolver = (files: Array<[string, string, string]>): CSSVariableResolver => {
+        const resolver = new CSSVariableResolver();
+        for (const [fileName, languageId, text] of files) {
+            resolver.addStyleSheet(parser.parse(text, languageId), text, fileName);
+        }
+        return resolver;
+    };
+
+    const resolver = createResolver([
+        ['_variables.scss', 'scss', '$gray-600: #6c757d;\n$text: $gray-600;\n'],
+        ['_index.scss', 'scss', '@use "variables" as v;\n:root {\n  --text-muted: #{v.$gray-600};\n' +
+            '  --a: var(--b);\n  --b: var(--a);\n}\n']
+    ]);
+
+    it('follows custom properties into SCSS modules', () => {
+        assert.deepStrictEqual(resolver.resolve('var(--text-muted)'), {
+            value: '#6c757d',
+            chain: ['--text-muted: #{v.$gray-600} (_index.scss:3)', '$gray-600: #6c757d (_variables.scss:1)'],
+            resolved: true
+        });
+        assert.strictEqual(resolver.resolve('$text').value, '#6c757d');
+    });
+
+    it('resolves LESS variables', () => {
+        const less = createResolver([['vars.less', 'less', '@brand: #336699;\n@link: @brand;\n']]);
+
+        assert.deepStrictEqual(less.resolve('@link').chain,
+            ['@link: @brand (vars.less:2)', '@brand: #336699 (vars.less:1)']);
+    });
+
+    it('prefers custom properties set in the same rule', () => {
+        const result = resolver.resolve('var(--text-muted)',
+            [{ property: '--text-muted', value: '#000', important: false, start: 0, end: 0 }]);
+
+        assert.strictEqual(result.value, '#000');
+        assert.deepStrictEqual(result.chain, ['--text-muted: #000 (same rule)']);
+    });
+
+    it('uses var() fallbacks and reports undefined variables', () => {
+        assert.strictEqual(resolver.resolve('var(--nope, #999)').value, '#999');
+
+        const result = resolver.resolve('var(--nope)');
+        assert.strictEqual(result.resolved, false);
+        assert.deepStrictEqual(result.chain, ['--nope is not defined']);
+    });
+
+    it('stops at reference cycles', () => {
+        const result = resolver.resolve('var(--a)');
+
+        assert.strictEqual(result.resolved, false);
+        assert.strictEqual(result.chain[result.chain.length - 1], 'variables refer to each other in a cycle');
+    });
+
+    it('treats a variable defined as itself as unresolved', () => {
+        const self = createResolver([['vars.scss', 'scss', '$text: $text;\n:root {\n  --loop: var(--loop);\n}\n']]);
+
+        assert.strictEqual(self.resolve('$text').resolved, false);
+        assert.strictEqual(self.resolve('var(--loop)').resolved, false);
+    });
+
+    it('leaves url() and quoted strings alone', () => {
+        const result = createResolver([['vars.less', 'less', '@2x: #fff;\n']])
+            .resolve('url(logo@2x.png) "icon@2x.svg" @2x');
+
+        assert.deepStrictEqual(result, {
+            value: 'url(logo@2x.png) "icon@2x.svg" #fff',
+            chain: ['@2x: #fff (vars.less:1)'],
+            resolved: true
+        });
+    });
+
+    it('lists local imports only', () => {
+        const text = '@import "base", "theme";\n@use "sass:math";\n@import url(x.css);\n' +
+            '@import "https://cdn.example.com/x.css";\n// @import "commented";\n@forward "src/list";';
+
+        assert.deepStrictEqual(resolver.getImports(text), ['base', 'theme', 'src/list']);
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * HTML Parser Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for the HTML element tree tokenizer
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { HTMLParser } from '../../utils/htmlParser';
+import { getAttribute, getTextContent } from '../../utils/markupTree';
+
+describe('HTMLParser', () => {
+    const parser = new HTMLParser();
+
+    it('builds nested elements with exact offsets', () => {
+        const text = '<div id="a"><span>Hi</span></div>';
+        const tree = parser.parse(text);
+        const [div, span] = tree.elements;
+
+        assert.deepStrictEqual(tree.elements.map(element => element.tagName), ['div', 'span']);
+        assert.strictEqual(span.parent, div);
+        assert.strictEqual(text.slice(div.start, div.openTagEnd), '<div id="a">');
+        assert.strictEqual(text.slice(span.start, span.end), '<span>Hi</span>');
+    });
+
+    it('reads quoted, unquoted, valueless and multi-line attributes', () => {
+        const text = '<input\n  type=checkbox\n  checked\n  aria-label=\'Accept &amp; continue\'>';
+        const input = parser.parse(text).elements[0];
+
+        assert.strictEqual(getAttribute(input, 'type')?.value, 'checkbox');
+        assert.strictEqual(getAttribute(input, 'checked')?.value, '');
+        assert.strictEqual(getAttribute(input, 'aria-label')?.value, 'Accept & continue');
+        assert.strictEqual(text.slice(getAttribute(input, 'type')?.start, getAttribute(input, 'type')?.end), 'type=checkbox');
+    });
+
+    it('does not give void elements children', () => {
+        const tree = parser.parse('<p><img src="a.png"><br>Text</p>');
+        const [p, img, br] = tree.elements;
+
+        assert.strictEqual(img.parent, p);
+        assert.strictEqual(br.parent, p);
+        assert.strictEqual(img.children.length, 0);
+    });
+
+    it('closes implied end tags', () => {
+        const tree = parser.parse('<ul><li>One<li>Two</ul><p>First<div>Block</div>');
+        const items = tree.elements.filter(element => element.tagName === 'li');
+        const div = tree.elements.find(element => element.tagName === 'div');
+
+        assert.strictEqual(items.length, 2);
+        assert.strictEqual(items[1].parent?.tagName, 'ul');
+        assert.notStrictEqual(div?.parent?.tagName, 'p');
+    });
+
+    it('skips comments, doctypes and raw text content', () => {
+        const tree = parser.parse('<!DOCTYPE html><!-- <img> --><script>if (a < b) { x("<p>"); }</script><style>p { color: red }</style><p>Text</p>');
+
+        assert.deepStrictEqual(tree.elements.map(element => element.tagName), ['script', 'style', 'p']);
+        assert.strictEqual(tree.elements[0].children.length, 0);
+    });
+
+    it('keeps the text of raw text elements other than script and style', () => {
+        const tree = parser.parse('<title>Home &amp; Garden</title>');
+
+        assert.strictEqual(getTextContent(tree.elements[0]), 'Home & Garden');
+    });
+});
@@ -0,0 +1,59 @@
+/**
+ * Id Index Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for indexing element ids and the attributes that reference them
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { IdIndex } from '../../utils/idIndex';
+import { ARIAValidator } from '../../utils/ariaValidator';
+import { HTMLParser } from '../../utils/htmlParser';
+import { JSXParser } from '../../utils/jsxParser';
+import { MarkupDocument } from '../../types';
+
+describe('IdIndex', () => {
+    const validator = new ARIAValidator();
+    const index = (tree: MarkupDocument): IdIndex => new IdIndex(tree, validator);
+
+    it('resolves duplicated ids to the first element, as the DOM does', () => {
+        const tree = new HTMLParser().parse('<p id="a">One</p><span id="a">Two</span>');
+        const ids = index(tree);
+
+        assert.strictEqual(ids.getElementById('a')?.tagName, 'p');
+        assert.deepStrictEqual(ids.getElementsById('a').map(element => element.tagName), ['p', 'span']);
+        assert.strictEqual(ids.getElementById('missing'), undefined);
+    });
+
+    it('indexes HTML and ARIA id references, one per listed id', () => {
+        const tree = new HTMLParser().parse(
+            '<label for="q">Search</label><input id="q" list="s" aria-describedby="hint q">' +
+            '<td headers="h1 h2"></td><div data-target="q"></div>');
+        const ids = index(tree);
+
+        assert.deepStrictEqual(ids.getReferences('q').map(reference => reference.attribute.name), ['for', 'aria-describedby']);
+        assert.deepStrictEqual(ids.getReferences('s').map(reference => reference.element.tagName), ['input']);
+        assert.deepStrictEqual(ids.getReferences('h2').map(reference => reference.id), ['h2']);
+    });
+
+    it('skips dynamic ids and references', () => {
+        const tree = new JSXParser().parse('<><input id={inputId} aria-describedby={hintId} /><p id="hint" /></>', 'javascriptreact');
+        const ids = index(tree);
+
+        assert.strictEqual(ids.getElementById('inputId'), undefined);
+        assert.deepStrictEqual(ids.getReferences('hintId'), []);
+    });
+
+    it('reports duplicates only among elements that can render together', () => {
+        const html = index(new HTMLParser().parse('<p id="a"></p><p id="a"></p><p id="b"></p>'));
+        const jsx = index(new JSXParser().parse(
+            'const A = () => open ? <p id="x" /> : <div id="x" />;\n' +
+            'const B = () => <><p id="y" /><p id="y" /></>;\n' +
+            'const C = () => <p id="y" />;', 'javascriptreact'));
+
+        assert.deepStrictEqual([...html.getDuplicates().keys()], ['a']);
+        assert.deepStrictEqual([...jsx.getDuplicates()].map(([id, elements]) => [id, elements.length]), [['y', 2]]);
+    });
+});
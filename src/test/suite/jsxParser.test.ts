@@ -0,0 +1,93 @@
+/**
+ * JSX Parser Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for building element trees from JSX/TSX
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { JSXParser } from '../../utils/jsxParser';
+import { getAttribute, getTextContent } from '../../utils/markupTree';
+
+describe('JSXParser', () => {
+    const parser = new JSXParser();
+
+    it('converts JSX elements into a tree in source order', () => {
+        const text = 'const App = () => <main><h1>Title</h1><img src="a.png" alt="" /></main>;';
+        const tree = parser.parse(text, 'javascriptreact');
+
+        assert.deepStrictEqual(tree.elements.map(element => element.tagName), ['main', 'h1', 'img']);
+        assert.strictEqual(tree.elements[1].parent, tree.elements[0]);
+        assert.strictEqual(text.slice(tree.elements[2].start, tree.elements[2].end), '<img src="a.png" alt="" />');
+    });
+
+    it('maps JSX prop names to HTML attribute names', () => {
+        const tree = parser.parse('<label htmlFor="email" className="field">Email</label>', 'typescriptreact');
+        const label = tree.elements[0];
+
+        assert.strictEqual(getAttribute(label, 'for')?.value, 'email');
+        assert.strictEqual(getAttribute(label, 'class')?.value, 'field');
+    });
+
+    it('keeps literal expressions static and marks other expressions dynamic', () => {
+        const tree = parser.parse('<img alt={"Logo"} src={logoUrl} width={-1} />', 'javascriptreact');
+        const img = tree.elements[0];
+
+        assert.strictEqual(getAttribute(img, 'alt')?.value, 'Logo');
+        assert.strictEqual(getAttribute(img, 'alt')?.isDynamic, false);
+        assert.strictEqual(getAttribute(img, 'src')?.isDynamic, true);
+        assert.strictEqual(getAttribute(img, 'src')?.value, 'logoUrl');
+        assert.strictEqual(getAttribute(img, 'width')?.value, '-1');
+    });
+
+    it('records spread attributes and components', () => {
+        const tree = parser.parse('<Button {...props}><span /></Button>', 'javascriptreact');
+
+        assert.strictEqual(tree.elements[0].isComponent, true);
+        assert.strictEqual(tree.elements[0].hasSpreadAttributes, true);
+        assert.strictEqual(tree.elements[1].isComponent, false);
+    });
+
+    it('attaches JSX nested in expressions to the enclosing element', () => {
+        const tree = parser.parse('<ul>{items.map(item => <li key={item.id}>{item.name}</li>)}</ul>', 'javascriptreact');
+        const li = tree.elements.find(element => element.tagName === 'li');
+
+        assert.strictEqual(li?.parent?.tagName, 'ul');
+    });
+
+    it('treats literal children as text and other expressions as dynamic text', () => {
+        const tree = parser.parse('<button>Save {"draft"}</button>', 'javascriptreact');
+        const dynamic = parser.parse('<button>{label}</button>', 'javascriptreact');
+
+        assert.strictEqual(getTextContent(tree.elements[0]).replace(/\s+/g, ' ').trim(), 'Save draft');
+        assert.ok(dynamic.elements[0].children.some(child => child.kind === 'text' && child.isDynamic));
+    });
+
+    it('adds px only to unitless numbers of length style properties', () => {
+        const declarations = parser.parseStyleObject(
+            "{ fontSize: 19, fontWeight: 700, lineHeight: 1.5, opacity: 0.8, zIndex: 2, flex: 1, marginTop: -4, outlineOffset: 2 }");
+
+        assert.deepStrictEqual(declarations.map(declaration => [declaration.property, declaration.value]), [
+            ['font-size', '19px'],
+            ['font-weight', '700'],
+            ['line-height', '1.5'],
+            ['opacity', '0.8'],
+            ['z-index', '2'],
+            ['flex', '1'],
+            ['margin-top', '-4px'],
+            ['outline-offset', '2px']
+        ]);
+    });
+
+    it('keeps literal style strings, skips computed values and records offsets', () => {
+        const source = "{ color: '#777', background: theme.bg, '--gap': `4px` }";
+        const declarations = parser.parseStyleObject(source, 100);
+
+        assert.deepStrictEqual(declarations.map(declaration => [declaration.property, declaration.value]),
+            [['color', '#777'], ['--gap', '4px']]);
+        assert.strictEqual(source.slice(declarations[0].start - 100, declarations[0].end - 100), "color: '#777'");
+        assert.deepStrictEqual(parser.parseStyleObject('styles.button'), []);
+    });
+});
@@ -0,0 +1,48 @@
+/**
+ * Language Tag Validator Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for validating lang attribute values as BCP 47 language tags
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { LanguageTagValidator } from '../../utils/languageTagValidator';
+
+describe('LanguageTagValidator', () => {
+    const validator = new LanguageTagValidator();
+
+    it('accepts well-formed tags with script, region, variant, extension and private use subtags', () => {
+        for (const tag of ['en', 'en-CA', 'zh-Hant-TW', 'es-419', 'sl-rozaj-biske', 'de-DE-u-co-phonebk', 'en-x-custom',
+            'x-whatever', 'yue', 'i-klingon', '']) {
+            assert.strictEqual(validator.validate(tag).isValid, true, tag);
+        }
+    });
+
+    it('rejects malformed tags and unregistered two-letter languages', () => {
+        for (const tag of ['e', 'english-us', 'en-', 'en--CA', 'abcde', 'en-CA-x']) {
+            assert.strictEqual(validator.validate(tag).isValid, false, tag);
+        }
+
+        assert.deepStrictEqual(validator.validate('qq'), {
+            isValid: false,
+            tag: 'qq',
+            recommendation: '"qq" is not an ISO 639-1 language code'
+        });
+    });
+
+    it('keeps deprecated language subtags valid but offers the replacement tag', () => {
+        const result = validator.validate('iw-IL');
+
+        assert.strictEqual(result.isValid, true);
+        assert.strictEqual(result.replacement, 'he-IL');
+        assert.strictEqual(result.recommendation, '"iw" is deprecated; use "he"');
+    });
+
+    it('suggests corrections for underscores and language names', () => {
+        assert.strictEqual(validator.validate('en_US').recommendation, 'Separate subtags with hyphens: "en-US"');
+        assert.strictEqual(validator.validate('French').recommendation, 'Use the language code "fr" instead of the language name');
+        assert.strictEqual(validator.validate('en US').recommendation, 'Use a BCP 47 language tag such as "en", "en-CA" or "fr"');
+    });
+});
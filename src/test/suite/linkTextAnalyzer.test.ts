@@ -0,0 +1,51 @@
+/**
+ * Link Text Analyzer Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for judging generic, URL and new-window link text
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { LinkTextAnalyzer } from '../../utils/linkTextAnalyzer';
+
+describe('LinkTextAnalyzer', () => {
+    const analyzer = new LinkTextAnalyzer();
+
+    it('recognises generic phrases regardless of case, spacing and punctuation', () => {
+        assert.strictEqual(analyzer.isGeneric('Click  HERE', 'en'), true);
+        assert.strictEqual(analyzer.isGeneric('Read more…', 'en-GB'), true);
+        assert.strictEqual(analyzer.isGeneric('Learn more »', 'en'), true);
+        assert.strictEqual(analyzer.isGeneric('Read more about pricing', 'en'), false);
+    });
+
+    it('uses the phrase list of the link language', () => {
+        assert.strictEqual(analyzer.isGeneric('Cliquez ici', 'fr-CA'), true);
+        assert.strictEqual(analyzer.isGeneric('hier', 'de'), true);
+        assert.strictEqual(analyzer.isGeneric('hier', 'en'), false);
+        assert.strictEqual(analyzer.isGeneric('here', 'ja'), false);
+    });
+
+    it('adds configured phrases to the built-in lists and new languages', () => {
+        const custom = new LinkTextAnalyzer({ en: ['Tap here'], 'nl-BE': ['klik hier'] });
+
+        assert.strictEqual(custom.isGeneric('tap here', 'en-US'), true);
+        assert.strictEqual(custom.isGeneric('click here', 'en'), true);
+        assert.strictEqual(custom.isGeneric('Klik hier', 'nl'), true);
+        assert.strictEqual(analyzer.isGeneric('tap here', 'en'), false);
+    });
+
+    it('recognises bare URLs as link text', () => {
+        assert.strictEqual(analyzer.isUrl('https://example.com/pricing'), true);
+        assert.strictEqual(analyzer.isUrl(' www.example.com '), true);
+        assert.strictEqual(analyzer.isUrl('Pricing at example.com'), false);
+    });
+
+    it('finds new-window warnings in the link language or English', () => {
+        assert.strictEqual(analyzer.warnsOfNewWindow('Report (opens in a new tab)', 'en'), true);
+        assert.strictEqual(analyzer.warnsOfNewWindow('Rapport (nouvel onglet)', 'fr'), true);
+        assert.strictEqual(analyzer.warnsOfNewWindow('Bericht, new window', 'de'), true);
+        assert.strictEqual(analyzer.warnsOfNewWindow('Annual report', 'en'), false);
+    });
+});
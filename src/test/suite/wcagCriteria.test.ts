@@ -0,0 +1,59 @@
+/**
+ * WCAG Criteria Tests
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Unit tests for WCAG version filtering and issue-to-criterion mapping
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { WCAGCriteria } from '../../utils/wcagCriteria';
+import { IssueType, WCAGLevel, WCAGVersion } from '../../types';
+
+describe('WCAGCriteria', () => {
+    const criteria = new WCAGCriteria();
+
+    it('counts the success criteria of each version and level', () => {
+        assert.deepStrictEqual(
+            [WCAGVersion.WCAG_2_0, WCAGVersion.WCAG_2_1, WCAGVersion.WCAG_2_2].map(version => [
+                criteria.getCriteria(version, WCAGLevel.A).length,
+                criteria.getCriteria(version, WCAGLevel.AA).length,
+                criteria.getCriteria(version).length
+            ]),
+            [[25, 38, 61], [30, 50, 78], [31, 55, 86]]
+        );
+    });
+
+    it('knows which versions a criterion belongs to', () => {
+        assert.deepStrictEqual(criteria.getVersions('4.1.1'), [WCAGVersion.WCAG_2_0, WCAGVersion.WCAG_2_1]);
+        assert.deepStrictEqual(criteria.getVersions('2.5.8'), [WCAGVersion.WCAG_2_2]);
+        assert.strictEqual(criteria.appliesTo('1.4.11', WCAGVersion.WCAG_2_0), false);
+        assert.strictEqual(criteria.appliesTo('9.9.9', WCAGVersion.WCAG_2_2), false);
+    });
+
+    it('maps duplicate ids to a criterion of every version', () => {
+        assert.strictEqual(criteria.getCriterionForIssue(IssueType.DUPLICATE_ID, WCAGVersion.WCAG_2_0), '4.1.1');
+        assert.strictEqual(criteria.getCriterionForIssue(IssueType.DUPLICATE_ID, WCAGVersion.WCAG_2_1), '4.1.1');
+        assert.strictEqual(criteria.getCriterionForIssue(IssueType.DUPLICATE_ID, WCAGVersion.WCAG_2_2), '1.3.1');
+    });
+
+    it('keeps the default criterion when none applies to the version', () => {
+        assert.strictEqual(criteria.getCriterionForIssue(IssueType.TARGET_SIZE, WCAGVersion.WCAG_2_1), '2.5.8');
+        assert.strictEqual(criteria.getCriterionForIssue(IssueType.LOW_COLOR_CONTRAST), '1.4.3');
+    });
+
+    it('only lists tested criteria of the requested version', () => {
+        const tested = criteria.getTestedCriteria(WCAGVersion.WCAG_2_1).map(criterion => criterion.id);
+
+        assert.ok(tested.includes('1.4.3'));
+        assert.ok(!tested.includes('2.5.8'));
+    });
+
+    it('links to the quick reference filtered to the version', () => {
+        assert.strictEqual(criteria.getDocumentationLink('1.4.3', WCAGVersion.WCAG_2_2),
+            'https://www.w3.org/WAI/WCAG22/quickref/#contrast-minimum');
+        assert.strictEqual(criteria.getDocumentationLink('1.4.3', WCAGVersion.WCAG_2_1),
+            'https://www.w3.org/WAI/WCAG22/quickref/?versions=2.1#contrast-minimum');
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * VS Code API Stub
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Minimal stand-in for the vscode module so the auditor runs under the Node.js test runner
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Module from 'module';
+
+/**
+ * Settings returned by workspace.getConfiguration, keyed without the a11yassist prefix
+ */
+const settings: Record<string, unknown> = {};
+
+class Position {
+    constructor(public readonly line: number, public readonly character: number) {}
+}
+
+class Range {
+    public readonly start: Position;
+    public readonly end: Position;
+
+    constructor(start: Position | number, end: Position | number, endLine?: number, endCharacter?: number) {
+        if (typeof start === 'number' && typeof end === 'number') {
+            this.start = new Position(start, end);
+            this.end = new Position(endLine ?? start, endCharacter ?? end);
+        } else {
+            this.start = start as Position;
+            this.end = end as Position;
+        }
+    }
+}
+
+class Diagnostic {
+    public source?: string;
+    public code?: string;
+    public relatedInformation?: unknown[];
+
+    constructor(public range: Range, public message: string, public severity: number) {}
+}
+
+class DiagnosticRelatedInformation {
+    constructor(public location: unknown, public message: string) {}
+}
+
+class Location {
+    constructor(public uri: unknown, public range: Range) {}
+}
+
+interface Uri {
+    fsPath: string;
+}
+
+const file = (fsPath: string): Uri => ({ fsPath });
+
+const vscodeStub = {
+    Position,
+    Range,
+    Diagnostic,
+    DiagnosticRelatedInformation,
+    Location,
+    DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+    ProgressLocation: { SourceControl: 1, Window: 10, Notification: 15 },
+    Uri: {
+        file,
+        joinPath: (base: Uri, ...segments: string[]): Uri => file(path.join(base.fsPath, ...segments))
+    },
+    languages: {
+        createDiagnosticCollection: () => ({ set: () => undefined, clear: () => undefined, dispose: () => undefined })
+    },
+    workspace: {
+        workspaceFolders: undefined,
+        getConfiguration: () => ({
+            get: <T>(key: string, defaultValue?: T): T | undefined =>
+                key in settings ? settings[key] as T : defaultValue
+        }),
+        fs: {
+            readFile: async (uri: Uri): Promise<Uint8Array> => fs.promises.readFile(uri.fsPath)
+        }
+    },
+    window: {
+        activeTextEditor: undefined as { document: unknown } | undefined,
+        showWarningMessage: () => undefined,
+        withProgress: async <T>(options: unknown, task: (progress: { report: () => void }) => Promise<T>): Promise<T> =>
+            task({ report: () => undefined })
+    }
+};
+
+/**
+ * Replace the a11yassist settings seen by code under test
+ */
+export function setConfiguration(values: Record<string, unknown>): void {
+    Object.keys(settings).forEach(key => delete settings[key]);
+    Object.assign(settings, values);
+}
+
+/**
+ * Open a document in the stub's active editor
+ */
+export function openDocument(text: string, languageId: string, fileName: string): void {
+    const lineStarts = [0, ...[...text.matchAll(/\n/g)].map(match => (match.index ?? 0) + 1)];
+
+    const positionAt = (offset: number): Position => {
+        const clamped = Math.max(0, Math.min(offset, text.length));
+        const line = lineStarts.filter(start => start <= clamped).length - 1;
+        return new Position(line, clamped - lineStarts[line]);
+    };
+    const offsetAt = (position: Position): number => lineStarts[position.line] + position.character;
+
+    vscodeStub.window.activeTextEditor = {
+        document: {
+            uri: file(fileName),
+            fileName,
+            languageId,
+            lineCount: lineStarts.length,
+            getText: (range?: Range) => range ? text.slice(offsetAt(range.start), offsetAt(range.end)) : text,
+            positionAt,
+            offsetAt,
+            lineAt: (line: number) => ({ text: text.slice(lineStarts[line], (lineStarts[line + 1] ?? text.length + 1) - 1) })
+        }
+    };
+}
+
+// Serve the stub wherever 'vscode' is required
+const loader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = loader._load;
+loader._load = function (request: string, ...rest: unknown[]): unknown {
+    return request === 'vscode' ? vscodeStub : load.call(this, request, ...rest);
+};
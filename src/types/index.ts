@@ -19,7 +19,7 @@ export enum AccessibilitySeverity {
 }
 
 /**
- * WCAG 2.1 Conformance Levels
+ * WCAG Conformance Levels
  */
 export enum WCAGLevel {
     A = 'A',
@@ -28,7 +28,29 @@ export enum WCAGLevel {
 }
 
 /**
- * Accessibility issue types based on WCAG 2.1 guidelines
+ * WCAG versions the auditor can target
+ */
+export enum WCAGVersion {
+    WCAG_2_0 = '2.0',
+    WCAG_2_1 = '2.1',
+    WCAG_2_2 = '2.2'
+}
+
+/**
+ * WCAG success criterion
+ * obsoleteIn is the first version that no longer contains the criterion
+ */
+export interface SuccessCriterion {
+    id: string;
+    title: string;
+    slug: string;
+    level: WCAGLevel;
+    since: WCAGVersion;
+    obsoleteIn?: WCAGVersion;
+}
+
+/**
+ * Accessibility issue types based on WCAG 2.x guidelines
  */
 export enum IssueType {
     MISSING_ALT_TEXT = 'missing-alt-text',
@@ -44,7 +66,30 @@ export enum IssueType {
     MISSING_ROLE = 'missing-role',
     REDUNDANT_TITLE = 'redundant-title',
     EMPTY_LINK = 'empty-link',
-    EMPTY_BUTTON = 'empty-button'
+    EMPTY_BUTTON = 'empty-button',
+    LANDMARK_STRUCTURE = 'landmark-structure',
+    DUPLICATE_ID = 'duplicate-id',
+    TABLE_STRUCTURE = 'table-structure',
+    MISSING_CAPTIONS = 'missing-captions',
+    MISSING_TRANSCRIPT = 'missing-transcript',
+    AUTOPLAY_AUDIO = 'autoplay-audio',
+    MISSING_FRAME_TITLE = 'missing-frame-title',
+    MISSING_OBJECT_ALTERNATIVE = 'missing-object-alternative',
+    FORM_GROUPING = 'form-grouping',
+    INVALID_AUTOCOMPLETE = 'invalid-autocomplete',
+    MISSING_REQUIRED_STATE = 'missing-required-state',
+    MISSING_ERROR_MESSAGE = 'missing-error-message',
+    AMBIGUOUS_LINK_TEXT = 'ambiguous-link-text',
+    NEW_WINDOW_WITHOUT_WARNING = 'new-window-without-warning',
+    POOR_ALT_TEXT = 'poor-alt-text',
+    MISSING_PAGE_TITLE = 'missing-page-title',
+    VIEWPORT_ZOOM_DISABLED = 'viewport-zoom-disabled',
+    META_REFRESH = 'meta-refresh',
+    INVALID_LANG_ATTRIBUTE = 'invalid-lang-attribute',
+    TARGET_SIZE = 'target-size',
+    FOCUS_NOT_OBSCURED = 'focus-not-obscured',
+    DRAGGING_MOVEMENT = 'dragging-movement',
+    INACCESSIBLE_AUTHENTICATION = 'inaccessible-authentication'
 }
 
 /**
@@ -55,6 +100,7 @@ export interface AccessibilityIssue {
     type: IssueType;
     severity: AccessibilitySeverity;
     wcagLevel: WCAGLevel;
+    successCriterion: string;
     message: string;
     description: string;
     line: number;
@@ -63,15 +109,34 @@ export interface AccessibilityIssue {
     suggestion: string;
     documentation: string;
     filePath: string;
+    endLine?: number;
+    endColumn?: number;
+    relatedLocations?: RelatedIssueLocation[];
+}
+
+/**
+ * Another place in the same file that an issue refers to
+ */
+export interface RelatedIssueLocation {
+    message: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
 }
 
 /**
  * Represents the result of an accessibility audit
+ * A level is compliant when no success criterion at that level or below has
+ * a critical, serious or moderate issue; minor issues are advisory. Criteria
+ * that no check covers are listed in untestedCriteria and must be reviewed
+ * manually before claiming conformance.
  */
 export interface AccessibilityAuditResult {
     timestamp: string;
     fileName: string;
     filePath: string;
+    wcagVersion: WCAGVersion;
     totalIssues: number;
     criticalCount: number;
     seriousCount: number;
@@ -83,6 +148,8 @@ export interface AccessibilityAuditResult {
         levelAA: boolean;
         levelAAA: boolean;
     };
+    failedCriteria: SuccessCriterion[];
+    untestedCriteria: SuccessCriterion[];
 }
 
 /**
@@ -167,17 +234,59 @@ export interface UsageStatistics {
 
 /**
  * Color contrast result
+ * Translucent colors are composited before comparison; the effective colors are
+ * the opaque colors that were compared. When the backdrop behind a translucent
+ * background is unknown, contrastRatio and the pass flags use the worst case.
  */
 export interface ColorContrastResult {
     foreground: string;
     background: string;
+    effectiveForeground: string;
+    effectiveBackground: string;
     contrastRatio: number;
+    contrastRange?: ContrastRange;
     passesAA: boolean;
     passesAAA: boolean;
     passesAALarge: boolean;
     passesAAALarge: boolean;
 }
 
+/**
+ * Worst and best contrast over every possible backdrop
+ * estimated is set when the bounds come from sample backdrops rather than exact
+ * computation (translucent foreground on a translucent background).
+ */
+export interface ContrastRange {
+    worst: number;
+    best: number;
+    estimated?: boolean;
+}
+
+/**
+ * Color resolved to sRGB: channels 0-255, alpha 0-1
+ */
+export interface RGBAColor {
+    r: number;
+    g: number;
+    b: number;
+    alpha: number;
+}
+
+/**
+ * WAI-ARIA specification version (1.3 is the editor's draft)
+ */
+export type ARIAVersion = '1.0' | '1.1' | '1.2' | '1.3';
+
+/**
+ * How a role or attribute is defined by WAI-ARIA
+ * - standard: defined by the core specification
+ * - deprecated: still recognised but deprecated
+ * - abstract: an abstract role, which authors must not use
+ * - module: defined by the DPUB-ARIA or Graphics-ARIA modules
+ * - unknown: not defined anywhere
+ */
+export type ARIADefinitionStatus = 'standard' | 'deprecated' | 'abstract' | 'module' | 'unknown';
+
 /**
  * ARIA attribute validation result
  */
@@ -187,6 +296,37 @@ export interface ARIAValidationResult {
     value: string;
     allowedValues?: string[];
     recommendation?: string;
+    status?: ARIADefinitionStatus;
+    since?: ARIAVersion;
+}
+
+/**
+ * Language tag (lang attribute) validation result
+ * replacement is set for valid tags that use a deprecated subtag
+ */
+export interface LanguageTagValidationResult {
+    isValid: boolean;
+    tag: string;
+    recommendation?: string;
+    replacement?: string;
+}
+
+/**
+ * Where an accessible name or description was taken from
+ */
+export type AccessibleNameSource =
+    'aria-labelledby' | 'aria-label' | 'native' | 'contents' | 'title' | 'placeholder' | 'none';
+
+/**
+ * Result of the accessible name and description computation (accname 1.2)
+ * isDynamic is set when part of the name comes from values that cannot be
+ * evaluated statically (JSX expressions, spread props)
+ */
+export interface AccessibleNameResult {
+    name: string;
+    description: string;
+    source: AccessibleNameSource;
+    isDynamic: boolean;
 }
 
 /**
@@ -195,6 +335,7 @@ export interface ARIAValidationResult {
 export interface ElementAnalysis {
     tagName: string;
     attributes: Record<string, string>;
+    accessibleName: string;
     hasAccessibleName: boolean;
     hasRole: boolean;
     isFocusable: boolean;
@@ -203,6 +344,76 @@ export interface ElementAnalysis {
     issues: AccessibilityIssue[];
 }
 
+/**
+ * Attribute on a parsed markup element
+ * Offsets are absolute positions in the source document. Dynamic attributes
+ * (JSX expressions) carry the expression source as their value.
+ */
+export interface MarkupAttribute {
+    name: string;
+    value: string;
+    isDynamic: boolean;
+    start: number;
+    end: number;
+}
+
+/**
+ * Element node in a parsed markup tree
+ */
+export interface MarkupElement {
+    kind: 'element';
+    tagName: string;
+    isComponent: boolean;
+    attributes: MarkupAttribute[];
+    hasSpreadAttributes: boolean;
+    children: MarkupNode[];
+    parent: MarkupElement | null;
+    start: number;
+    openTagEnd: number;
+    end: number;
+    /**
+     * JSX only: the branch taken at each choice point the element renders under
+     * (ternary, if/else, return statement, component body), keyed by choice point
+     */
+    branches?: Record<string, string>;
+}
+
+/**
+ * Text node in a parsed markup tree
+ */
+export interface MarkupText {
+    kind: 'text';
+    text: string;
+    isDynamic: boolean;
+    parent: MarkupElement;
+    start: number;
+    end: number;
+}
+
+/**
+ * Any node in a parsed markup tree
+ */
+export type MarkupNode = MarkupElement | MarkupText;
+
+/**
+ * Parsed markup document
+ * The root is a synthetic '#document' element; elements are listed in source order
+ */
+export interface MarkupDocument {
+    root: MarkupElement;
+    elements: MarkupElement[];
+    text: string;
+}
+
+/**
+ * An attribute that refers to another element by id (for, headers, aria-labelledby...)
+ */
+export interface IdReference {
+    element: MarkupElement;
+    attribute: MarkupAttribute;
+    id: string;
+}
+
 /**
  * Extension configuration
  */
@@ -217,6 +428,77 @@ export interface ExtensionConfig {
     cognitiveLoadReduction: boolean;
 }
 
+/**
+ * Declaration inside a parsed style rule
+ * Offsets are absolute positions in the source document
+ */
+export interface StyleDeclaration {
+    property: string;
+    value: string;
+    important: boolean;
+    start: number;
+    end: number;
+}
+
+/**
+ * Style rule with selectors resolved against any enclosing (SCSS/LESS) rules
+ */
+export interface StyleRule {
+    selectors: string[];
+    declarations: StyleDeclaration[];
+    atRules: string[];
+    start: number;
+    end: number;
+}
+
+/**
+ * CSS custom property, SCSS $variable or LESS @variable definition
+ * source is the file name and line, e.g. "_variables.scss:12"
+ */
+export interface VariableDefinition {
+    name: string;
+    value: string;
+    source: string;
+}
+
+/**
+ * CSS value with its variables substituted
+ * chain lists each substitution in order, e.g. "--text-muted: $gray-600 (theme.scss:3)"
+ */
+export interface VariableResolution {
+    value: string;
+    chain: string[];
+    resolved: boolean;
+}
+
+/**
+ * Parsed stylesheet
+ * Declarations outside any rule (e.g. SCSS variables) are kept separately
+ */
+export interface StyleSheet {
+    rules: StyleRule[];
+    declarations: StyleDeclaration[];
+}
+
+/**
+ * Heading outline profiles
+ */
+export enum HeadingProfile {
+    SINGLE_H1 = 'single-h1',
+    MULTIPLE_H1 = 'multiple-h1'
+}
+
+/**
+ * Accessibility audit configuration
+ */
+export interface AuditConfig {
+    wcagVersion: WCAGVersion;
+    headingProfile: HeadingProfile;
+    genericLinkText: Record<string, string[]>;
+    pageBackground: string;
+    rootFontSize: number;
+}
+
 /**
  * Tree view item for accessibility issues
  */
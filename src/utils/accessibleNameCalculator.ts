@@ -0,0 +1,537 @@
+/**
+ * Accessible Name Calculator Utility
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Computes accessible names and descriptions following W3C accname 1.2 and HTML-AAM
+ */
+
+import {
+    AccessibleNameResult,
+    AccessibleNameSource,
+    MarkupDocument,
+    MarkupElement
+} from '../types';
+import { ARIAValidator } from './ariaValidator';
+import { IdIndex } from './idIndex';
+import { getAttribute, getAttributeValue, hasAttribute, findAncestor, getTextContent } from './markupTree';
+
+/**
+ * State carried through one text alternative computation
+ */
+interface NameContext {
+    tree: MarkupDocument;
+    root: MarkupElement;
+    inLabelledBy: boolean;
+    isDirectReference: boolean;
+    isRecursive: boolean;
+    visited: Set<MarkupElement>;
+    dynamic: { value: boolean };
+}
+
+/**
+ * AccessibleNameCalculator class
+ * Implements the accessible name and description computation (accname 1.2,
+ * section 4.3) over parsed markup trees: aria-labelledby, aria-label, native
+ * host language labels (label, alt, legend, caption...), name from content,
+ * title and placeholder, in that order.
+ */
+export class AccessibleNameCalculator {
+    /**
+     * Elements whose content is laid out as blocks and separated by whitespace
+     */
+    private static readonly BLOCK_ELEMENTS = [
+        'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt',
+        'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4',
+        'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section',
+        'table', 'td', 'th', 'tr', 'ul'
+    ];
+
+    /**
+     * Elements that can be associated with a <label>
+     */
+    private static readonly LABELABLE_ELEMENTS = [
+        'button', 'input', 'meter', 'output', 'progress', 'select', 'textarea'
+    ];
+
+    /**
+     * Input types whose name can fall back to the placeholder
+     */
+    private static readonly TEXT_INPUT_TYPES = [
+        'text', 'search', 'url', 'tel', 'email', 'password', 'number'
+    ];
+
+    private ariaValidator: ARIAValidator;
+    private idIndexes: WeakMap<MarkupDocument, IdIndex> = new WeakMap();
+
+    /**
+     * Constructor
+     * @param ariaValidator - Validator used to resolve implicit roles
+     */
+    constructor(ariaValidator: ARIAValidator) {
+        this.ariaValidator = ariaValidator;
+    }
+
+    /**
+     * Compute the accessible name and description of an element
+     * @param element - Element to name
+     * @param tree - Document the element belongs to (for ID references)
+     */
+    public compute(element: MarkupElement, tree: MarkupDocument): AccessibleNameResult {
+        const dynamic = { value: element.isComponent || element.hasSpreadAttributes };
+        const source: { value: AccessibleNameSource } = { value: 'none' };
+
+        const name = this.normalize(this.computeTextAlternative(element, {
+            tree,
+            root: element,
+            inLabelledBy: false,
+            isDirectReference: false,
+            isRecursive: false,
+            visited: new Set([element]),
+            dynamic
+        }, source));
+
+        return {
+            name,
+            description: this.computeDescription(element, tree, source.value),
+            source: name ? source.value : 'none',
+            isDynamic: dynamic.value
+        };
+    }
+
+    /**
+     * Get the role of an element: the first explicit role token, else the implicit role
+     */
+    public getRole(element: MarkupElement): string | undefined {
+        const roleAttr = getAttribute(element, 'role');
+
+        if (roleAttr && !roleAttr.isDynamic) {
+            const explicitRole = roleAttr.value.trim().split(/\s+/)[0];
+            if (explicitRole) {
+                return explicitRole.toLowerCase();
+            }
+        }
+
+        return this.ariaValidator.getImplicitRole(element.tagName, this.getAttributeMap(element));
+    }
+
+    /**
+     * Check whether an element is excluded from the accessibility tree
+     */
+    public isHidden(element: MarkupElement): boolean {
+        if (['script', 'style', 'template', 'noscript'].includes(element.tagName)) {
+            return true;
+        }
+
+        if (getAttributeValue(element, 'aria-hidden') === 'true' || hasAttribute(element, 'hidden')) {
+            return true;
+        }
+
+        if (element.tagName === 'input' && getAttributeValue(element, 'type')?.toLowerCase() === 'hidden') {
+            return true;
+        }
+
+        const style = getAttribute(element, 'style');
+        return !!style && !style.isDynamic && /(display\s*:\s*none|visibility\s*:\s*hidden)/i.test(style.value);
+    }
+
+    /**
+     * Get the id index of a document, building it on first use
+     */
+    public getIdIndex(tree: MarkupDocument): IdIndex {
+        let index = this.idIndexes.get(tree);
+
+        if (!index) {
+            index = new IdIndex(tree, this.ariaValidator);
+            this.idIndexes.set(tree, index);
+        }
+
+        return index;
+    }
+
+    /**
+     * Look up an element by id in a document (the first one wins, as in the DOM)
+     */
+    public getElementById(tree: MarkupDocument, id: string): MarkupElement | undefined {
+        return this.getIdIndex(tree).getElementById(id);
+    }
+
+    /**
+     * Check whether an element can be associated with a <label>
+     */
+    public isLabelable(element: MarkupElement): boolean {
+        if (element.tagName === 'input') {
+            return getAttributeValue(element, 'type')?.toLowerCase() !== 'hidden';
+        }
+
+        return AccessibleNameCalculator.LABELABLE_ELEMENTS.includes(element.tagName);
+    }
+
+    /**
+     * Get the <label> elements associated with a labelable element
+     */
+    public getLabels(element: MarkupElement, tree: MarkupDocument): MarkupElement[] {
+        if (!this.isLabelable(element)) {
+            return [];
+        }
+
+        const labels: MarkupElement[] = [];
+        const id = getAttribute(element, 'id');
+
+        // Labels only reach the first element with an id, as in the DOM
+        const index = this.getIdIndex(tree);
+        if (id && !id.isDynamic && index.getElementById(id.value) === element) {
+            labels.push(...index.getReferences(id.value)
+                .filter(reference => reference.element.tagName === 'label' && reference.attribute.name === 'for')
+                .map(reference => reference.element));
+        }
+
+        // A wrapping label only labels its control when it has no for="" pointing elsewhere
+        const wrappingLabel = findAncestor(element, ancestor => ancestor.tagName === 'label');
+        if (wrappingLabel && !labels.includes(wrappingLabel)) {
+            const forAttr = getAttribute(wrappingLabel, 'for');
+            if (!forAttr || forAttr.isDynamic || (id && forAttr.value === id.value)) {
+                labels.push(wrappingLabel);
+            }
+        }
+
+        return labels;
+    }
+
+    /**
+     * Compute the text alternative of a node (accname 1.2, step 2)
+     */
+    private computeTextAlternative(
+        element: MarkupElement,
+        context: NameContext,
+        source?: { value: AccessibleNameSource }
+    ): string {
+        const setSource = (value: AccessibleNameSource): void => {
+            if (source) {
+                source.value = value;
+            }
+        };
+
+        if (element.isComponent) {
+            context.dynamic.value = true;
+            return '';
+        }
+
+        // Step 2A: hidden nodes contribute nothing unless directly referenced
+        if (this.isHidden(element) && !context.isDirectReference) {
+            return '';
+        }
+
+        // Step 2B: aria-labelledby
+        const labelledBy = getAttribute(element, 'aria-labelledby');
+        if (labelledBy && !context.inLabelledBy) {
+            if (labelledBy.isDynamic) {
+                context.dynamic.value = true;
+            } else {
+                const parts = labelledBy.value.trim().split(/\s+/)
+                    .map(id => this.getElementById(context.tree, id))
+                    .filter((target): target is MarkupElement => target !== undefined)
+                    .map(target => this.computeTextAlternative(target, {
+                        ...context,
+                        inLabelledBy: true,
+                        isDirectReference: true,
+                        isRecursive: false,
+                        visited: new Set([...context.visited, target])
+                    }));
+                const text = this.normalize(parts.join(' '));
+
+                if (text) {
+                    setSource('aria-labelledby');
+                    return text;
+                }
+            }
+        }
+
+        const role = this.getRole(element);
+
+        // Step 2C: controls embedded in a label contribute their value
+        if ((context.isRecursive || context.inLabelledBy) && element !== context.root) {
+            const controlValue = this.getEmbeddedControlValue(element, role);
+            if (controlValue !== undefined) {
+                return controlValue;
+            }
+        }
+
+        // Step 2D: aria-label
+        const ariaLabel = getAttribute(element, 'aria-label');
+        if (ariaLabel) {
+            if (ariaLabel.isDynamic) {
+                context.dynamic.value = true;
+            } else if (ariaLabel.value.trim()) {
+                setSource('aria-label');
+                return ariaLabel.value;
+            }
+        }
+
+        // Step 2E: native host language label
+        if (role !== 'presentation' && role !== 'none') {
+            const nativeName = this.getNativeName(element, context);
+            if (nativeName !== undefined) {
+                setSource('native');
+                return nativeName;
+            }
+        }
+
+        // Step 2F: name from content
+        if (this.ariaValidator.allowsNameFromContent(role) || context.isRecursive || context.inLabelledBy ||
+            element.tagName === 'label' || element.tagName === 'legend' || element.tagName === 'caption') {
+            const text = this.normalize(this.computeContentText(element, context));
+            if (text) {
+                setSource('contents');
+                return text;
+            }
+        }
+
+        // Step 2I: tooltip attribute
+        const title = getAttribute(element, 'title');
+        if (title) {
+            if (title.isDynamic) {
+                context.dynamic.value = true;
+            } else if (title.value.trim()) {
+                setSource('title');
+                return title.value;
+            }
+        }
+
+        // HTML-AAM: textual inputs fall back to their placeholder
+        if (this.isTextInput(element)) {
+            const placeholder = getAttribute(element, 'placeholder') || getAttribute(element, 'aria-placeholder');
+            if (placeholder) {
+                if (placeholder.isDynamic) {
+                    context.dynamic.value = true;
+                } else if (placeholder.value.trim()) {
+                    setSource('placeholder');
+                    return placeholder.value;
+                }
+            }
+        }
+
+        return '';
+    }
+
+    /**
+     * Concatenate the text alternatives of an element's children (step 2F)
+     */
+    private computeContentText(element: MarkupElement, context: NameContext): string {
+        let result = '';
+
+        for (const child of element.children) {
+            if (child.kind === 'text') {
+                if (child.isDynamic) {
+                    context.dynamic.value = true;
+                }
+                result += child.text;
+                continue;
+            }
+
+            if (context.visited.has(child)) {
+                continue;
+            }
+
+            const childText = this.computeTextAlternative(child, {
+                ...context,
+                isDirectReference: false,
+                isRecursive: true,
+                visited: new Set([...context.visited, child])
+            });
+
+            result += AccessibleNameCalculator.BLOCK_ELEMENTS.includes(child.tagName)
+                ? ` ${childText} `
+                : childText;
+        }
+
+        return result;
+    }
+
+    /**
+     * Name from native host language features (HTML-AAM)
+     * Returns undefined when the element has no native naming mechanism that applies
+     */
+    private getNativeName(element: MarkupElement, context: NameContext): string | undefined {
+        const tagName = element.tagName;
+        const type = getAttributeValue(element, 'type')?.toLowerCase();
+
+        if (tagName === 'input' && (type === 'button' || type === 'submit' || type === 'reset' || type === 'image')) {
+            const value = getAttribute(element, 'value');
+            if (value && value.isDynamic) {
+                context.dynamic.value = true;
+            }
+            if (value && value.value.trim()) {
+                return value.value;
+            }
+
+            if (type === 'image') {
+                const alt = getAttributeValue(element, 'alt');
+                return alt && alt.trim() ? alt : undefined;
+            }
+
+            return type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : undefined;
+        }
+
+        if (AccessibleNameCalculator.LABELABLE_ELEMENTS.includes(tagName)) {
+            const labels = this.getLabels(element, context.tree);
+            const text = this.normalize(labels
+                .filter(label => !context.visited.has(label))
+                .map(label => this.computeTextAlternative(label, {
+                    ...context,
+                    isRecursive: true,
+                    isDirectReference: false,
+                    visited: new Set([...context.visited, label])
+                }))
+                .join(' '));
+
+            if (text) {
+                return text;
+            }
+        }
+
+        if (tagName === 'img' || tagName === 'area') {
+            const alt = getAttribute(element, 'alt');
+            if (alt) {
+                if (alt.isDynamic) {
+                    context.dynamic.value = true;
+                }
+                return alt.isDynamic ? undefined : alt.value;
+            }
+            return undefined;
+        }
+
+        const captionTag = tagName === 'fieldset' ? 'legend'
+            : tagName === 'figure' ? 'figcaption'
+                : tagName === 'table' ? 'caption'
+                    : tagName === 'svg' ? 'title'
+                        : undefined;
+
+        if (captionTag) {
+            const caption = element.children.find(
+                (child): child is MarkupElement => child.kind === 'element' && child.tagName === captionTag
+            );
+
+            if (caption) {
+                const text = this.normalize(tagName === 'svg'
+                    ? getTextContent(caption)
+                    : this.computeContentText(caption, { ...context, isRecursive: true }));
+                if (text) {
+                    return text;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Value of a form control embedded in another element's label (step 2C)
+     */
+    private getEmbeddedControlValue(element: MarkupElement, role: string | undefined): string | undefined {
+        switch (role) {
+            case 'textbox':
+            case 'searchbox':
+                return element.tagName === 'textarea'
+                    ? getTextContent(element)
+                    : getAttributeValue(element, 'value') ?? '';
+            case 'combobox':
+            case 'listbox': {
+                const options = element.tagName === 'select'
+                    ? element.children.flatMap(child => child.kind !== 'element' ? []
+                        : child.tagName === 'optgroup'
+                            ? child.children.filter((option): option is MarkupElement => option.kind === 'element')
+                            : [child])
+                        .filter(option => option.tagName === 'option')
+                    : [];
+                const selected = options.find(option => hasAttribute(option, 'selected')) || options[0];
+                return selected ? this.normalize(getTextContent(selected)) : '';
+            }
+            case 'slider':
+            case 'spinbutton':
+            case 'progressbar':
+            case 'scrollbar':
+                return getAttributeValue(element, 'aria-valuetext') ??
+                    getAttributeValue(element, 'aria-valuenow') ??
+                    getAttributeValue(element, 'value') ?? '';
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Compute the accessible description (aria-describedby, aria-description, title)
+     */
+    private computeDescription(element: MarkupElement, tree: MarkupDocument, nameSource: AccessibleNameSource): string {
+        const describedBy = getAttribute(element, 'aria-describedby');
+
+        if (describedBy && !describedBy.isDynamic) {
+            const text = this.normalize(describedBy.value.trim().split(/\s+/)
+                .map(id => this.getElementById(tree, id))
+                .filter((target): target is MarkupElement => target !== undefined)
+                .map(target => this.computeTextAlternative(target, {
+                    tree,
+                    root: element,
+                    inLabelledBy: true,
+                    isDirectReference: true,
+                    isRecursive: false,
+                    visited: new Set([element, target]),
+                    dynamic: { value: false }
+                }))
+                .join(' '));
+
+            if (text) {
+                return text;
+            }
+        }
+
+        const description = getAttribute(element, 'aria-description');
+        if (description && !description.isDynamic && description.value.trim()) {
+            return this.normalize(description.value);
+        }
+
+        // The title is only a description when it was not already used as the name
+        const title = getAttribute(element, 'title');
+        if (title && !title.isDynamic && nameSource !== 'title') {
+            return this.normalize(title.value);
+        }
+
+        return '';
+    }
+
+    /**
+     * Check whether an element is a text input that supports placeholder
+     */
+    private isTextInput(element: MarkupElement): boolean {
+        if (element.tagName === 'textarea') {
+            return true;
+        }
+
+        if (element.tagName !== 'input') {
+            return false;
+        }
+
+        const type = (getAttributeValue(element, 'type') || 'text').toLowerCase();
+        return AccessibleNameCalculator.TEXT_INPUT_TYPES.includes(type);
+    }
+
+    /**
+     * Attributes as a name/value map
+     */
+    private getAttributeMap(element: MarkupElement): Record<string, string> {
+        const attributes: Record<string, string> = {};
+
+        for (const attr of element.attributes) {
+            attributes[attr.name] = attr.value;
+        }
+
+        return attributes;
+    }
+
+    /**
+     * Collapse whitespace the way the accessible name is flattened
+     */
+    private normalize(text: string): string {
+        return text.replace(/\s+/g, ' ').trim();
+    }
+}
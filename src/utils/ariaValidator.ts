@@ -6,7 +6,7 @@
  * @description Validates ARIA attributes and roles according to WAI-ARIA 1.2 specification
  */
 
-import { ARIAValidationResult } from '../types';
+import { ARIAValidationResult, ARIAVersion } from '../types';
 
 /**
  * ARIAValidator class
@@ -14,174 +14,677 @@ import { ARIAValidationResult } from '../types';
  */
 export class ARIAValidator {
     /**
-     * Valid ARIA roles according to WAI-ARIA 1.2
+     * WAI-ARIA roles, with the specification version that introduced them
+     * Versions of the DPUB-ARIA and Graphics-ARIA modules refer to those modules.
      */
-    private static readonly VALID_ROLES = [
+    private static readonly ROLES: Record<string, {
+        category: 'abstract' | 'composite' | 'document' | 'landmark' | 'live' | 'widget' | 'window';
+        since: ARIAVersion;
+        deprecated?: ARIAVersion;
+        replacement?: string;
+        module?: 'dpub' | 'graphics';
+    }> = {
+        // Abstract roles: part of the taxonomy, never valid in content
+        command: { category: 'abstract', since: '1.0' },
+        composite: { category: 'abstract', since: '1.0' },
+        input: { category: 'abstract', since: '1.0' },
+        landmark: { category: 'abstract', since: '1.0' },
+        range: { category: 'abstract', since: '1.0' },
+        roletype: { category: 'abstract', since: '1.0' },
+        section: { category: 'abstract', since: '1.0' },
+        sectionhead: { category: 'abstract', since: '1.0' },
+        select: { category: 'abstract', since: '1.0' },
+        structure: { category: 'abstract', since: '1.0' },
+        widget: { category: 'abstract', since: '1.0' },
+        window: { category: 'abstract', since: '1.0' },
+
         // Document structure roles
-        'article', 'columnheader', 'definition', 'directory', 'document',
-        'feed', 'figure', 'group', 'heading', 'img', 'list', 'listitem',
-        'math', 'none', 'note', 'presentation', 'region', 'row',
-        'rowgroup', 'rowheader', 'separator', 'table', 'term', 'toolbar',
-        'tooltip',
+        application: { category: 'document', since: '1.0' },
+        article: { category: 'document', since: '1.0' },
+        blockquote: { category: 'document', since: '1.2' },
+        caption: { category: 'document', since: '1.2' },
+        cell: { category: 'document', since: '1.1' },
+        code: { category: 'document', since: '1.2' },
+        columnheader: { category: 'document', since: '1.0' },
+        definition: { category: 'document', since: '1.0' },
+        deletion: { category: 'document', since: '1.2' },
+        directory: { category: 'document', since: '1.0', deprecated: '1.2', replacement: 'list' },
+        document: { category: 'document', since: '1.0' },
+        emphasis: { category: 'document', since: '1.2' },
+        feed: { category: 'document', since: '1.1' },
+        figure: { category: 'document', since: '1.1' },
+        generic: { category: 'document', since: '1.2' },
+        group: { category: 'document', since: '1.0' },
+        heading: { category: 'document', since: '1.0' },
+        img: { category: 'document', since: '1.0' },
+        insertion: { category: 'document', since: '1.2' },
+        list: { category: 'document', since: '1.0' },
+        listitem: { category: 'document', since: '1.0' },
+        math: { category: 'document', since: '1.0' },
+        meter: { category: 'document', since: '1.2' },
+        none: { category: 'document', since: '1.1' },
+        note: { category: 'document', since: '1.0' },
+        paragraph: { category: 'document', since: '1.2' },
+        presentation: { category: 'document', since: '1.0' },
+        row: { category: 'document', since: '1.0' },
+        rowgroup: { category: 'document', since: '1.0' },
+        rowheader: { category: 'document', since: '1.0' },
+        separator: { category: 'document', since: '1.0' },
+        strong: { category: 'document', since: '1.2' },
+        subscript: { category: 'document', since: '1.2' },
+        superscript: { category: 'document', since: '1.2' },
+        table: { category: 'document', since: '1.1' },
+        term: { category: 'document', since: '1.1' },
+        time: { category: 'document', since: '1.2' },
+        toolbar: { category: 'document', since: '1.0' },
+        tooltip: { category: 'document', since: '1.0' },
 
         // Landmark roles
-        'banner', 'complementary', 'contentinfo', 'form', 'main',
-        'navigation', 'region', 'search',
+        banner: { category: 'landmark', since: '1.0' },
+        complementary: { category: 'landmark', since: '1.0' },
+        contentinfo: { category: 'landmark', since: '1.0' },
+        form: { category: 'landmark', since: '1.0' },
+        main: { category: 'landmark', since: '1.0' },
+        navigation: { category: 'landmark', since: '1.0' },
+        region: { category: 'landmark', since: '1.0' },
+        search: { category: 'landmark', since: '1.0' },
+
+        // Live region roles
+        alert: { category: 'live', since: '1.0' },
+        log: { category: 'live', since: '1.0' },
+        marquee: { category: 'live', since: '1.0' },
+        status: { category: 'live', since: '1.0' },
+        timer: { category: 'live', since: '1.0' },
+
+        // Window roles
+        alertdialog: { category: 'window', since: '1.0' },
+        dialog: { category: 'window', since: '1.0' },
 
         // Widget roles
-        'alert', 'alertdialog', 'button', 'checkbox', 'dialog', 'gridcell',
-        'link', 'log', 'marquee', 'menuitem', 'menuitemcheckbox',
-        'menuitemradio', 'option', 'progressbar', 'radio', 'scrollbar',
-        'searchbox', 'slider', 'spinbutton', 'status', 'switch', 'tab',
-        'tabpanel', 'textbox', 'timer', 'tooltip', 'treeitem',
-
-        // Composite roles
-        'combobox', 'grid', 'listbox', 'menu', 'menubar', 'radiogroup',
-        'tablist', 'tree', 'treegrid'
-    ];
+        button: { category: 'widget', since: '1.0' },
+        checkbox: { category: 'widget', since: '1.0' },
+        gridcell: { category: 'widget', since: '1.0' },
+        link: { category: 'widget', since: '1.0' },
+        menuitem: { category: 'widget', since: '1.0' },
+        menuitemcheckbox: { category: 'widget', since: '1.0' },
+        menuitemradio: { category: 'widget', since: '1.0' },
+        option: { category: 'widget', since: '1.0' },
+        progressbar: { category: 'widget', since: '1.0' },
+        radio: { category: 'widget', since: '1.0' },
+        scrollbar: { category: 'widget', since: '1.0' },
+        searchbox: { category: 'widget', since: '1.1' },
+        slider: { category: 'widget', since: '1.0' },
+        spinbutton: { category: 'widget', since: '1.0' },
+        switch: { category: 'widget', since: '1.1' },
+        tab: { category: 'widget', since: '1.0' },
+        tabpanel: { category: 'widget', since: '1.0' },
+        textbox: { category: 'widget', since: '1.0' },
+        treeitem: { category: 'widget', since: '1.0' },
+
+        // Composite widget roles
+        combobox: { category: 'composite', since: '1.0' },
+        grid: { category: 'composite', since: '1.0' },
+        listbox: { category: 'composite', since: '1.0' },
+        menu: { category: 'composite', since: '1.0' },
+        menubar: { category: 'composite', since: '1.0' },
+        radiogroup: { category: 'composite', since: '1.0' },
+        tablist: { category: 'composite', since: '1.0' },
+        tree: { category: 'composite', since: '1.0' },
+        treegrid: { category: 'composite', since: '1.0' },
+
+        // WAI-ARIA 1.3 draft roles
+        comment: { category: 'document', since: '1.3' },
+        mark: { category: 'document', since: '1.3' },
+        suggestion: { category: 'document', since: '1.3' },
+
+        // DPUB-ARIA module (digital publishing)
+        'doc-abstract': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-acknowledgments': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-afterword': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-appendix': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-backlink': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-biblioentry': { category: 'document', since: '1.0', module: 'dpub', deprecated: '1.1', replacement: 'listitem' },
+        'doc-bibliography': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-biblioref': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-chapter': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-colophon': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-conclusion': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-cover': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-credit': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-credits': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-dedication': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-endnote': { category: 'document', since: '1.0', module: 'dpub', deprecated: '1.1', replacement: 'listitem' },
+        'doc-endnotes': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-epigraph': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-epilogue': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-errata': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-example': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-footnote': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-foreword': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-glossary': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-glossref': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-index': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-introduction': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-noteref': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-notice': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-pagebreak': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-pagefooter': { category: 'document', since: '1.1', module: 'dpub' },
+        'doc-pageheader': { category: 'document', since: '1.1', module: 'dpub' },
+        'doc-pagelist': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-part': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-preface': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-prologue': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-pullquote': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-qna': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-subtitle': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-tip': { category: 'document', since: '1.0', module: 'dpub' },
+        'doc-toc': { category: 'document', since: '1.0', module: 'dpub' },
+
+        // Graphics-ARIA module
+        'graphics-document': { category: 'document', since: '1.0', module: 'graphics' },
+        'graphics-object': { category: 'document', since: '1.0', module: 'graphics' },
+        'graphics-symbol': { category: 'document', since: '1.0', module: 'graphics' }
+    };
 
     /**
-     * Valid ARIA properties and their allowed values
+     * WAI-ARIA states and properties, their allowed values and the version that introduced them
      */
     private static readonly ARIA_PROPERTIES: Record<string, {
         type: 'boolean' | 'tristate' | 'string' | 'token' | 'tokenlist' | 'integer' | 'number';
         allowedValues?: string[];
+        since: ARIAVersion;
+        deprecated?: ARIAVersion;
         description: string;
     }> = {
         'aria-activedescendant': {
             type: 'string',
+            since: '1.0',
             description: 'Identifies the currently active element when focus is on a composite widget'
         },
         'aria-atomic': {
             type: 'boolean',
+            since: '1.0',
             description: 'Indicates whether assistive technologies will present all or only parts of the changed region'
         },
         'aria-autocomplete': {
             type: 'token',
             allowedValues: ['none', 'inline', 'list', 'both'],
+            since: '1.0',
             description: 'Indicates whether inputting text could trigger display of suggestions'
         },
+        'aria-braillelabel': {
+            type: 'string',
+            since: '1.3',
+            description: 'Defines a string value that labels the current element for braille displays'
+        },
+        'aria-brailleroledescription': {
+            type: 'string',
+            since: '1.3',
+            description: 'Defines a braille-specific description of the role of an element'
+        },
         'aria-busy': {
             type: 'boolean',
+            since: '1.0',
             description: 'Indicates an element is being modified and assistive technologies may want to wait'
         },
         'aria-checked': {
             type: 'tristate',
-            allowedValues: ['true', 'false', 'mixed'],
+            allowedValues: ['true', 'false', 'mixed', 'undefined'],
+            since: '1.0',
             description: 'Indicates the current checked state of checkboxes, radio buttons, and other widgets'
         },
+        'aria-colcount': {
+            type: 'integer',
+            since: '1.1',
+            description: 'Defines the total number of columns in a table, grid, or treegrid'
+        },
+        'aria-colindex': {
+            type: 'integer',
+            since: '1.1',
+            description: 'Defines a cell\'s column index within a table, grid, or treegrid'
+        },
+        'aria-colindextext': {
+            type: 'string',
+            since: '1.3',
+            description: 'Defines a human readable text alternative of aria-colindex'
+        },
+        'aria-colspan': {
+            type: 'integer',
+            since: '1.1',
+            description: 'Defines the number of columns spanned by a cell'
+        },
         'aria-controls': {
             type: 'tokenlist',
+            since: '1.0',
             description: 'Identifies the element(s) whose contents or presence are controlled by the current element'
         },
         'aria-current': {
             type: 'token',
             allowedValues: ['page', 'step', 'location', 'date', 'time', 'true', 'false'],
+            since: '1.1',
             description: 'Indicates the element that represents the current item within a container or set'
         },
         'aria-describedby': {
             type: 'tokenlist',
+            since: '1.0',
             description: 'Identifies the element(s) that describes the object'
         },
+        'aria-description': {
+            type: 'string',
+            since: '1.3',
+            description: 'Defines a string value that describes the current element'
+        },
         'aria-details': {
             type: 'tokenlist',
+            since: '1.1',
             description: 'Identifies the element that provides a detailed description'
         },
         'aria-disabled': {
             type: 'boolean',
+            since: '1.0',
             description: 'Indicates that the element is perceivable but disabled'
         },
+        'aria-dropeffect': {
+            type: 'tokenlist',
+            allowedValues: ['copy', 'execute', 'link', 'move', 'none', 'popup'],
+            since: '1.0',
+            deprecated: '1.1',
+            description: 'Indicates what functions can be performed when a dragged object is released on the drop target'
+        },
+        'aria-errormessage': {
+            type: 'tokenlist',
+            since: '1.1',
+            description: 'Identifies the element that provides an error message for the object'
+        },
         'aria-expanded': {
             type: 'boolean',
+            allowedValues: ['true', 'false', 'undefined'],
+            since: '1.0',
             description: 'Indicates whether the element is expanded or collapsed'
         },
+        'aria-flowto': {
+            type: 'tokenlist',
+            since: '1.0',
+            description: 'Identifies the next element(s) in an alternate reading order'
+        },
+        'aria-grabbed': {
+            type: 'boolean',
+            allowedValues: ['true', 'false', 'undefined'],
+            since: '1.0',
+            deprecated: '1.1',
+            description: 'Indicates an element\'s "grabbed" state in a drag-and-drop operation'
+        },
         'aria-haspopup': {
             type: 'token',
             allowedValues: ['false', 'true', 'menu', 'listbox', 'tree', 'grid', 'dialog'],
+            since: '1.0',
             description: 'Indicates the availability and type of interactive popup element'
         },
         'aria-hidden': {
             type: 'boolean',
+            allowedValues: ['true', 'false', 'undefined'],
+            since: '1.0',
             description: 'Indicates whether the element is exposed to an accessibility API'
         },
         'aria-invalid': {
             type: 'token',
             allowedValues: ['false', 'true', 'grammar', 'spelling'],
+            since: '1.0',
             description: 'Indicates the entered value does not conform to the format expected'
         },
+        'aria-keyshortcuts': {
+            type: 'string',
+            since: '1.1',
+            description: 'Indicates keyboard shortcuts that activate or focus the element'
+        },
         'aria-label': {
             type: 'string',
+            since: '1.0',
             description: 'Defines a string value that labels the current element'
         },
         'aria-labelledby': {
             type: 'tokenlist',
+            since: '1.0',
             description: 'Identifies the element(s) that labels the current element'
         },
         'aria-level': {
             type: 'integer',
+            since: '1.0',
             description: 'Defines the hierarchical level of an element within a structure'
         },
         'aria-live': {
             type: 'token',
             allowedValues: ['off', 'polite', 'assertive'],
+            since: '1.0',
             description: 'Indicates that an element will be updated, and describes the types of updates'
         },
         'aria-modal': {
             type: 'boolean',
+            since: '1.1',
             description: 'Indicates whether an element is modal when displayed'
         },
         'aria-multiline': {
             type: 'boolean',
+            since: '1.0',
             description: 'Indicates whether a text box accepts multiple lines of input'
         },
         'aria-multiselectable': {
             type: 'boolean',
+            since: '1.0',
             description: 'Indicates that the user may select more than one item'
         },
         'aria-orientation': {
             type: 'token',
             allowedValues: ['horizontal', 'vertical', 'undefined'],
+            since: '1.0',
             description: 'Indicates whether the element\'s orientation is horizontal or vertical'
         },
+        'aria-owns': {
+            type: 'tokenlist',
+            since: '1.0',
+            description: 'Identifies element(s) that should be treated as children of the current element'
+        },
         'aria-placeholder': {
             type: 'string',
+            since: '1.1',
             description: 'Defines a short hint intended to aid the user with data entry'
         },
+        'aria-posinset': {
+            type: 'integer',
+            since: '1.0',
+            description: 'Defines an element\'s position in the current set of listitems or treeitems'
+        },
         'aria-pressed': {
             type: 'tristate',
-            allowedValues: ['true', 'false', 'mixed'],
+            allowedValues: ['true', 'false', 'mixed', 'undefined'],
+            since: '1.0',
             description: 'Indicates the current pressed state of toggle buttons'
         },
         'aria-readonly': {
             type: 'boolean',
+            since: '1.0',
             description: 'Indicates that the element is not editable, but is otherwise operable'
         },
+        'aria-relevant': {
+            type: 'tokenlist',
+            allowedValues: ['additions', 'removals', 'text', 'all'],
+            since: '1.0',
+            description: 'Indicates what notifications the user agent will trigger when the accessibility tree within a live region is modified'
+        },
         'aria-required': {
             type: 'boolean',
+            since: '1.0',
             description: 'Indicates that user input is required on the element before form submission'
         },
+        'aria-roledescription': {
+            type: 'string',
+            since: '1.1',
+            description: 'Defines a human-readable, author-localized description for the role of an element'
+        },
+        'aria-rowcount': {
+            type: 'integer',
+            since: '1.1',
+            description: 'Defines the total number of rows in a table, grid, or treegrid'
+        },
+        'aria-rowindex': {
+            type: 'integer',
+            since: '1.1',
+            description: 'Defines a row\'s index within a table, grid, or treegrid'
+        },
+        'aria-rowindextext': {
+            type: 'string',
+            since: '1.3',
+            description: 'Defines a human readable text alternative of aria-rowindex'
+        },
+        'aria-rowspan': {
+            type: 'integer',
+            since: '1.1',
+            description: 'Defines the number of rows spanned by a cell'
+        },
         'aria-selected': {
             type: 'boolean',
+            allowedValues: ['true', 'false', 'undefined'],
+            since: '1.0',
             description: 'Indicates the current selected state of various widgets'
         },
+        'aria-setsize': {
+            type: 'integer',
+            since: '1.0',
+            description: 'Defines the number of items in the current set of listitems or treeitems'
+        },
+        'aria-sort': {
+            type: 'token',
+            allowedValues: ['ascending', 'descending', 'none', 'other'],
+            since: '1.0',
+            description: 'Indicates if items in a table or grid are sorted in ascending or descending order'
+        },
         'aria-valuemax': {
             type: 'number',
+            since: '1.0',
             description: 'Defines the maximum allowed value for a range widget'
         },
         'aria-valuemin': {
             type: 'number',
+            since: '1.0',
             description: 'Defines the minimum allowed value for a range widget'
         },
         'aria-valuenow': {
             type: 'number',
+            since: '1.0',
             description: 'Defines the current value for a range widget'
         },
         'aria-valuetext': {
             type: 'string',
+            since: '1.0',
             description: 'Defines the human readable text alternative of aria-valuenow'
         }
     };
 
+    /**
+     * Global states and properties, supported on every role unless prohibited
+     */
+    private static readonly GLOBAL_ATTRIBUTES = [
+        'aria-atomic', 'aria-busy', 'aria-controls', 'aria-current', 'aria-describedby',
+        'aria-details', 'aria-disabled', 'aria-dropeffect', 'aria-errormessage', 'aria-flowto',
+        'aria-grabbed', 'aria-haspopup', 'aria-hidden', 'aria-invalid', 'aria-keyshortcuts',
+        'aria-label', 'aria-labelledby', 'aria-live', 'aria-owns', 'aria-relevant',
+        'aria-roledescription'
+    ];
+
+    /**
+     * Role-specific states and properties (WAI-ARIA 1.2, inherited ones included)
+     * Roles without an entry only support the global attributes.
+     */
+    private static readonly ROLE_ATTRIBUTES: Record<string, {
+        required?: string[];
+        supported?: string[];
+        prohibited?: string[];
+    }> = {
+        alertdialog: { supported: ['aria-modal'] },
+        application: { supported: ['aria-activedescendant', 'aria-expanded'] },
+        article: { supported: ['aria-posinset', 'aria-setsize'] },
+        button: { supported: ['aria-expanded', 'aria-pressed'] },
+        caption: { prohibited: ['aria-label', 'aria-labelledby'] },
+        cell: { supported: ['aria-colindex', 'aria-colspan', 'aria-rowindex', 'aria-rowspan'] },
+        checkbox: {
+            required: ['aria-checked'],
+            supported: ['aria-expanded', 'aria-readonly', 'aria-required']
+        },
+        code: { prohibited: ['aria-label', 'aria-labelledby'] },
+        columnheader: {
+            supported: [
+                'aria-colindex', 'aria-colspan', 'aria-expanded', 'aria-readonly', 'aria-required',
+                'aria-rowindex', 'aria-rowspan', 'aria-selected', 'aria-sort'
+            ]
+        },
+        combobox: {
+            required: ['aria-expanded'],
+            supported: ['aria-activedescendant', 'aria-autocomplete', 'aria-readonly', 'aria-required']
+        },
+        deletion: { prohibited: ['aria-label', 'aria-labelledby'] },
+        dialog: { supported: ['aria-modal'] },
+        document: { supported: ['aria-expanded'] },
+        emphasis: { prohibited: ['aria-label', 'aria-labelledby'] },
+        generic: { prohibited: ['aria-label', 'aria-labelledby', 'aria-roledescription'] },
+        grid: {
+            supported: ['aria-activedescendant', 'aria-colcount', 'aria-multiselectable', 'aria-readonly', 'aria-rowcount']
+        },
+        gridcell: {
+            supported: [
+                'aria-colindex', 'aria-colspan', 'aria-expanded', 'aria-readonly', 'aria-required',
+                'aria-rowindex', 'aria-rowspan', 'aria-selected'
+            ]
+        },
+        group: { supported: ['aria-activedescendant'] },
+        // aria-level is required by the spec but defaults to 2; the heading outline audit reports it
+        heading: { supported: ['aria-level'] },
+        insertion: { prohibited: ['aria-label', 'aria-labelledby'] },
+        link: { supported: ['aria-expanded'] },
+        listbox: {
+            supported: [
+                'aria-activedescendant', 'aria-expanded', 'aria-multiselectable', 'aria-orientation',
+                'aria-readonly', 'aria-required'
+            ]
+        },
+        listitem: { supported: ['aria-level', 'aria-posinset', 'aria-setsize'] },
+        menu: { supported: ['aria-activedescendant', 'aria-orientation'] },
+        menubar: { supported: ['aria-activedescendant', 'aria-orientation'] },
+        menuitem: { supported: ['aria-expanded', 'aria-posinset', 'aria-setsize'] },
+        menuitemcheckbox: {
+            required: ['aria-checked'],
+            supported: ['aria-expanded', 'aria-posinset', 'aria-setsize']
+        },
+        menuitemradio: {
+            required: ['aria-checked'],
+            supported: ['aria-expanded', 'aria-posinset', 'aria-setsize']
+        },
+        meter: {
+            required: ['aria-valuenow'],
+            supported: ['aria-valuemax', 'aria-valuemin', 'aria-valuetext']
+        },
+        none: { prohibited: ['aria-label', 'aria-labelledby'] },
+        option: { supported: ['aria-checked', 'aria-posinset', 'aria-selected', 'aria-setsize'] },
+        paragraph: { prohibited: ['aria-label', 'aria-labelledby'] },
+        presentation: { prohibited: ['aria-label', 'aria-labelledby'] },
+        progressbar: { supported: ['aria-valuemax', 'aria-valuemin', 'aria-valuenow', 'aria-valuetext'] },
+        radio: {
+            required: ['aria-checked'],
+            supported: ['aria-posinset', 'aria-setsize']
+        },
+        radiogroup: {
+            supported: ['aria-activedescendant', 'aria-orientation', 'aria-readonly', 'aria-required']
+        },
+        row: {
+            supported: [
+                'aria-activedescendant', 'aria-colindex', 'aria-expanded', 'aria-level', 'aria-posinset',
+                'aria-rowindex', 'aria-selected', 'aria-setsize'
+            ]
+        },
+        rowheader: {
+            supported: [
+                'aria-colindex', 'aria-colspan', 'aria-expanded', 'aria-readonly', 'aria-required',
+                'aria-rowindex', 'aria-rowspan', 'aria-selected', 'aria-sort'
+            ]
+        },
+        scrollbar: {
+            required: ['aria-controls', 'aria-valuenow'],
+            supported: ['aria-orientation', 'aria-valuemax', 'aria-valuemin', 'aria-valuetext']
+        },
+        searchbox: {
+            supported: [
+                'aria-activedescendant', 'aria-autocomplete', 'aria-multiline', 'aria-placeholder',
+                'aria-readonly', 'aria-required'
+            ]
+        },
+        separator: {
+            supported: ['aria-orientation', 'aria-valuemax', 'aria-valuemin', 'aria-valuenow', 'aria-valuetext']
+        },
+        slider: {
+            required: ['aria-valuenow'],
+            supported: ['aria-orientation', 'aria-readonly', 'aria-valuemax', 'aria-valuemin', 'aria-valuetext']
+        },
+        spinbutton: {
+            supported: [
+                'aria-activedescendant', 'aria-readonly', 'aria-required', 'aria-valuemax',
+                'aria-valuemin', 'aria-valuenow', 'aria-valuetext'
+            ]
+        },
+        strong: { prohibited: ['aria-label', 'aria-labelledby'] },
+        subscript: { prohibited: ['aria-label', 'aria-labelledby'] },
+        superscript: { prohibited: ['aria-label', 'aria-labelledby'] },
+        switch: {
+            required: ['aria-checked'],
+            supported: ['aria-expanded', 'aria-readonly', 'aria-required']
+        },
+        tab: { supported: ['aria-expanded', 'aria-posinset', 'aria-selected', 'aria-setsize'] },
+        table: { supported: ['aria-colcount', 'aria-rowcount'] },
+        tablist: { supported: ['aria-activedescendant', 'aria-multiselectable', 'aria-orientation'] },
+        textbox: {
+            supported: [
+                'aria-activedescendant', 'aria-autocomplete', 'aria-multiline', 'aria-placeholder',
+                'aria-readonly', 'aria-required'
+            ]
+        },
+        toolbar: { supported: ['aria-activedescendant', 'aria-orientation'] },
+        tree: {
+            supported: ['aria-activedescendant', 'aria-multiselectable', 'aria-orientation', 'aria-required']
+        },
+        treegrid: {
+            supported: [
+                'aria-activedescendant', 'aria-colcount', 'aria-multiselectable', 'aria-orientation',
+                'aria-readonly', 'aria-required', 'aria-rowcount'
+            ]
+        },
+        treeitem: {
+            supported: ['aria-checked', 'aria-expanded', 'aria-level', 'aria-posinset', 'aria-selected', 'aria-setsize']
+        }
+    };
+
+    /**
+     * Roles that must be owned by one of the listed roles (required context role)
+     */
+    private static readonly REQUIRED_CONTEXT_ROLES: Record<string, string[]> = {
+        cell: ['row'],
+        columnheader: ['row'],
+        gridcell: ['row'],
+        listitem: ['list', 'directory'],
+        menuitem: ['menu', 'menubar', 'group'],
+        menuitemcheckbox: ['menu', 'menubar', 'group'],
+        menuitemradio: ['menu', 'menubar', 'group'],
+        option: ['listbox', 'group'],
+        row: ['grid', 'rowgroup', 'table', 'treegrid'],
+        rowgroup: ['grid', 'table', 'treegrid'],
+        rowheader: ['row'],
+        tab: ['tablist'],
+        treeitem: ['tree', 'group']
+    };
+
+    /**
+     * Roles that must own at least one of the listed roles (required owned elements)
+     */
+    private static readonly REQUIRED_OWNED_ROLES: Record<string, string[]> = {
+        feed: ['article'],
+        grid: ['row', 'rowgroup'],
+        list: ['listitem'],
+        listbox: ['option', 'group'],
+        menu: ['menuitem', 'menuitemcheckbox', 'menuitemradio', 'group'],
+        menubar: ['menuitem', 'menuitemcheckbox', 'menuitemradio', 'group'],
+        row: ['cell', 'columnheader', 'gridcell', 'rowheader'],
+        rowgroup: ['row'],
+        table: ['row', 'rowgroup'],
+        tablist: ['tab'],
+        tree: ['treeitem', 'group'],
+        treegrid: ['row', 'rowgroup']
+    };
+
+    /**
+     * ARIA attributes whose value references other elements by id
+     */
+    private static readonly ID_REFERENCE_ATTRIBUTES = [
+        'aria-activedescendant', 'aria-controls', 'aria-describedby', 'aria-details',
+        'aria-errormessage', 'aria-flowto', 'aria-labelledby', 'aria-owns'
+    ];
+
     /**
      * Interactive elements that should have accessible names
      */
@@ -191,21 +694,103 @@ export class ARIAValidator {
 
     /**
      * Validate an ARIA role
+     * Abstract roles are invalid; deprecated and module roles are valid but carry their status.
      */
     public validateRole(role: string): ARIAValidationResult {
-        const isValid = ARIAValidator.VALID_ROLES.includes(role);
+        const definition = ARIAValidator.ROLES[role];
+        const allowedValues = Object.keys(ARIAValidator.ROLES)
+            .filter(name => ARIAValidator.ROLES[name].category !== 'abstract');
+
+        if (!definition) {
+            return {
+                isValid: false,
+                attribute: 'role',
+                value: role,
+                allowedValues,
+                status: 'unknown',
+                recommendation: `'${role}' is not a valid ARIA role. Use one of the standard WAI-ARIA roles.`
+            };
+        }
+
+        if (definition.category === 'abstract') {
+            return {
+                isValid: false,
+                attribute: 'role',
+                value: role,
+                allowedValues,
+                status: 'abstract',
+                since: definition.since,
+                recommendation: `'${role}' is an abstract role that only structures the ARIA taxonomy. Use a concrete role instead.`
+            };
+        }
+
+        if (definition.deprecated) {
+            return {
+                isValid: true,
+                attribute: 'role',
+                value: role,
+                status: 'deprecated',
+                since: definition.since,
+                recommendation: `'${role}' is deprecated since ${this.getSpecificationName(definition.module)} ${definition.deprecated}.` +
+                    (definition.replacement ? ` Use '${definition.replacement}' instead.` : '')
+            };
+        }
+
+        if (definition.module) {
+            return {
+                isValid: true,
+                attribute: 'role',
+                value: role,
+                status: 'module',
+                since: definition.since,
+                recommendation: `'${role}' is defined by ${this.getSpecificationName(definition.module)}, which not all assistive technologies support.`
+            };
+        }
 
         return {
-            isValid,
+            isValid: true,
             attribute: 'role',
             value: role,
-            allowedValues: ARIAValidator.VALID_ROLES,
-            recommendation: isValid
-                ? undefined
-                : `'${role}' is not a valid ARIA role. Use one of the standard WAI-ARIA roles.`
+            status: 'standard',
+            since: definition.since
         };
     }
 
+    /**
+     * Get the name of the specification a role belongs to
+     */
+    private getSpecificationName(module?: 'dpub' | 'graphics'): string {
+        switch (module) {
+            case 'dpub':
+                return 'DPUB-ARIA';
+            case 'graphics':
+                return 'Graphics-ARIA';
+            default:
+                return 'WAI-ARIA';
+        }
+    }
+
+    /**
+     * Check if a role is a landmark role
+     */
+    public isLandmarkRole(role: string): boolean {
+        return ARIAValidator.ROLES[role]?.category === 'landmark';
+    }
+
+    /**
+     * Check if an ARIA attribute holds ID references
+     */
+    public isIdReferenceAttribute(attributeName: string): boolean {
+        return ARIAValidator.ID_REFERENCE_ATTRIBUTES.includes(attributeName);
+    }
+
+    /**
+     * Check if an attribute is a known ARIA state or property
+     */
+    public isKnownAttribute(attributeName: string): boolean {
+        return attributeName in ARIAValidator.ARIA_PROPERTIES;
+    }
+
     /**
      * Validate an ARIA attribute
      */
@@ -228,11 +813,33 @@ export class ARIAValidator {
                 isValid: false,
                 attribute: attributeName,
                 value,
+                status: 'unknown',
                 recommendation: `'${attributeName}' is not a valid ARIA attribute`
             };
         }
 
-        // Validate value based on type
+        const result = this.validateValue(attributeName, value, property);
+
+        if (result.isValid && property.deprecated) {
+            return {
+                ...result,
+                status: 'deprecated',
+                since: property.since,
+                recommendation: `'${attributeName}' is deprecated since WAI-ARIA ${property.deprecated} and is not supported by assistive technologies`
+            };
+        }
+
+        return { ...result, status: 'standard', since: property.since };
+    }
+
+    /**
+     * Validate an ARIA attribute value based on its type
+     */
+    private validateValue(
+        attributeName: string,
+        value: string,
+        property: { type: string; allowedValues?: string[] }
+    ): ARIAValidationResult {
         switch (property.type) {
             case 'boolean':
                 return this.validateBooleanValue(attributeName, value, property.allowedValues);
@@ -244,7 +851,7 @@ export class ARIAValidator {
                 return this.validateTokenValue(attributeName, value, property.allowedValues || []);
 
             case 'tokenlist':
-                return this.validateTokenListValue(attributeName, value);
+                return this.validateTokenListValue(attributeName, value, property.allowedValues);
 
             case 'integer':
                 return this.validateIntegerValue(attributeName, value);
@@ -326,10 +933,25 @@ export class ARIAValidator {
     }
 
     /**
-     * Validate token list ARIA value (space-separated IDs)
+     * Validate token list ARIA value (space-separated IDs, or tokens when allowedValues is given)
      */
-    private validateTokenListValue(attribute: string, value: string): ARIAValidationResult {
+    private validateTokenListValue(attribute: string, value: string, allowedValues?: string[]): ARIAValidationResult {
         const tokens = value.trim().split(/\s+/);
+
+        if (allowedValues) {
+            const isValid = tokens.every(token => allowedValues.includes(token.toLowerCase()));
+
+            return {
+                isValid,
+                attribute,
+                value,
+                allowedValues,
+                recommendation: isValid
+                    ? undefined
+                    : `Value must be a space-separated list of: ${allowedValues.join(', ')}`
+            };
+        }
+
         const isValid = tokens.every(token => /^[a-zA-Z][\w\-:.]*$/.test(token));
 
         return {
@@ -390,6 +1012,27 @@ export class ARIAValidator {
         };
     }
 
+    /**
+     * Roles whose accessible name is required (WAI-ARIA 1.2)
+     */
+    private static readonly ROLES_REQUIRING_NAME = [
+        'alertdialog', 'button', 'checkbox', 'columnheader', 'combobox', 'dialog',
+        'document', 'grid', 'heading', 'img', 'link', 'listbox', 'menuitem',
+        'menuitemcheckbox', 'menuitemradio', 'meter', 'option', 'progressbar',
+        'radio', 'radiogroup', 'rowheader', 'scrollbar', 'searchbox', 'slider',
+        'spinbutton', 'switch', 'tab', 'tabpanel', 'textbox', 'tree', 'treegrid',
+        'treeitem'
+    ];
+
+    /**
+     * Roles that take their accessible name from their content
+     */
+    private static readonly ROLES_NAMED_FROM_CONTENT = [
+        'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link',
+        'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row',
+        'rowheader', 'sectionhead', 'switch', 'tab', 'tooltip', 'treeitem'
+    ];
+
     /**
      * Check if an element needs an accessible name
      */
@@ -400,12 +1043,157 @@ export class ARIAValidator {
         }
 
         // Check if role requires accessible name
-        const rolesRequiringName = [
-            'button', 'link', 'checkbox', 'radio', 'textbox', 'combobox',
-            'listbox', 'option', 'tab', 'menuitem', 'slider', 'switch'
-        ];
+        return role ? ARIAValidator.ROLES_REQUIRING_NAME.includes(role) : false;
+    }
+
+    /**
+     * Check if a role allows its accessible name to be computed from content
+     */
+    public allowsNameFromContent(role?: string): boolean {
+        return role ? ARIAValidator.ROLES_NAMED_FROM_CONTENT.includes(role) : false;
+    }
+
+    /**
+     * Get the implicit ARIA role of a native HTML element (HTML-AAM)
+     * @param tagName - Lower-case tag name
+     * @param attributes - Element attributes keyed by lower-case name
+     */
+    public getImplicitRole(tagName: string, attributes: Record<string, string>): string | undefined {
+        switch (tagName) {
+            case 'a':
+            case 'area':
+                return 'href' in attributes ? 'link' : undefined;
+            case 'button':
+                return 'button';
+            case 'h1':
+            case 'h2':
+            case 'h3':
+            case 'h4':
+            case 'h5':
+            case 'h6':
+                return 'heading';
+            case 'img':
+                return attributes['alt'] === '' ? 'presentation' : 'img';
+            case 'input':
+                return this.getInputRole(attributes);
+            case 'select':
+                return 'multiple' in attributes || parseInt(attributes['size'] || '1') > 1 ? 'listbox' : 'combobox';
+            case 'textarea':
+                return 'textbox';
+            case 'option':
+                return 'option';
+            case 'ul':
+            case 'ol':
+            case 'menu':
+                return 'list';
+            case 'li':
+                return 'listitem';
+            case 'nav':
+                return 'navigation';
+            case 'main':
+                return 'main';
+            case 'aside':
+                return 'complementary';
+            case 'form':
+                return 'form';
+            case 'search':
+                return 'search';
+            case 'dialog':
+                return 'dialog';
+            case 'table':
+                return 'table';
+            case 'tr':
+                return 'row';
+            case 'td':
+                return 'cell';
+            case 'th':
+                return 'columnheader';
+            case 'thead':
+            case 'tbody':
+            case 'tfoot':
+                return 'rowgroup';
+            case 'progress':
+                return 'progressbar';
+            case 'meter':
+                return 'meter';
+            case 'hr':
+                return 'separator';
+            case 'fieldset':
+            case 'details':
+            case 'optgroup':
+                return 'group';
+            case 'figure':
+                return 'figure';
+            case 'article':
+                return 'article';
+            case 'summary':
+                return 'button';
+            case 'div':
+            case 'span':
+                return 'generic';
+            case 'p':
+                return 'paragraph';
+            case 'blockquote':
+                return 'blockquote';
+            case 'caption':
+                return 'caption';
+            case 'code':
+                return 'code';
+            case 'del':
+                return 'deletion';
+            case 'ins':
+                return 'insertion';
+            case 'em':
+                return 'emphasis';
+            case 'strong':
+                return 'strong';
+            case 'sub':
+                return 'subscript';
+            case 'sup':
+                return 'superscript';
+            case 'time':
+                return 'time';
+            default:
+                return undefined;
+        }
+    }
 
-        return role ? rolesRequiringName.includes(role) : false;
+    /**
+     * Get the implicit role of an input element from its type
+     */
+    private getInputRole(attributes: Record<string, string>): string | undefined {
+        const type = (attributes['type'] || 'text').toLowerCase();
+        const hasList = 'list' in attributes;
+
+        switch (type) {
+            case 'button':
+            case 'submit':
+            case 'reset':
+            case 'image':
+                return 'button';
+            case 'checkbox':
+                return 'checkbox';
+            case 'radio':
+                return 'radio';
+            case 'range':
+                return 'slider';
+            case 'number':
+                return 'spinbutton';
+            case 'search':
+                return hasList ? 'combobox' : 'searchbox';
+            case 'hidden':
+            case 'file':
+            case 'color':
+            case 'date':
+            case 'datetime-local':
+            case 'month':
+            case 'time':
+            case 'week':
+            case 'password':
+                return undefined;
+            default:
+                return hasList ? 'combobox' : 'textbox';
+        }
     }
 
     /**
@@ -433,32 +1221,69 @@ export class ARIAValidator {
     }
 
     /**
-     * Get recommended ARIA attributes for an element
+     * Get the states and properties a role requires
      */
-    public getRecommendedAttributes(tagName: string, role?: string): string[] {
-        const recommendations: string[] = [];
+    public getRequiredAttributes(role: string): string[] {
+        return ARIAValidator.ROLE_ATTRIBUTES[role]?.required || [];
+    }
 
-        // Based on element type or role, suggest appropriate ARIA attributes
-        if (tagName === 'button' || role === 'button') {
-            recommendations.push('aria-pressed (for toggle buttons)');
-            recommendations.push('aria-expanded (for disclosure buttons)');
-        }
+    /**
+     * Get the states and properties a role prohibits
+     */
+    public getProhibitedAttributes(role: string): string[] {
+        return ARIAValidator.ROLE_ATTRIBUTES[role]?.prohibited || [];
+    }
 
-        if (tagName === 'input') {
-            recommendations.push('aria-label or aria-labelledby');
-            recommendations.push('aria-required (if required)');
-            recommendations.push('aria-invalid (for validation)');
+    /**
+     * Check if a role supports an ARIA attribute (globally or role-specifically)
+     */
+    public isAttributeSupported(role: string, attributeName: string): boolean {
+        const spec = ARIAValidator.ROLE_ATTRIBUTES[role] || {};
+
+        if (spec.prohibited?.includes(attributeName)) {
+            return false;
         }
 
-        if (role === 'dialog') {
-            recommendations.push('aria-modal');
-            recommendations.push('aria-labelledby or aria-label');
+        return ARIAValidator.GLOBAL_ATTRIBUTES.includes(attributeName) ||
+            (spec.required || []).includes(attributeName) ||
+            (spec.supported || []).includes(attributeName);
+    }
+
+    /**
+     * Get the roles one of which must own an element with this role
+     */
+    public getRequiredContextRoles(role: string): string[] {
+        return ARIAValidator.REQUIRED_CONTEXT_ROLES[role] || [];
+    }
+
+    /**
+     * Get the roles an element with this role must own at least one of
+     */
+    public getRequiredOwnedRoles(role: string): string[] {
+        return ARIAValidator.REQUIRED_OWNED_ROLES[role] || [];
+    }
+
+    /**
+     * Get recommended ARIA attributes for an element
+     * @param tagName - Lower-case tag name
+     * @param role - Explicit role; the implicit role of tagName is used otherwise
+     */
+    public getRecommendedAttributes(tagName: string, role?: string): string[] {
+        const effectiveRole = role || this.getImplicitRole(tagName, {});
+        if (!effectiveRole) {
+            return [];
         }
 
-        if (role === 'region') {
-            recommendations.push('aria-labelledby or aria-label');
+        const spec = ARIAValidator.ROLE_ATTRIBUTES[effectiveRole] || {};
+        const recommendations = (spec.required || []).map(attr => `${attr} (required)`);
+
+        if (this.needsAccessibleName(tagName, effectiveRole) &&
+            !this.getProhibitedAttributes(effectiveRole).includes('aria-label')) {
+            recommendations.push('aria-label or aria-labelledby');
         }
 
+        recommendations.push(...(spec.supported || []));
+
         return recommendations;
     }
 }
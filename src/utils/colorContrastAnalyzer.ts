@@ -6,7 +6,8 @@
  * @description Analyzes color contrast ratios according to WCAG 2.1 guidelines
  */
 
-import { ColorContrastResult } from '../types';
+import { ColorContrastResult, ContrastRange, RGBAColor } from '../types';
+import { CSSColorParser } from './cssColorParser';
 
 /**
  * ColorContrastAnalyzer class
@@ -22,26 +23,73 @@ export class ColorContrastAnalyzer {
     private static readonly WCAG_AAA_NORMAL = 7.0;
     private static readonly WCAG_AAA_LARGE = 4.5;
 
+    private colorParser: CSSColorParser = new CSSColorParser();
+
+    /**
+     * White browser canvas, behind everything else on the page
+     */
+    private static readonly CANVAS: RGB = { r: 255, g: 255, b: 255 };
+
+    /**
+     * Levels per channel of the backdrop grid sampled when both colors are translucent
+     */
+    private static readonly BACKDROP_SAMPLE_LEVELS = 6;
+
+    /**
+     * Bisection steps used to find the backdrop where the colors match in luminance
+     */
+    private static readonly BISECTION_STEPS = 24;
+
     /**
      * Analyze color contrast between foreground and background colors
+     * A translucent foreground is composited over the background, and a translucent
+     * background over the backdrop. Without a backdrop, the worst and best case over
+     * all backdrops are reported.
      * @param foreground - Foreground color in any CSS format
      * @param background - Background color in any CSS format
+     * @param backdrop - Inherited or assumed page background behind the background
      * @returns ColorContrastResult with detailed analysis
+     * @throws Error naming the color when a color cannot be parsed
      */
-    public analyzeContrast(foreground: string, background: string): ColorContrastResult {
-        const fgRgb = this.parseColor(foreground);
-        const bgRgb = this.parseColor(background);
+    public analyzeContrast(foreground: string, background: string, backdrop?: string): ColorContrastResult {
+        const fgColor = this.parseColor(foreground);
+        const bgColor = this.parseColor(background);
+        const backdropColor = backdrop !== undefined ? this.parseColor(backdrop) : undefined;
 
-        if (!fgRgb || !bgRgb) {
-            throw new Error('Invalid color format. Use hex, rgb, or rgba format.');
+        if (!fgColor || !bgColor || backdropColor === null) {
+            throw new Error(`Unable to parse color "${!fgColor ? foreground : !bgColor ? background : backdrop}"`);
         }
 
-        const contrastRatio = this.calculateContrastRatio(fgRgb, bgRgb);
+        let comparison: ContrastComparison;
+        let contrastRange: ContrastRange | undefined;
+
+        if (bgColor.alpha >= 1 || backdropColor) {
+            // A translucent backdrop sits on the canvas itself
+            const page = backdropColor ? this.composite(backdropColor, ColorContrastAnalyzer.CANVAS) : ColorContrastAnalyzer.CANVAS;
+            comparison = this.compare(fgColor, bgColor, page);
+        } else {
+            const estimated = fgColor.alpha < 1;
+            const [worst, best] = estimated
+                ? this.sampleBackdrops(fgColor, bgColor)
+                : this.compareOverBackdrops(fgColor, bgColor);
+
+            comparison = worst;
+            contrastRange = {
+                worst: this.roundRatio(worst.contrastRatio),
+                best: this.roundRatio(best.contrastRatio),
+                ...(estimated ? { estimated } : {})
+            };
+        }
+
+        const contrastRatio = comparison.contrastRatio;
 
         return {
             foreground,
             background,
-            contrastRatio: Math.round(contrastRatio * 100) / 100,
+            effectiveForeground: this.toHex(comparison.foreground),
+            effectiveBackground: this.toHex(comparison.background),
+            contrastRatio: this.roundRatio(contrastRatio),
+            contrastRange,
             passesAA: contrastRatio >= ColorContrastAnalyzer.WCAG_AA_NORMAL,
             passesAAA: contrastRatio >= ColorContrastAnalyzer.WCAG_AAA_NORMAL,
             passesAALarge: contrastRatio >= ColorContrastAnalyzer.WCAG_AA_LARGE,
@@ -49,6 +97,92 @@ export class ColorContrastAnalyzer {
         };
     }
 
+    /**
+     * Composite the colors over a backdrop and compare the results
+     */
+    private compare(foreground: RGBAColor, background: RGBAColor, backdrop: RGB): ContrastComparison {
+        const effectiveBackground = this.composite(background, backdrop);
+        const effectiveForeground = this.composite(foreground, effectiveBackground);
+
+        return {
+            foreground: effectiveForeground,
+            background: effectiveBackground,
+            contrastRatio: this.calculateContrastRatio(effectiveForeground, effectiveBackground)
+        };
+    }
+
+    /**
+     * Exact worst and best case of an opaque foreground over any backdrop
+     * The composited background ranges in luminance from its value over black to
+     * its value over white, and gray backdrops reach every luminance in between.
+     * The best case is at one end; the worst is where the luminances match, or
+     * the nearer end when the foreground is outside the range.
+     */
+    private compareOverBackdrops(foreground: RGBAColor, background: RGBAColor): [ContrastComparison, ContrastComparison] {
+        const overGray = (shade: number) => this.compare(foreground, background, { r: shade, g: shade, b: shade });
+        const [darkest, lightest] = [overGray(0), overGray(255)];
+        const target = this.getRelativeLuminance(foreground);
+        const best = darkest.contrastRatio >= lightest.contrastRatio ? darkest : lightest;
+
+        if (target <= this.getRelativeLuminance(darkest.background) ||
+            target >= this.getRelativeLuminance(lightest.background)) {
+            return [darkest.contrastRatio < lightest.contrastRatio ? darkest : lightest, best];
+        }
+
+        let [low, high] = [0, 255];
+        for (let step = 0; step < ColorContrastAnalyzer.BISECTION_STEPS; step++) {
+            const middle = (low + high) / 2;
+            if (this.getRelativeLuminance(overGray(middle).background) < target) {
+                low = middle;
+            } else {
+                high = middle;
+            }
+        }
+
+        return [overGray((low + high) / 2), best];
+    }
+
+    /**
+     * Estimated worst and best case over a grid of backdrops, for a translucent
+     * foreground whose own backdrop changes with the page background
+     */
+    private sampleBackdrops(foreground: RGBAColor, background: RGBAColor): [ContrastComparison, ContrastComparison] {
+        const levels = Array.from({ length: ColorContrastAnalyzer.BACKDROP_SAMPLE_LEVELS },
+            (_, index) => index * 255 / (ColorContrastAnalyzer.BACKDROP_SAMPLE_LEVELS - 1));
+        const comparisons = levels
+            .flatMap(r => levels.flatMap(g => levels.map(b => this.compare(foreground, background, { r, g, b }))))
+            .sort((a, b) => a.contrastRatio - b.contrastRatio);
+
+        return [comparisons[0], comparisons[comparisons.length - 1]];
+    }
+
+    /**
+     * Source-over compositing of a translucent color onto an opaque backdrop
+     */
+    private composite(color: RGBAColor, backdrop: RGB): RGB {
+        return {
+            r: color.r * color.alpha + backdrop.r * (1 - color.alpha),
+            g: color.g * color.alpha + backdrop.g * (1 - color.alpha),
+            b: color.b * color.alpha + backdrop.b * (1 - color.alpha)
+        };
+    }
+
+    /**
+     * Format an opaque color as #rrggbb
+     */
+    private toHex(rgb: RGB): string {
+        return '#' + [rgb.r, rgb.g, rgb.b]
+            .map(channel => Math.round(channel).toString(16).padStart(2, '0'))
+            .join('');
+    }
+
+    /**
+     * Round a contrast ratio to two decimals for display
+     */
+    private roundRatio(ratio: number): number {
+        return Math.round(ratio * 100) / 100;
+    }
+
     /**
      * Calculate contrast ratio between two RGB colors
      * Formula: (L1 + 0.05) / (L2 + 0.05) where L1 is the lighter color
@@ -80,84 +214,25 @@ export class ColorContrastAnalyzer {
     }
 
     /**
-     * Parse color string to RGB values
-     * Supports hex (#RRGGBB, #RGB), rgb(r,g,b), and rgba(r,g,b,a) formats
+     * Check whether a value is a color that can be evaluated
      */
-    private parseColor(color: string): RGB | null {
-        color = color.trim();
-
-        // Hex format (#RRGGBB or #RGB)
-        if (color.startsWith('#')) {
-            return this.parseHexColor(color);
-        }
-
-        // RGB or RGBA format
-        if (color.startsWith('rgb')) {
-            return this.parseRgbColor(color);
-        }
-
-        // Named colors (basic set)
-        const namedColors: Record<string, RGB> = {
-            'white': { r: 255, g: 255, b: 255 },
-            'black': { r: 0, g: 0, b: 0 },
-            'red': { r: 255, g: 0, b: 0 },
-            'green': { r: 0, g: 128, b: 0 },
-            'blue': { r: 0, g: 0, b: 255 },
-            'yellow': { r: 255, g: 255, b: 0 },
-            'cyan': { r: 0, g: 255, b: 255 },
-            'magenta': { r: 255, g: 0, b: 255 },
-            'gray': { r: 128, g: 128, b: 128 },
-            'grey': { r: 128, g: 128, b: 128 }
-        };
-
-        return namedColors[color.toLowerCase()] || null;
+    public isValidColor(color: string): boolean {
+        return this.parseColor(color) !== null;
     }
 
     /**
-     * Parse hex color format
+     * Check whether a value is a fully transparent color
      */
-    private parseHexColor(hex: string): RGB | null {
-        hex = hex.replace('#', '');
-
-        // Convert 3-digit hex to 6-digit
-        if (hex.length === 3) {
-            hex = hex.split('').map(c => c + c).join('');
-        }
-
-        if (hex.length !== 6) {
-            return null;
-        }
-
-        const r = parseInt(hex.substring(0, 2), 16);
-        const g = parseInt(hex.substring(2, 4), 16);
-        const b = parseInt(hex.substring(4, 6), 16);
-
-        if (isNaN(r) || isNaN(g) || isNaN(b)) {
-            return null;
-        }
-
-        return { r, g, b };
+    public isTransparent(color: string): boolean {
+        return this.parseColor(color)?.alpha === 0;
     }
 
     /**
-     * Parse RGB/RGBA color format
+     * Parse a CSS color value to RGB values
+     * Supports every CSS Color Level 4 syntax handled by CSSColorParser
      */
-    private parseRgbColor(rgb: string): RGB | null {
-        const matches = rgb.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
-
-        if (!matches) {
-            return null;
-        }
-
-        const r = parseInt(matches[1]);
-        const g = parseInt(matches[2]);
-        const b = parseInt(matches[3]);
-
-        if (isNaN(r) || isNaN(g) || isNaN(b)) {
-            return null;
-        }
-
-        return { r, g, b };
+    private parseColor(color: string): RGBAColor | null {
+        return this.colorParser.parse(color);
     }
 
     /**
@@ -255,3 +330,12 @@ interface RGB {
     g: number;
     b: number;
 }
+
+/**
+ * Opaque colors that were compared and their contrast ratio
+ */
+interface ContrastComparison {
+    foreground: RGB;
+    background: RGB;
+    contrastRatio: number;
+}
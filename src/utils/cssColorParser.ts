@@ -0,0 +1,635 @@
+/**
+ * CSS Color Parser Utility
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Parses CSS Color Module Level 4 values into sRGB
+ */
+
+import { RGBAColor } from '../types';
+
+/**
+ * Color coordinates in one color space, with alpha
+ */
+type Coordinates = [number, number, number];
+
+/**
+ * Color spaces that color-mix() can interpolate in
+ */
+type MixSpace = 'srgb' | 'srgb-linear' | 'lab' | 'oklab' | 'xyz' | 'xyz-d50' | 'xyz-d65' | 'hsl' | 'hwb' | 'lch' | 'oklch';
+
+/**
+ * CSSColorParser class
+ * Supports named colors, hex (#RGB, #RGBA, #RRGGBB, #RRGGBBAA), rgb()/rgba(),
+ * hsl()/hsla(), hwb(), lab(), lch(), oklab(), oklch() and color-mix(), in both
+ * the legacy comma syntax and the space syntax with "/ alpha". Colors outside
+ * the sRGB gamut are clipped.
+ */
+export class CSSColorParser {
+    /**
+     * CSS named colors
+     */
+    private static readonly NAMED_COLORS: Record<string, string> = {
+        aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+        beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+        blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+        chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+        cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+        darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+        darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+        darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1',
+        darkviolet: '9400d3', deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969',
+        dodgerblue: '1e90ff', firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff',
+        gainsboro: 'dcdcdc', ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080',
+        green: '008000', greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4',
+        indianred: 'cd5c5c', indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa',
+        lavenderblush: 'fff0f5', lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080',
+        lightcyan: 'e0ffff', lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90',
+        lightgrey: 'd3d3d3', lightpink: 'ffb6c1', lightsalmon: 'ffa07a', lightseagreen: '20b2aa',
+        lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899', lightsteelblue: 'b0c4de',
+        lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6', magenta: 'ff00ff',
+        maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+        mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a',
+        mediumturquoise: '48d1cc', mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa',
+        mistyrose: 'ffe4e1', moccasin: 'ffe4b5', navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6',
+        olive: '808000', olivedrab: '6b8e23', orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6',
+        palegoldenrod: 'eee8aa', palegreen: '98fb98', paleturquoise: 'afeeee', palevioletred: 'db7093',
+        papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f', pink: 'ffc0cb', plum: 'dda0dd',
+        powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399', red: 'ff0000', rosybrown: 'bc8f8f',
+        royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072', sandybrown: 'f4a460', seagreen: '2e8b57',
+        seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0', skyblue: '87ceeb', slateblue: '6a5acd',
+        slategray: '708090', slategrey: '708090', snow: 'fffafa', springgreen: '00ff7f', steelblue: '4682b4',
+        tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8', tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee',
+        wheat: 'f5deb3', white: 'ffffff', whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+        transparent: '00000000'
+    };
+
+    /**
+     * D50 reference white used by lab() and lch()
+     */
+    private static readonly D50_WHITE: Coordinates = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+    /**
+     * Conversion matrices between linear sRGB, XYZ (D65) and XYZ (D50)
+     */
+    private static readonly LINEAR_SRGB_TO_XYZ_D65 = [
+        [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+        [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+        [0.01933081871559182, 0.11919477979462598, 0.9505321522496607]
+    ];
+    private static readonly XYZ_D65_TO_LINEAR_SRGB = [
+        [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+        [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+        [0.05563007969699366, -0.20397695888897652, 1.0569715142428786]
+    ];
+    private static readonly XYZ_D50_TO_D65 = [
+        [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+        [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+        [0.012314001688319899, -0.020507696433477912, 1.3303659366080753]
+    ];
+    private static readonly XYZ_D65_TO_D50 = [
+        [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+        [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+        [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008]
+    ];
+
+    /**
+     * Parse a CSS color value
+     * @returns The color in sRGB (0-255 channels, 0-1 alpha), or null when the
+     * value is not a color or cannot be resolved statically (var(), currentColor)
+     */
+    public parse(value: string): RGBAColor | null {
+        const parsed = this.parseToSRGB(value.trim().toLowerCase());
+        if (!parsed) {
+            return null;
+        }
+
+        const [coordinates, alpha] = parsed;
+        const [r, g, b] = coordinates.map(channel => Math.round(Math.min(1, Math.max(0, channel)) * 255 * 1000) / 1000);
+
+        return { r, g, b, alpha: Math.min(1, Math.max(0, alpha)) };
+    }
+
+    /**
+     * Parse a color to unclipped sRGB coordinates (0-1) and alpha
+     */
+    private parseToSRGB(value: string): [Coordinates, number] | null {
+        if (value.startsWith('#')) {
+            return this.parseHex(value.slice(1));
+        }
+
+        if (CSSColorParser.NAMED_COLORS[value]) {
+            return this.parseHex(CSSColorParser.NAMED_COLORS[value]);
+        }
+
+        const match = /^([a-z-]+)\((.*)\)$/s.exec(value);
+        if (!match) {
+            return null;
+        }
+
+        const [, name, args] = match;
+
+        if (name === 'color-mix') {
+            return this.parseColorMix(args);
+        }
+
+        const components = this.splitComponents(args);
+        if (!components || components.values.length !== 3) {
+            return null;
+        }
+
+        const alpha = components.alpha === undefined ? 1 : this.parseAlpha(components.alpha);
+        const coordinates = this.parseFunctionCoordinates(name, components.values);
+
+        return coordinates && alpha !== null ? [coordinates, alpha] : null;
+    }
+
+    /**
+     * Parse the channels of a color function into sRGB coordinates
+     */
+    private parseFunctionCoordinates(name: string, values: string[]): Coordinates | null {
+        switch (name) {
+            case 'rgb':
+            case 'rgba': {
+                const channels = values.map(value => this.parseNumber(value, 255));
+                return channels.every(channel => channel !== null)
+                    ? (channels as number[]).map(channel => channel / 255) as Coordinates
+                    : null;
+            }
+            case 'hsl':
+            case 'hsla':
+            case 'hwb': {
+                const hue = this.parseHue(values[0]);
+                const first = this.parseNumber(values[1], 100);
+                const second = this.parseNumber(values[2], 100);
+                if (hue === null || first === null || second === null) {
+                    return null;
+                }
+                return name === 'hwb' ? this.hwbToSRGB([hue, first, second]) : this.hslToSRGB([hue, first, second]);
+            }
+            case 'lab':
+            case 'oklab': {
+                const scale = name === 'lab' ? [100, 125] : [1, 0.4];
+                const lightness = this.parseNumber(values[0], scale[0]);
+                const a = this.parseNumber(values[1], scale[1]);
+                const b = this.parseNumber(values[2], scale[1]);
+                if (lightness === null || a === null || b === null) {
+                    return null;
+                }
+                return this.fromSpace([lightness, a, b], name);
+            }
+            case 'lch':
+            case 'oklch': {
+                const scale = name === 'lch' ? [100, 150] : [1, 0.4];
+                const lightness = this.parseNumber(values[0], scale[0]);
+                const chroma = this.parseNumber(values[1], scale[1]);
+                const hue = this.parseHue(values[2]);
+                if (lightness === null || chroma === null || hue === null) {
+                    return null;
+                }
+                return this.fromSpace([lightness, chroma, hue], name);
+            }
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Parse hex digits (3, 4, 6 or 8)
+     */
+    private parseHex(hex: string): [Coordinates, number] | null {
+        if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) {
+            return null;
+        }
+
+        const digits = hex.length <= 4 ? hex.split('').map(digit => digit + digit).join('') : hex;
+        const channels = (digits.match(/../g) as string[]).map(pair => parseInt(pair, 16) / 255);
+
+        return [[channels[0], channels[1], channels[2]], channels.length === 4 ? channels[3] : 1];
+    }
+
+    /**
+     * Parse color-mix(in <space>, <color> [<percentage>], <color> [<percentage>])
+     */
+    private parseColorMix(args: string): [Coordinates, number] | null {
+        const parts = this.splitTopLevel(args, ',').map(part => part.trim());
+        const interpolation = /^in\s+([a-z0-9-]+)(?:\s+(shorter|longer|increasing|decreasing)\s+hue)?$/.exec(parts[0] || '');
+
+        if (parts.length !== 3 || !interpolation) {
+            return null;
+        }
+
+        const space = interpolation[1] as MixSpace;
+        const hueMethod = interpolation[2] || 'shorter';
+        if (!['srgb', 'srgb-linear', 'lab', 'oklab', 'xyz', 'xyz-d50', 'xyz-d65', 'hsl', 'hwb', 'lch', 'oklch'].includes(space)) {
+            return null;
+        }
+
+        const stops = parts.slice(1).map(part => {
+            const percentage = /(?:^|\s)(\d*\.?\d+)%\s*$|^\s*(\d*\.?\d+)%\s/.exec(part);
+            const color = percentage ? part.replace(percentage[0], ' ').trim() : part;
+            return {
+                color: this.parseToSRGB(color),
+                weight: percentage ? parseFloat(percentage[1] ?? percentage[2]) / 100 : undefined
+            };
+        });
+
+        if (!stops[0].color || !stops[1].color) {
+            return null;
+        }
+
+        // Normalise the percentages; a total below 100% also scales alpha down
+        let [p1, p2] = [stops[0].weight, stops[1].weight];
+        if (p1 === undefined && p2 === undefined) {
+            [p1, p2] = [0.5, 0.5];
+        } else if (p1 === undefined) {
+            p1 = 1 - (p2 as number);
+        } else if (p2 === undefined) {
+            p2 = 1 - p1;
+        }
+
+        const total = (p1 as number) + (p2 as number);
+        if (total <= 0) {
+            return null;
+        }
+
+        const t = (p2 as number) / total;
+        const [color1, alpha1] = stops[0].color;
+        const [color2, alpha2] = stops[1].color;
+        const coords1 = this.toSpace(color1, space);
+        const coords2 = this.toSpace(color2, space);
+        const hueIndex: number = space === 'hsl' || space === 'hwb' ? 0 : space === 'lch' || space === 'oklch' ? 2 : -1;
+
+        if (hueIndex >= 0) {
+            [coords1[hueIndex], coords2[hueIndex]] = this.fixupHues(coords1[hueIndex], coords2[hueIndex], hueMethod);
+        }
+
+        // Interpolate premultiplied values (hue is never premultiplied)
+        const alpha = alpha1 * (1 - t) + alpha2 * t;
+        const mixed = coords1.map((value, index) => {
+            if (index === hueIndex) {
+                return value * (1 - t) + coords2[index] * t;
+            }
+            const premultiplied = value * alpha1 * (1 - t) + coords2[index] * alpha2 * t;
+            return alpha === 0 ? premultiplied : premultiplied / alpha;
+        }) as Coordinates;
+
+        return [this.fromSpace(mixed, space), alpha * Math.min(total, 1)];
+    }
+
+    /**
+     * Adjust two hues for interpolation according to the hue interpolation method
+     */
+    private fixupHues(h1: number, h2: number, method: string): [number, number] {
+        const difference = h2 - h1;
+
+        if (method === 'shorter') {
+            if (difference > 180) {
+                h1 += 360;
+            } else if (difference < -180) {
+                h2 += 360;
+            }
+        } else if (method === 'longer') {
+            if (difference > 0 && difference < 180) {
+                h1 += 360;
+            } else if (difference > -180 && difference <= 0) {
+                h2 += 360;
+            }
+        } else if (method === 'increasing' && difference < 0) {
+            h2 += 360;
+        } else if (method === 'decreasing' && difference > 0) {
+            h1 += 360;
+        }
+
+        return [h1, h2];
+    }
+
+    /**
+     * Split function arguments into three channels and an optional alpha
+     * Accepts "a, b, c[, alpha]" and "a b c[ / alpha]"
+     */
+    private splitComponents(args: string): { values: string[]; alpha?: string } | null {
+        if (args.includes(',')) {
+            const parts = args.split(',').map(part => part.trim());
+            if (parts.length < 3 || parts.length > 4 || parts.some(part => part === '' || part === 'none')) {
+                return null;
+            }
+            return { values: parts.slice(0, 3), alpha: parts[3] };
+        }
+
+        const [channels, alpha, ...rest] = args.split('/').map(part => part.trim());
+        if (rest.length > 0 || alpha === '') {
+            return null;
+        }
+
+        return { values: channels.split(/\s+/).filter(part => part !== ''), alpha };
+    }
+
+    /**
+     * Split on a separator that is not nested inside parentheses
+     */
+    private splitTopLevel(text: string, separator: string): string[] {
+        const parts: string[] = [];
+        let depth = 0;
+        let current = '';
+
+        for (const character of text) {
+            if (character === '(') {
+                depth++;
+            } else if (character === ')') {
+                depth--;
+            }
+
+            if (character === separator && depth === 0) {
+                parts.push(current);
+                current = '';
+            } else {
+                current += character;
+            }
+        }
+
+        parts.push(current);
+        return parts;
+    }
+
+    /**
+     * Parse a number or percentage channel
+     * @param percentReference - Value that 100% corresponds to
+     */
+    private parseNumber(token: string, percentReference: number): number | null {
+        if (token === 'none') {
+            return 0;
+        }
+
+        const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/.exec(token);
+        if (!match) {
+            return null;
+        }
+
+        const value = parseFloat(match[1]);
+        return match[2] ? value / 100 * percentReference : value;
+    }
+
+    /**
+     * Parse a hue angle in degrees (deg, rad, grad, turn or unitless)
+     */
+    private parseHue(token: string): number | null {
+        if (token === 'none') {
+            return 0;
+        }
+
+        const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/.exec(token);
+        if (!match) {
+            return null;
+        }
+
+        const value = parseFloat(match[1]);
+        const degrees = match[2] === 'rad' ? value * 180 / Math.PI
+            : match[2] === 'grad' ? value * 0.9
+                : match[2] === 'turn' ? value * 360
+                    : value;
+
+        return ((degrees % 360) + 360) % 360;
+    }
+
+    /**
+     * Parse an alpha value (number or percentage)
+     */
+    private parseAlpha(token: string): number | null {
+        const alpha = this.parseNumber(token, 1);
+        return alpha === null ? null : Math.min(1, Math.max(0, alpha));
+    }
+
+    /**
+     * Convert sRGB coordinates into a color-mix() interpolation space
+     */
+    private toSpace(srgb: Coordinates, space: MixSpace | 'srgb'): Coordinates {
+        const linear = srgb.map(channel => this.toLinear(channel)) as Coordinates;
+
+        switch (space) {
+            case 'srgb':
+                return [...srgb] as Coordinates;
+            case 'srgb-linear':
+                return linear;
+            case 'xyz':
+            case 'xyz-d65':
+                return this.multiply(CSSColorParser.LINEAR_SRGB_TO_XYZ_D65, linear);
+            case 'xyz-d50':
+                return this.multiply(CSSColorParser.XYZ_D65_TO_D50, this.multiply(CSSColorParser.LINEAR_SRGB_TO_XYZ_D65, linear));
+            case 'lab':
+            case 'lch': {
+                const lab = this.xyzD50ToLab(
+                    this.multiply(CSSColorParser.XYZ_D65_TO_D50, this.multiply(CSSColorParser.LINEAR_SRGB_TO_XYZ_D65, linear)));
+                return space === 'lab' ? lab : this.toPolar(lab);
+            }
+            case 'oklab':
+            case 'oklch': {
+                const oklab = this.linearSRGBToOklab(linear);
+                return space === 'oklab' ? oklab : this.toPolar(oklab);
+            }
+            case 'hsl':
+                return this.srgbToHSL(srgb);
+            case 'hwb': {
+                const [hue] = this.srgbToHSL(srgb);
+                return [hue, Math.min(...srgb) * 100, (1 - Math.max(...srgb)) * 100];
+            }
+        }
+    }
+
+    /**
+     * Convert coordinates in a color space back to sRGB
+     */
+    private fromSpace(coordinates: Coordinates, space: MixSpace): Coordinates {
+        let linear: Coordinates;
+
+        switch (space) {
+            case 'srgb':
+                return coordinates;
+            case 'hsl':
+                return this.hslToSRGB(coordinates);
+            case 'hwb':
+                return this.hwbToSRGB(coordinates);
+            case 'srgb-linear':
+                linear = coordinates;
+                break;
+            case 'xyz':
+            case 'xyz-d65':
+                linear = this.multiply(CSSColorParser.XYZ_D65_TO_LINEAR_SRGB, coordinates);
+                break;
+            case 'xyz-d50':
+                linear = this.multiply(CSSColorParser.XYZ_D65_TO_LINEAR_SRGB, this.multiply(CSSColorParser.XYZ_D50_TO_D65, coordinates));
+                break;
+            case 'lab':
+            case 'lch': {
+                const lab = space === 'lab' ? coordinates : this.fromPolar(coordinates);
+                linear = this.multiply(CSSColorParser.XYZ_D65_TO_LINEAR_SRGB,
+                    this.multiply(CSSColorParser.XYZ_D50_TO_D65, this.labToXYZD50(lab)));
+                break;
+            }
+            case 'oklab':
+            case 'oklch':
+                linear = this.oklabToLinearSRGB(space === 'oklab' ? coordinates : this.fromPolar(coordinates));
+                break;
+        }
+
+        return linear.map(channel => this.fromLinear(channel)) as Coordinates;
+    }
+
+    /**
+     * sRGB transfer function: gamma-encoded to linear light
+     */
+    private toLinear(channel: number): number {
+        const magnitude = Math.abs(channel);
+        return magnitude <= 0.04045 ? channel / 12.92 : Math.sign(channel) * Math.pow((magnitude + 0.055) / 1.055, 2.4);
+    }
+
+    /**
+     * sRGB transfer function: linear light to gamma-encoded
+     */
+    private fromLinear(channel: number): number {
+        const magnitude = Math.abs(channel);
+        return magnitude <= 0.0031308 ? channel * 12.92 : Math.sign(channel) * (1.055 * Math.pow(magnitude, 1 / 2.4) - 0.055);
+    }
+
+    /**
+     * Multiply a 3x3 matrix by a vector
+     */
+    private multiply(matrix: number[][], vector: Coordinates): Coordinates {
+        return matrix.map(row => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]) as Coordinates;
+    }
+
+    /**
+     * CIE Lab (D50) to XYZ (D50)
+     */
+    private labToXYZD50([lightness, a, b]: Coordinates): Coordinates {
+        const kappa = 24389 / 27;
+        const epsilon = 216 / 24389;
+        const f1 = (lightness + 16) / 116;
+        const f0 = a / 500 + f1;
+        const f2 = f1 - b / 200;
+
+        const xyz: Coordinates = [
+            Math.pow(f0, 3) > epsilon ? Math.pow(f0, 3) : (116 * f0 - 16) / kappa,
+            lightness > kappa * epsilon ? Math.pow(f1, 3) : lightness / kappa,
+            Math.pow(f2, 3) > epsilon ? Math.pow(f2, 3) : (116 * f2 - 16) / kappa
+        ];
+
+        return xyz.map((value, index) => value * CSSColorParser.D50_WHITE[index]) as Coordinates;
+    }
+
+    /**
+     * XYZ (D50) to CIE Lab (D50)
+     */
+    private xyzD50ToLab(xyz: Coordinates): Coordinates {
+        const kappa = 24389 / 27;
+        const epsilon = 216 / 24389;
+        const [f0, f1, f2] = xyz
+            .map((value, index) => value / CSSColorParser.D50_WHITE[index])
+            .map(value => value > epsilon ? Math.cbrt(value) : (kappa * value + 16) / 116);
+
+        return [116 * f1 - 16, 500 * (f0 - f1), 200 * (f1 - f2)];
+    }
+
+    /**
+     * OKLab to linear sRGB
+     */
+    private oklabToLinearSRGB([lightness, a, b]: Coordinates): Coordinates {
+        const l = Math.pow(lightness + 0.3963377774 * a + 0.2158037573 * b, 3);
+        const m = Math.pow(lightness - 0.1055613458 * a - 0.0638541728 * b, 3);
+        const s = Math.pow(lightness - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+        return [
+            4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+            -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+            -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+        ];
+    }
+
+    /**
+     * Linear sRGB to OKLab
+     */
+    private linearSRGBToOklab([r, g, b]: Coordinates): Coordinates {
+        const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+        const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+        const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+        return [
+            0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+            1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+            0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+        ];
+    }
+
+    /**
+     * Rectangular (L, a, b) to polar (L, C, H)
+     */
+    private toPolar([lightness, a, b]: Coordinates): Coordinates {
+        const hue = Math.atan2(b, a) * 180 / Math.PI;
+        return [lightness, Math.sqrt(a * a + b * b), (hue + 360) % 360];
+    }
+
+    /**
+     * Polar (L, C, H) to rectangular (L, a, b)
+     */
+    private fromPolar([lightness, chroma, hue]: Coordinates): Coordinates {
+        const radians = hue * Math.PI / 180;
+        return [lightness, chroma * Math.cos(radians), chroma * Math.sin(radians)];
+    }
+
+    /**
+     * HSL (degrees, percentages) to sRGB
+     */
+    private hslToSRGB([hue, saturation, lightness]: Coordinates): Coordinates {
+        const s = saturation / 100;
+        const l = lightness / 100;
+        const channel = (n: number) => {
+            const k = (n + hue / 30) % 12;
+            const a = s * Math.min(l, 1 - l);
+            return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+        };
+
+        return [channel(0), channel(8), channel(4)];
+    }
+
+    /**
+     * HWB (degrees, percentages) to sRGB
+     */
+    private hwbToSRGB([hue, whiteness, blackness]: Coordinates): Coordinates {
+        const white = whiteness / 100;
+        const black = blackness / 100;
+
+        if (white + black >= 1) {
+            const gray = white / (white + black);
+            return [gray, gray, gray];
+        }
+
+        return this.hslToSRGB([hue, 100, 50]).map(channel => channel * (1 - white - black) + white) as Coordinates;
+    }
+
+    /**
+     * sRGB to HSL (degrees, percentages)
+     */
+    private srgbToHSL([r, g, b]: Coordinates): Coordinates {
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        const lightness = (max + min) / 2;
+        const delta = max - min;
+        let hue = 0;
+        let saturation = 0;
+
+        if (delta !== 0) {
+            saturation = lightness === 0 || lightness === 1 ? 0 : (max - lightness) / Math.min(lightness, 1 - lightness);
+
+            if (max === r) {
+                hue = (g - b) / delta + (g < b ? 6 : 0);
+            } else if (max === g) {
+                hue = (b - r) / delta + 2;
+            } else {
+                hue = (r - g) / delta + 4;
+            }
+            hue *= 60;
+        }
+
+        return [hue, saturation * 100, lightness * 100];
+    }
+}
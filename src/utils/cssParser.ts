@@ -0,0 +1,262 @@
+/**
+ * CSS Parser Utility
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Parses CSS, SCSS and LESS into style rules that keep exact source offsets
+ */
+
+import { StyleDeclaration, StyleRule, StyleSheet } from '../types';
+
+/**
+ * CSSParser class
+ * Splits a stylesheet into rules and declarations. Nested SCSS/LESS rules are
+ * flattened with their selectors resolved ('&' and descendant nesting), and rules
+ * inside at-rule blocks (@media, @supports) record the enclosing at-rule preludes.
+ */
+export class CSSParser {
+    /**
+     * Parse stylesheet source
+     * @param text - Stylesheet text
+     * @param languageId - VSCode language id; scss and less also allow // comments
+     * @param offset - Offset added to every position (for embedded stylesheets)
+     * @returns StyleSheet with flattened rules
+     */
+    public parse(text: string, languageId: string = 'css', offset: number = 0): StyleSheet {
+        const allowLineComments = languageId === 'scss' || languageId === 'less';
+        const rules: StyleRule[] = [];
+        const declarations: StyleDeclaration[] = [];
+
+        // Open blocks: a rule, or an at-rule (rule === null)
+        const stack: Array<{ rule: StyleRule | null; atRule?: string }> = [];
+        let preludeStart = -1;
+        let parenDepth = 0;
+        let pos = 0;
+
+        const currentRule = (): StyleRule | null => {
+            for (let i = stack.length - 1; i >= 0; i--) {
+                if (stack[i].rule) {
+                    return stack[i].rule;
+                }
+            }
+            return null;
+        };
+
+        const currentAtRules = (): string[] =>
+            stack.filter(entry => entry.atRule !== undefined).map(entry => entry.atRule as string);
+
+        const flushDeclaration = (end: number): void => {
+            if (preludeStart === -1) {
+                return;
+            }
+
+            const declaration = this.parseDeclaration(text, preludeStart, end, offset);
+            if (declaration) {
+                const rule = stack.length > 0 ? stack[stack.length - 1].rule : null;
+                (rule ? rule.declarations : declarations).push(declaration);
+            }
+            preludeStart = -1;
+        };
+
+        while (pos < text.length) {
+            const char = text[pos];
+
+            // Comments
+            if (text.startsWith('/*', pos)) {
+                const close = text.indexOf('*/', pos + 2);
+                pos = close === -1 ? text.length : close + 2;
+                continue;
+            }
+
+            if (allowLineComments && parenDepth === 0 && text.startsWith('//', pos)) {
+                const close = text.indexOf('\n', pos);
+                pos = close === -1 ? text.length : close;
+                continue;
+            }
+
+            // Strings
+            if (char === '"' || char === '\'') {
+                if (preludeStart === -1) {
+                    preludeStart = pos;
+                }
+                pos = this.skipString(text, pos);
+                continue;
+            }
+
+            // SCSS interpolation #{...} is part of the surrounding text
+            if (text.startsWith('#{', pos)) {
+                if (preludeStart === -1) {
+                    preludeStart = pos;
+                }
+                const close = text.indexOf('}', pos + 2);
+                pos = close === -1 ? text.length : close + 1;
+                continue;
+            }
+
+            if (char === '(') {
+                parenDepth++;
+            } else if (char === ')') {
+                parenDepth = Math.max(0, parenDepth - 1);
+            }
+
+            if (parenDepth > 0) {
+                if (preludeStart === -1) {
+                    preludeStart = pos;
+                }
+                pos++;
+                continue;
+            }
+
+            if (char === '{') {
+                const prelude = preludeStart === -1 ? '' : text.slice(preludeStart, pos).trim();
+                const blockStart = preludeStart === -1 ? pos : preludeStart;
+                preludeStart = -1;
+
+                if (prelude.startsWith('@')) {
+                    stack.push({ rule: null, atRule: prelude });
+                } else {
+                    const parent = currentRule();
+                    const rule: StyleRule = {
+                        selectors: this.resolveSelectors(prelude, parent ? parent.selectors : []),
+                        declarations: [],
+                        atRules: currentAtRules(),
+                        start: blockStart + offset,
+                        end: text.length + offset
+                    };
+                    rules.push(rule);
+                    stack.push({ rule });
+                }
+
+                pos++;
+                continue;
+            }
+
+            if (char === ';') {
+                flushDeclaration(pos);
+                pos++;
+                continue;
+            }
+
+            if (char === '}') {
+                flushDeclaration(pos);
+                const closed = stack.pop();
+                if (closed && closed.rule) {
+                    closed.rule.end = pos + 1 + offset;
+                }
+                pos++;
+                continue;
+            }
+
+            if (preludeStart === -1 && !/\s/.test(char)) {
+                preludeStart = pos;
+            }
+            pos++;
+        }
+
+        flushDeclaration(text.length);
+
+        return { rules, declarations };
+    }
+
+    /**
+     * Split a selector list on top-level commas
+     */
+    public splitSelectors(selectorText: string): string[] {
+        const selectors: string[] = [];
+        let depth = 0;
+        let start = 0;
+
+        for (let i = 0; i < selectorText.length; i++) {
+            const char = selectorText[i];
+            if (char === '(' || char === '[') {
+                depth++;
+            } else if (char === ')' || char === ']') {
+                depth--;
+            } else if (char === ',' && depth === 0) {
+                selectors.push(selectorText.slice(start, i));
+                start = i + 1;
+            }
+        }
+
+        selectors.push(selectorText.slice(start));
+        return selectors.map(selector => selector.trim().replace(/\s+/g, ' ')).filter(Boolean);
+    }
+
+    /**
+     * Resolve nested selectors against their parent selectors
+     */
+    private resolveSelectors(prelude: string, parentSelectors: string[]): string[] {
+        const selectors = this.splitSelectors(prelude);
+
+        if (parentSelectors.length === 0) {
+            return selectors;
+        }
+
+        const resolved: string[] = [];
+        for (const parent of parentSelectors) {
+            for (const selector of selectors) {
+                resolved.push(selector.includes('&')
+                    ? selector.replace(/&/g, parent)
+                    : `${parent} ${selector}`);
+            }
+        }
+        return resolved;
+    }
+
+    /**
+     * Parse a "property: value" declaration between two offsets
+     */
+    private parseDeclaration(text: string, start: number, end: number, offset: number): StyleDeclaration | null {
+        const raw = text.slice(start, end);
+        const colon = raw.indexOf(':');
+
+        if (colon <= 0) {
+            return null;
+        }
+
+        const property = raw.slice(0, colon).trim();
+
+        // Nested selectors such as "a:hover" never reach here, but guard against stray text
+        if (!/^(--|\$|@)?[\w-]+$/.test(property)) {
+            return null;
+        }
+
+        let value = raw.slice(colon + 1).trim();
+        const important = /!\s*important\s*$/i.test(value);
+        if (important) {
+            value = value.replace(/!\s*important\s*$/i, '').trim();
+        }
+
+        // SCSS !default / !global flags are not part of the value
+        value = value.replace(/\s*!(default|global)\s*$/i, '').trim();
+
+        return {
+            property: property.startsWith('--') || property.startsWith('$') || property.startsWith('@')
+                ? property
+                : property.toLowerCase(),
+            value,
+            important,
+            start: start + offset,
+            end: start + raw.trimEnd().length + offset
+        };
+    }
+
+    /**
+     * Skip past a quoted string starting at pos
+     */
+    private skipString(text: string, pos: number): number {
+        const quote = text[pos];
+        let i = pos + 1;
+
+        while (i < text.length && text[i] !== quote) {
+            if (text[i] === '\\') {
+                i++;
+            } else if (text[i] === '\n') {
+                break;
+            }
+            i++;
+        }
+
+        return i + 1;
+    }
+}
@@ -0,0 +1,199 @@
+/**
+ * CSS Variable Resolver Utility
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Substitutes CSS custom properties and SCSS/LESS variables in style values
+ */
+
+import { StyleDeclaration, StyleSheet, VariableDefinition, VariableResolution } from '../types';
+
+/**
+ * CSSVariableResolver class
+ * Collects :root custom properties and top-level SCSS $variables and LESS
+ * @variables from one or more stylesheets, then substitutes them (including
+ * var() fallbacks) in declaration values. Stylesheets added later override
+ * earlier ones, as they would when imported first.
+ */
+export class CSSVariableResolver {
+    /**
+     * Maximum substitution rounds, which also stops reference cycles
+     */
+    private static readonly MAX_DEPTH = 10;
+
+    /**
+     * Import paths that never point at a local stylesheet
+     */
+    private static readonly EXTERNAL_IMPORT = /^(https?:|\/\/|sass:|url\()/i;
+
+    private definitions: Map<string, VariableDefinition> = new Map();
+
+    /**
+     * Add the variable definitions of a stylesheet
+     * @param styleSheet - Parsed stylesheet
+     * @param text - Stylesheet source, used for line numbers
+     * @param fileName - File name shown in resolution chains
+     */
+    public addStyleSheet(styleSheet: StyleSheet, text: string, fileName: string): void {
+        const rootDeclarations = styleSheet.rules
+            .filter(rule => rule.atRules.length === 0 &&
+                rule.selectors.some(selector => /^(:root|html)$/i.test(selector.trim())))
+            .flatMap(rule => rule.declarations)
+            .filter(declaration => declaration.property.startsWith('--'));
+
+        const preprocessorDeclarations = styleSheet.declarations
+            .filter(declaration => /^[$@]/.test(declaration.property));
+
+        for (const declaration of [...preprocessorDeclarations, ...rootDeclarations]) {
+            const line = text.slice(0, declaration.start).split('\n').length;
+            this.definitions.set(declaration.property, {
+                name: declaration.property,
+                value: declaration.value,
+                source: `${fileName}:${line}`
+            });
+        }
+    }
+
+    /**
+     * Get the paths imported by a stylesheet (@import, @use and @forward)
+     * Remote URLs and built-in Sass modules are left out.
+     */
+    public getImports(text: string): string[] {
+        const source = text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*\/\/.*$/gm, '');
+        const imports: string[] = [];
+        const pattern = /@(?:import|use|forward)\s+(?:\([\w\s,]+\)\s*)?([^;]+);/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = pattern.exec(source)) !== null) {
+            const paths = match[1].match(/(["'])(.*?)\1/g) || [];
+            for (const quoted of paths) {
+                const importPath = quoted.slice(1, -1);
+                if (!CSSVariableResolver.EXTERNAL_IMPORT.test(importPath)) {
+                    imports.push(importPath);
+                }
+            }
+        }
+
+        return imports;
+    }
+
+    /**
+     * Substitute variables in a value
+     * @param value - Declaration value
+     * @param scope - Declarations of the rule being checked; its custom properties win
+     */
+    public resolve(value: string, scope: StyleDeclaration[] = []): VariableResolution {
+        const local = new Map(scope
+            .filter(declaration => declaration.property.startsWith('--'))
+            .map(declaration => [declaration.property, declaration.value] as [string, string]));
+        const chain: string[] = [];
+        let resolved = true;
+        let substituted = false;
+        let current = value;
+
+        const record = (entry: string): void => {
+            if (!chain.includes(entry)) {
+                chain.push(entry);
+            }
+        };
+
+        const substitute = (name: string, fallback?: string): string | undefined => {
+            const localValue = local.get(name);
+            if (localValue !== undefined) {
+                record(`${name}: ${localValue} (same rule)`);
+                substituted = true;
+                return localValue;
+            }
+
+            const definition = this.definitions.get(name);
+            if (definition) {
+                record(`${name}: ${definition.value} (${definition.source})`);
+                substituted = true;
+                return definition.value;
+            }
+
+            if (fallback !== undefined) {
+                record(`${name} is not defined, using the fallback ${fallback}`);
+                substituted = true;
+                return fallback;
+            }
+
+            record(`${name} is not defined`);
+            resolved = false;
+            return undefined;
+        };
+
+        for (let depth = 0; depth < CSSVariableResolver.MAX_DEPTH; depth++) {
+            substituted = false;
+            const next = this.substitutePreprocessorVariables(this.substituteCustomProperties(current, substitute), substitute);
+            if (!substituted) {
+                return { value: next, chain, resolved };
+            }
+
+            // A substitution that gives back the same text is a variable referring to itself
+            if (next === current) {
+                break;
+            }
+            current = next;
+        }
+
+        record('variables refer to each other in a cycle');
+        return { value: current, chain, resolved: false };
+    }
+
+    /**
+     * Replace var(--name, fallback) references
+     */
+    private substituteCustomProperties(
+        value: string,
+        substitute: (name: string, fallback?: string) => string | undefined
+    ): string {
+        let result = '';
+        let pos = 0;
+
+        while (pos < value.length) {
+            const start = value.indexOf('var(', pos);
+            if (start === -1) {
+                break;
+            }
+
+            // Find the matching close parenthesis and the first top-level comma
+            let depth = 0;
+            let comma = -1;
+            let end = start + 3;
+            for (; end < value.length; end++) {
+                if (value[end] === '(') {
+                    depth++;
+                } else if (value[end] === ')' && --depth === 0) {
+                    break;
+                } else if (value[end] === ',' && depth === 1 && comma === -1) {
+                    comma = end;
+                }
+            }
+
+            const name = value.slice(start + 4, comma === -1 ? end : comma).trim();
+            const fallback = comma === -1 ? undefined : value.slice(comma + 1, end).trim();
+            const replacement = substitute(name, fallback);
+
+            result += value.slice(pos, start) + (replacement ?? value.slice(start, end + 1));
+            pos = end + 1;
+        }
+
+        return result + value.slice(pos);
+    }
+
+    /**
+     * Replace SCSS $name (also namespaced module.$name) and LESS @name references
+     * SCSS interpolation #{...} is unwrapped once its contents are substituted;
+     * url() and quoted strings (e.g. "logo@2x.png") are left alone.
+     */
+    private substitutePreprocessorVariables(
+        value: string,
+        substitute: (name: string, fallback?: string) => string | undefined
+    ): string {
+        return value
+            .replace(/url\([^)]*\)|"[^"]*"|'[^']*'|(?:[\w-]+\.)?([$@][\w-]+)/g,
+                (match, name: string | undefined) => name === undefined ? match : substitute(name) ?? match)
+            .replace(/#\{([^{}$@]*)\}/g, '$1');
+    }
+}
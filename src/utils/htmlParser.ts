@@ -0,0 +1,379 @@
+/**
+ * HTML Parser Utility
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Tokenizes HTML into an element tree that keeps exact source offsets
+ */
+
+import { MarkupAttribute, MarkupDocument, MarkupElement } from '../types';
+
+/**
+ * HTMLParser class
+ * Builds a lightweight element tree from HTML source so audits can inspect
+ * whole elements (including attributes that wrap across lines) and their ancestors.
+ * Comments, doctypes, processing instructions and the contents of raw text
+ * elements (script, style) never produce elements.
+ */
+export class HTMLParser {
+    /**
+     * Elements that never have content or an end tag
+     */
+    private static readonly VOID_ELEMENTS = [
+        'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+        'link', 'meta', 'param', 'source', 'track', 'wbr'
+    ];
+
+    /**
+     * Elements whose content is raw text up to the matching end tag
+     */
+    private static readonly RAW_TEXT_ELEMENTS = [
+        'script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes'
+    ];
+
+    /**
+     * Open elements that are implicitly closed when another start tag appears
+     */
+    private static readonly IMPLIED_END_TAGS: Record<string, string[]> = {
+        'p': [
+            'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl',
+            'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3',
+            'h4', 'h5', 'h6', 'header', 'hr', 'main', 'menu', 'nav', 'ol', 'p',
+            'pre', 'section', 'table', 'ul'
+        ],
+        'li': ['li'],
+        'dt': ['dt', 'dd'],
+        'dd': ['dt', 'dd'],
+        'option': ['option', 'optgroup'],
+        'optgroup': ['optgroup'],
+        'tr': ['tr', 'tbody', 'tfoot'],
+        'td': ['td', 'th', 'tr', 'tbody', 'tfoot'],
+        'th': ['td', 'th', 'tr', 'tbody', 'tfoot'],
+        'thead': ['tbody', 'tfoot'],
+        'tbody': ['tbody', 'tfoot']
+    };
+
+    /**
+     * Common named character references
+     */
+    private static readonly ENTITIES: Record<string, string> = {
+        'amp': '&',
+        'lt': '<',
+        'gt': '>',
+        'quot': '"',
+        'apos': '\'',
+        'nbsp': ' ',
+        'copy': '©',
+        'reg': '®',
+        'hellip': '…',
+        'mdash': '—',
+        'ndash': '–',
+        'laquo': '«',
+        'raquo': '»'
+    };
+
+    /**
+     * Parse HTML source into a markup document
+     * @param text - Full document text
+     * @returns MarkupDocument with offsets relative to text
+     */
+    public parse(text: string): MarkupDocument {
+        const root: MarkupElement = {
+            kind: 'element',
+            tagName: '#document',
+            isComponent: false,
+            attributes: [],
+            hasSpreadAttributes: false,
+            children: [],
+            parent: null,
+            start: 0,
+            openTagEnd: 0,
+            end: text.length
+        };
+        const elements: MarkupElement[] = [];
+        const stack: MarkupElement[] = [root];
+        let pos = 0;
+
+        const current = (): MarkupElement => stack[stack.length - 1];
+
+        const addText = (start: number, end: number): void => {
+            if (end <= start) {
+                return;
+            }
+            current().children.push({
+                kind: 'text',
+                text: this.decodeEntities(text.slice(start, end)),
+                isDynamic: false,
+                parent: current(),
+                start,
+                end
+            });
+        };
+
+        const closeTo = (index: number, end: number): void => {
+            while (stack.length > index) {
+                const element = stack.pop() as MarkupElement;
+                element.end = Math.max(end, element.openTagEnd);
+            }
+        };
+
+        while (pos < text.length) {
+            const lt = text.indexOf('<', pos);
+            if (lt === -1) {
+                addText(pos, text.length);
+                break;
+            }
+
+            addText(pos, lt);
+            pos = lt;
+
+            // Comments
+            if (text.startsWith('<!--', pos)) {
+                const close = text.indexOf('-->', pos + 4);
+                pos = close === -1 ? text.length : close + 3;
+                continue;
+            }
+
+            // CDATA sections, doctypes and other markup declarations
+            if (text.startsWith('<![CDATA[', pos)) {
+                const close = text.indexOf(']]>', pos + 9);
+                pos = close === -1 ? text.length : close + 3;
+                continue;
+            }
+
+            if (text.startsWith('<!', pos)) {
+                const close = text.indexOf('>', pos + 2);
+                pos = close === -1 ? text.length : close + 1;
+                continue;
+            }
+
+            // Processing instructions and server-side blocks (<?php ... ?>)
+            if (text.startsWith('<?', pos)) {
+                const close = text.indexOf('?>', pos + 2);
+                pos = close === -1 ? text.length : close + 2;
+                continue;
+            }
+
+            // End tags
+            const endTagMatch = /^<\/([a-zA-Z][\w:.-]*)\s*>?/.exec(text.slice(pos, pos + 256));
+            if (endTagMatch) {
+                const tagName = endTagMatch[1].toLowerCase();
+                const closeEnd = text.indexOf('>', pos);
+                const end = closeEnd === -1 ? text.length : closeEnd + 1;
+
+                for (let i = stack.length - 1; i > 0; i--) {
+                    if (stack[i].tagName === tagName) {
+                        closeTo(i, end);
+                        break;
+                    }
+                }
+
+                pos = end;
+                continue;
+            }
+
+            // Start tags
+            if (/^<[a-zA-Z]/.test(text.slice(pos, pos + 2))) {
+                const tag = this.readStartTag(text, pos);
+                const element: MarkupElement = {
+                    kind: 'element',
+                    tagName: tag.tagName,
+                    isComponent: false,
+                    attributes: tag.attributes,
+                    hasSpreadAttributes: false,
+                    children: [],
+                    parent: null,
+                    start: pos,
+                    openTagEnd: tag.end,
+                    end: tag.end
+                };
+
+                this.closeImpliedElements(stack, tag.tagName, pos, closeTo);
+
+                element.parent = current();
+                current().children.push(element);
+                elements.push(element);
+                pos = tag.end;
+
+                if (HTMLParser.VOID_ELEMENTS.includes(tag.tagName) || tag.selfClosing) {
+                    continue;
+                }
+
+                if (HTMLParser.RAW_TEXT_ELEMENTS.includes(tag.tagName)) {
+                    const closePattern = new RegExp(`</${tag.tagName}\\s*>`, 'ig');
+                    closePattern.lastIndex = pos;
+                    const closeMatch = closePattern.exec(text);
+                    const contentEnd = closeMatch ? closeMatch.index : text.length;
+
+                    // Script and style bodies are not document text
+                    if (tag.tagName !== 'script' && tag.tagName !== 'style') {
+                        stack.push(element);
+                        addText(pos, contentEnd);
+                        stack.pop();
+                    }
+
+                    element.end = closeMatch ? contentEnd + closeMatch[0].length : text.length;
+                    pos = element.end;
+                    continue;
+                }
+
+                stack.push(element);
+                continue;
+            }
+
+            // A stray '<' is plain text
+            addText(pos, pos + 1);
+            pos++;
+        }
+
+        closeTo(1, text.length);
+
+        return { root, elements, text };
+    }
+
+    /**
+     * Close open elements that the new start tag implicitly ends
+     */
+    private closeImpliedElements(
+        stack: MarkupElement[],
+        tagName: string,
+        position: number,
+        closeTo: (index: number, end: number) => void
+    ): void {
+        for (let i = stack.length - 1; i > 0; i--) {
+            const openTag = stack[i].tagName;
+            const closers = HTMLParser.IMPLIED_END_TAGS[openTag];
+
+            if (closers && closers.includes(tagName)) {
+                closeTo(i, position);
+
+                // A new row also ends the row that contained the open cell
+                this.closeImpliedElements(stack, tagName, position, closeTo);
+                return;
+            }
+
+            // Implied end tags never cross these boundaries
+            if (['table', 'ul', 'ol', 'dl', 'select', 'div', 'section', 'article', 'body'].includes(openTag)) {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Read a start tag beginning at the given offset
+     */
+    private readStartTag(text: string, start: number): {
+        tagName: string;
+        attributes: MarkupAttribute[];
+        selfClosing: boolean;
+        end: number;
+    } {
+        let pos = start + 1;
+        const nameMatch = /^[a-zA-Z][\w:.-]*/.exec(text.slice(pos, pos + 128));
+        const tagName = nameMatch ? nameMatch[0].toLowerCase() : '';
+        pos += tagName.length;
+
+        const attributes: MarkupAttribute[] = [];
+        let selfClosing = false;
+
+        while (pos < text.length) {
+            // Skip whitespace
+            while (pos < text.length && /\s/.test(text[pos])) {
+                pos++;
+            }
+
+            if (pos >= text.length) {
+                break;
+            }
+
+            if (text[pos] === '>') {
+                pos++;
+                return { tagName, attributes, selfClosing, end: pos };
+            }
+
+            if (text.startsWith('/>', pos)) {
+                selfClosing = true;
+                pos += 2;
+                return { tagName, attributes, selfClosing, end: pos };
+            }
+
+            // Template expressions inside tags ({{ }}, <?= ?>) are skipped whole
+            if (text.startsWith('{{', pos) || text.startsWith('<?', pos)) {
+                const closer = text.startsWith('{{', pos) ? '}}' : '?>';
+                const close = text.indexOf(closer, pos + 2);
+                pos = close === -1 ? text.length : close + 2;
+                continue;
+            }
+
+            // Attribute name
+            const attrStart = pos;
+            while (pos < text.length && !/[\s=>]/.test(text[pos]) && !text.startsWith('/>', pos)) {
+                pos++;
+            }
+
+            if (pos === attrStart) {
+                // Lone '/' or other stray character
+                pos++;
+                continue;
+            }
+
+            const name = text.slice(attrStart, pos).toLowerCase();
+            let value = '';
+
+            let lookahead = pos;
+            while (lookahead < text.length && /\s/.test(text[lookahead])) {
+                lookahead++;
+            }
+
+            if (text[lookahead] === '=') {
+                pos = lookahead + 1;
+                while (pos < text.length && /\s/.test(text[pos])) {
+                    pos++;
+                }
+
+                const quote = text[pos];
+                if (quote === '"' || quote === '\'') {
+                    const close = text.indexOf(quote, pos + 1);
+                    const valueEnd = close === -1 ? text.length : close;
+                    value = text.slice(pos + 1, valueEnd);
+                    pos = close === -1 ? text.length : close + 1;
+                } else {
+                    const valueStart = pos;
+                    while (pos < text.length && !/[\s>]/.test(text[pos])) {
+                        pos++;
+                    }
+                    value = text.slice(valueStart, pos);
+                }
+            }
+
+            attributes.push({
+                name,
+                value: this.decodeEntities(value),
+                isDynamic: false,
+                start: attrStart,
+                end: pos
+            });
+        }
+
+        return { tagName, attributes, selfClosing, end: text.length };
+    }
+
+    /**
+     * Decode character references in text and attribute values
+     */
+    private decodeEntities(value: string): string {
+        if (!value.includes('&')) {
+            return value;
+        }
+
+        return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+            if (entity.startsWith('#')) {
+                const isHex = entity[1] === 'x' || entity[1] === 'X';
+                const codePoint = parseInt(entity.slice(isHex ? 2 : 1), isHex ? 16 : 10);
+                return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+            }
+
+            return HTMLParser.ENTITIES[entity.toLowerCase()] ?? match;
+        });
+    }
+}
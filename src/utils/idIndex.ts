@@ -0,0 +1,101 @@
+/**
+ * Id Index Utility
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Indexes element ids in a markup document and the attributes that reference them
+ */
+
+import { IdReference, MarkupDocument, MarkupElement } from '../types';
+import { ARIAValidator } from './ariaValidator';
+import { canCoexist, getAttribute } from './markupTree';
+
+/**
+ * IdIndex class
+ * Built once per parsed document. Every id lookup in the audit (label for,
+ * ARIA relationships, table headers, duplicate detection) goes through it, so
+ * duplicates resolve the same way everywhere: the first element wins, as in the DOM.
+ */
+export class IdIndex {
+    /**
+     * HTML attributes whose value is an id (or a list of ids for headers)
+     */
+    private static readonly HTML_REFERENCE_ATTRIBUTES = ['for', 'form', 'headers', 'list'];
+
+    private elementsById: Map<string, MarkupElement[]> = new Map();
+    private referencesById: Map<string, IdReference[]> = new Map();
+
+    /**
+     * Constructor
+     * @param tree - Parsed document to index
+     * @param ariaValidator - Validator used to recognise ARIA ID reference attributes
+     */
+    constructor(tree: MarkupDocument, ariaValidator: ARIAValidator) {
+        for (const element of tree.elements) {
+            const id = getAttribute(element, 'id');
+            if (id && !id.isDynamic && id.value) {
+                this.add(this.elementsById, id.value, element);
+            }
+
+            for (const attribute of element.attributes) {
+                if (attribute.isDynamic || !(IdIndex.HTML_REFERENCE_ATTRIBUTES.includes(attribute.name) ||
+                    ariaValidator.isIdReferenceAttribute(attribute.name))) {
+                    continue;
+                }
+
+                for (const referencedId of attribute.value.trim().split(/\s+/).filter(Boolean)) {
+                    this.add(this.referencesById, referencedId, { element, attribute, id: referencedId });
+                }
+            }
+        }
+    }
+
+    /**
+     * Get the element an id resolves to
+     */
+    public getElementById(id: string): MarkupElement | undefined {
+        return this.getElementsById(id)[0];
+    }
+
+    /**
+     * Get every element carrying an id, in source order
+     */
+    public getElementsById(id: string): MarkupElement[] {
+        return this.elementsById.get(id) || [];
+    }
+
+    /**
+     * Get the attributes that reference an id
+     */
+    public getReferences(id: string): IdReference[] {
+        return this.referencesById.get(id) || [];
+    }
+
+    /**
+     * Get ids used by more than one element that can be rendered together
+     * Elements on exclusive JSX branches (e.g. both sides of a ternary) are left out.
+     */
+    public getDuplicates(): Map<string, MarkupElement[]> {
+        const duplicates = new Map<string, MarkupElement[]>();
+
+        for (const [id, elements] of this.elementsById) {
+            const coexisting = elements.filter(element =>
+                elements.some(other => other !== element && canCoexist(element, other)));
+
+            if (coexisting.length > 1) {
+                duplicates.set(id, coexisting);
+            }
+        }
+
+        return duplicates;
+    }
+
+    /**
+     * Append a value to a list in a map
+     */
+    private add<T>(map: Map<string, T[]>, key: string, value: T): void {
+        const values = map.get(key) || [];
+        values.push(value);
+        map.set(key, values);
+    }
+}
@@ -0,0 +1,379 @@
+/**
+ * JSX Parser Utility
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Builds markup element trees from JSX/TSX using the TypeScript compiler API
+ */
+
+import * as ts from 'typescript';
+import { MarkupAttribute, MarkupDocument, MarkupElement, StyleDeclaration } from '../types';
+
+/**
+ * JSXParser class
+ * Walks the TypeScript AST and converts JSX into the same element tree the
+ * HTML audit uses. JSX nested in expressions ({cond && <img />}, .map callbacks)
+ * is attached to the enclosing element so ancestor checks still work.
+ */
+export class JSXParser {
+    /**
+     * JSX prop names that differ from their HTML attribute names
+     */
+    private static readonly ATTRIBUTE_ALIASES: Record<string, string> = {
+        'className': 'class',
+        'htmlFor': 'for'
+    };
+
+    /**
+     * HTML boolean attributes, which React leaves out of the DOM when set to {false}
+     */
+    private static readonly BOOLEAN_ATTRIBUTES = [
+        'allowfullscreen', 'async', 'autofocus', 'autoplay', 'checked', 'controls', 'default', 'defer',
+        'disabled', 'formnovalidate', 'hidden', 'inert', 'loop', 'multiple', 'muted', 'nomodule',
+        'novalidate', 'open', 'playsinline', 'readonly', 'required', 'reversed', 'selected'
+    ];
+
+    /**
+     * Style properties (kebab-case) whose unitless numbers React renders in pixels
+     * Other numbers, such as font-weight, line-height, opacity and z-index, stay plain.
+     */
+    private static readonly PIXEL_STYLE_PROPERTIES = new RegExp(
+        '^(font-size|(min-|max-)?(width|height)|top|right|bottom|left|inset(-.+)?|' +
+        '(padding|margin|scroll-padding|scroll-margin)(-.+)?|border(-.+)?-(width|radius)|' +
+        'outline-(width|offset)|(letter|word)-spacing|((row|column)-)?gap|text-indent|flex-basis)$'
+    );
+
+    /**
+     * Parse JSX/TSX source into a markup document
+     * @param text - Full document text
+     * @param languageId - VSCode language id, used to pick the script kind
+     * @returns MarkupDocument with offsets relative to text
+     */
+    public parse(text: string, languageId: string): MarkupDocument {
+        const sourceFile = ts.createSourceFile(
+            `audit.${this.getExtension(languageId)}`,
+            text,
+            ts.ScriptTarget.Latest,
+            true,
+            this.getScriptKind(languageId)
+        );
+
+        const root: MarkupElement = {
+            kind: 'element',
+            tagName: '#document',
+            isComponent: false,
+            attributes: [],
+            hasSpreadAttributes: false,
+            children: [],
+            parent: null,
+            start: 0,
+            openTagEnd: 0,
+            end: text.length
+        };
+        const elements: MarkupElement[] = [];
+
+        const visit = (node: ts.Node, parent: MarkupElement): void => {
+            if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+                visitElement(node, parent);
+                return;
+            }
+
+            if (ts.isJsxFragment(node)) {
+                node.children.forEach(child => visitChild(child, parent));
+                return;
+            }
+
+            ts.forEachChild(node, child => visit(child, parent));
+        };
+
+        const visitChild = (child: ts.JsxChild, parent: MarkupElement): void => {
+            if (ts.isJsxText(child)) {
+                parent.children.push({
+                    kind: 'text',
+                    text: child.text,
+                    isDynamic: false,
+                    parent,
+                    start: child.getStart(sourceFile),
+                    end: child.getEnd()
+                });
+                return;
+            }
+
+            if (ts.isJsxExpression(child)) {
+                if (!child.expression) {
+                    return;
+                }
+
+                const literal = this.getLiteralValue(child.expression);
+                const containsJSX = this.containsJSX(child.expression);
+
+                // Rendered values that are not themselves JSX count as (unknown) text
+                if (literal !== undefined || !containsJSX) {
+                    parent.children.push({
+                        kind: 'text',
+                        text: literal ?? '',
+                        isDynamic: literal === undefined,
+                        parent,
+                        start: child.getStart(sourceFile),
+                        end: child.getEnd()
+                    });
+                }
+
+                visit(child.expression, parent);
+                return;
+            }
+
+            visit(child, parent);
+        };
+
+        const visitElement = (node: ts.JsxElement | ts.JsxSelfClosingElement, parent: MarkupElement): void => {
+            const opening = ts.isJsxElement(node) ? node.openingElement : node;
+            const rawTagName = opening.tagName.getText(sourceFile);
+            const isComponent = !/^[a-z][a-z0-9-]*$/.test(rawTagName);
+
+            const element: MarkupElement = {
+                kind: 'element',
+                tagName: isComponent ? rawTagName : rawTagName.toLowerCase(),
+                isComponent,
+                attributes: [],
+                hasSpreadAttributes: false,
+                children: [],
+                parent,
+                start: node.getStart(sourceFile),
+                openTagEnd: opening.getEnd(),
+                end: node.getEnd(),
+                branches: this.getBranches(node, sourceFile)
+            };
+
+            for (const property of opening.attributes.properties) {
+                if (ts.isJsxSpreadAttribute(property)) {
+                    element.hasSpreadAttributes = true;
+                    visit(property.expression, parent);
+                    continue;
+                }
+
+                const attribute = this.convertAttribute(property, sourceFile);
+                const isFalse = property.initializer !== undefined && ts.isJsxExpression(property.initializer) &&
+                    property.initializer.expression?.kind === ts.SyntaxKind.FalseKeyword;
+
+                if (isComponent || !isFalse || !JSXParser.BOOLEAN_ATTRIBUTES.includes(attribute.name)) {
+                    element.attributes.push(attribute);
+                }
+
+                if (property.initializer) {
+                    visit(property.initializer, parent);
+                }
+            }
+
+            parent.children.push(element);
+            elements.push(element);
+
+            if (ts.isJsxElement(node)) {
+                node.children.forEach(child => visitChild(child, element));
+            }
+        };
+
+        visit(sourceFile, root);
+
+        // Nested expressions are visited depth-first, so restore source order
+        elements.sort((a, b) => a.start - b.start);
+
+        return { root, elements, text };
+    }
+
+    /**
+     * Parse a JSX style object into CSS declarations
+     * camelCase properties become kebab-case and unitless numbers of length
+     * properties get px, as React renders them; values that are not literals
+     * are left out.
+     * @param source - Style expression, e.g. "{ fontSize: 19, color: '#777' }"
+     * @param offset - Document offset of the expression
+     */
+    public parseStyleObject(source: string, offset: number = 0): StyleDeclaration[] {
+        // Parenthesised so the braces read as an object literal, not a block
+        const sourceFile = ts.createSourceFile('style.tsx', `(${source})`, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+        const statement = sourceFile.statements[0];
+        let expression = statement && ts.isExpressionStatement(statement) ? statement.expression : undefined;
+
+        while (expression && ts.isParenthesizedExpression(expression)) {
+            expression = expression.expression;
+        }
+
+        if (!expression || !ts.isObjectLiteralExpression(expression)) {
+            return [];
+        }
+
+        const declarations: StyleDeclaration[] = [];
+
+        for (const property of expression.properties) {
+            if (!ts.isPropertyAssignment(property) ||
+                !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+                continue;
+            }
+
+            const value = this.getLiteralValue(property.initializer);
+            if (value === undefined) {
+                continue;
+            }
+
+            const name = property.name.text;
+            const cssProperty = name.startsWith('--') ? name : name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+            const isNumber = ts.isNumericLiteral(property.initializer) || ts.isPrefixUnaryExpression(property.initializer);
+
+            declarations.push({
+                property: cssProperty,
+                value: isNumber && JSXParser.PIXEL_STYLE_PROPERTIES.test(cssProperty) ? `${value}px` : value,
+                important: false,
+                // Less the opening parenthesis added above
+                start: offset + property.getStart(sourceFile) - 1,
+                end: offset + property.getEnd() - 1
+            });
+        }
+
+        return declarations;
+    }
+
+    /**
+     * Get the branch an element takes at each enclosing choice point
+     * Ternary and if/else branches, the return statements of a function and
+     * separate component bodies (outermost functions or classes) exclude each other.
+     */
+    private getBranches(node: ts.Node, sourceFile: ts.SourceFile): Record<string, string> {
+        const branches: Record<string, string> = {};
+        let returnStatement: ts.ReturnStatement | undefined;
+        let component: ts.Node | undefined;
+
+        for (let child = node, parent = node.parent; parent; child = parent, parent = parent.parent) {
+            const choice = parent.getStart(sourceFile);
+
+            if (ts.isConditionalExpression(parent) && child !== parent.condition) {
+                branches[`?${choice}`] = child === parent.whenTrue ? 'then' : 'else';
+            } else if (ts.isIfStatement(parent) && child !== parent.expression) {
+                branches[`if${choice}`] = child === parent.thenStatement ? 'then' : 'else';
+            } else if (ts.isReturnStatement(parent)) {
+                returnStatement = returnStatement ?? parent;
+            } else if (ts.isFunctionLike(parent) || ts.isClassLike(parent)) {
+                if (returnStatement && ts.isFunctionLike(parent)) {
+                    branches[`return${choice}`] = String(returnStatement.getStart(sourceFile));
+                    returnStatement = undefined;
+                }
+                component = parent;
+            }
+        }
+
+        if (component) {
+            branches.component = String(component.getStart(sourceFile));
+        }
+
+        return branches;
+    }
+
+    /**
+     * Convert a JSX attribute to a markup attribute
+     */
+    private convertAttribute(attribute: ts.JsxAttribute, sourceFile: ts.SourceFile): MarkupAttribute {
+        const rawName = attribute.name.getText(sourceFile);
+        const name = JSXParser.ATTRIBUTE_ALIASES[rawName] ??
+            (rawName.includes('-') ? rawName : rawName.toLowerCase());
+        const start = attribute.getStart(sourceFile);
+        const end = attribute.getEnd();
+        const initializer = attribute.initializer;
+
+        // <input disabled /> is the same as disabled={true}
+        if (!initializer) {
+            return { name, value: '', isDynamic: false, start, end };
+        }
+
+        if (ts.isStringLiteral(initializer)) {
+            return { name, value: initializer.text, isDynamic: false, start, end };
+        }
+
+        if (ts.isJsxExpression(initializer) && initializer.expression) {
+            const literal = this.getLiteralValue(initializer.expression);
+
+            if (literal !== undefined) {
+                return { name, value: literal, isDynamic: false, start, end };
+            }
+
+            return {
+                name,
+                value: initializer.expression.getText(sourceFile),
+                isDynamic: true,
+                start,
+                end
+            };
+        }
+
+        return { name, value: initializer.getText(sourceFile), isDynamic: true, start, end };
+    }
+
+    /**
+     * Resolve an expression to a static string when it is a plain literal
+     */
+    private getLiteralValue(expression: ts.Expression): string | undefined {
+        if (ts.isParenthesizedExpression(expression)) {
+            return this.getLiteralValue(expression.expression);
+        }
+
+        if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression) ||
+            ts.isNumericLiteral(expression)) {
+            return expression.text;
+        }
+
+        if (ts.isPrefixUnaryExpression(expression) &&
+            expression.operator === ts.SyntaxKind.MinusToken &&
+            ts.isNumericLiteral(expression.operand)) {
+            return `-${expression.operand.text}`;
+        }
+
+        if (expression.kind === ts.SyntaxKind.TrueKeyword) {
+            return 'true';
+        }
+
+        if (expression.kind === ts.SyntaxKind.FalseKeyword) {
+            return 'false';
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Check whether an expression contains any JSX
+     */
+    private containsJSX(node: ts.Node): boolean {
+        if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+            return true;
+        }
+
+        return ts.forEachChild(node, child => this.containsJSX(child) || undefined) ?? false;
+    }
+
+    /**
+     * Pick the TypeScript script kind for a language id
+     */
+    private getScriptKind(languageId: string): ts.ScriptKind {
+        switch (languageId) {
+            case 'typescriptreact':
+                return ts.ScriptKind.TSX;
+            case 'typescript':
+                return ts.ScriptKind.TS;
+            default:
+                // Plain .js files in React projects routinely contain JSX
+                return ts.ScriptKind.JSX;
+        }
+    }
+
+    /**
+     * Pick a virtual file extension for a language id
+     */
+    private getExtension(languageId: string): string {
+        switch (languageId) {
+            case 'typescriptreact':
+                return 'tsx';
+            case 'typescript':
+                return 'ts';
+            default:
+                return 'jsx';
+        }
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * Language Tag Validator Utility
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Validates lang attribute values as BCP 47 language tags
+ */
+
+import { LanguageTagValidationResult } from '../types';
+
+/**
+ * LanguageTagValidator class
+ * Checks that a tag is well formed per BCP 47 (RFC 5646) and that a
+ * two-letter primary language subtag is a registered ISO 639-1 code.
+ * Three-letter subtags are only checked for form.
+ */
+export class LanguageTagValidator {
+    /**
+     * Well-formed language tag: language[-extlang][-script][-region][-variant]*[-extension]*[-privateuse]
+     * Four to eight letter primary subtags are reserved and never registered, so they are rejected.
+     */
+    private static readonly LANGUAGE_TAG = new RegExp(
+        '^(?:' +
+            '(?<language>[a-z]{2,3})(?:-[a-z]{3}){0,3}' +
+            '(?:-[a-z]{4})?' +
+            '(?:-(?:[a-z]{2}|\\d{3}))?' +
+            '(?:-(?:[a-z\\d]{5,8}|\\d[a-z\\d]{3}))*' +
+            '(?:-[\\da-wyz](?:-[a-z\\d]{2,8})+)*' +
+            '(?:-x(?:-[a-z\\d]{1,8})+)?' +
+        '|x(?:-[a-z\\d]{1,8})+)$',
+        'i'
+    );
+
+    /**
+     * Irregular grandfathered tags that are still valid
+     */
+    private static readonly GRANDFATHERED_TAGS = [
+        'en-gb-oed', 'i-ami', 'i-bnn', 'i-default', 'i-enochian', 'i-hak', 'i-klingon', 'i-lux', 'i-mingo',
+        'i-navajo', 'i-pwn', 'i-tao', 'i-tay', 'i-tsu', 'sgn-be-fr', 'sgn-be-nl', 'sgn-ch-de'
+    ];
+
+    /**
+     * ISO 639-1 two-letter language codes
+     */
+    private static readonly ISO_639_1 = new Set([
+        'aa', 'ab', 'ae', 'af', 'ak', 'am', 'an', 'ar', 'as', 'av', 'ay', 'az', 'ba', 'be', 'bg', 'bh', 'bi',
+        'bm', 'bn', 'bo', 'br', 'bs', 'ca', 'ce', 'ch', 'co', 'cr', 'cs', 'cu', 'cv', 'cy', 'da', 'de', 'dv',
+        'dz', 'ee', 'el', 'en', 'eo', 'es', 'et', 'eu', 'fa', 'ff', 'fi', 'fj', 'fo', 'fr', 'fy', 'ga', 'gd',
+        'gl', 'gn', 'gu', 'gv', 'ha', 'he', 'hi', 'ho', 'hr', 'ht', 'hu', 'hy', 'hz', 'ia', 'id', 'ie', 'ig',
+        'ii', 'ik', 'io', 'is', 'it', 'iu', 'ja', 'jv', 'ka', 'kg', 'ki', 'kj', 'kk', 'kl', 'km', 'kn', 'ko',
+        'kr', 'ks', 'ku', 'kv', 'kw', 'ky', 'la', 'lb', 'lg', 'li', 'ln', 'lo', 'lt', 'lu', 'lv', 'mg', 'mh',
+        'mi', 'mk', 'ml', 'mn', 'mr', 'ms', 'mt', 'my', 'na', 'nb', 'nd', 'ne', 'ng', 'nl', 'nn', 'no', 'nr',
+        'nv', 'ny', 'oc', 'oj', 'om', 'or', 'os', 'pa', 'pi', 'pl', 'ps', 'pt', 'qu', 'rm', 'rn', 'ro', 'ru',
+        'rw', 'sa', 'sc', 'sd', 'se', 'sg', 'si', 'sk', 'sl', 'sm', 'sn', 'so', 'sq', 'sr', 'ss', 'st', 'su',
+        'sv', 'sw', 'ta', 'te', 'tg', 'th', 'ti', 'tk', 'tl', 'tn', 'to', 'tr', 'ts', 'tt', 'tw', 'ty', 'ug',
+        'uk', 'ur', 'uz', 've', 'vi', 'vo', 'wa', 'wo', 'xh', 'yi', 'yo', 'za', 'zh', 'zu'
+    ]);
+
+    /**
+     * Deprecated language subtags and their replacements
+     */
+    private static readonly DEPRECATED_LANGUAGES: Record<string, string> = {
+        in: 'id',
+        iw: 'he',
+        ji: 'yi',
+        jw: 'jv',
+        mo: 'ro'
+    };
+
+    /**
+     * Language names that are commonly written instead of a code
+     */
+    private static readonly LANGUAGE_NAMES: Record<string, string> = {
+        arabic: 'ar',
+        chinese: 'zh',
+        dutch: 'nl',
+        english: 'en',
+        french: 'fr',
+        german: 'de',
+        hindi: 'hi',
+        italian: 'it',
+        japanese: 'ja',
+        korean: 'ko',
+        portuguese: 'pt',
+        russian: 'ru',
+        spanish: 'es'
+    };
+
+    /**
+     * Validate a lang attribute value
+     * @param tag - Attribute value; the empty string (unknown language) is valid
+     */
+    public validate(tag: string): LanguageTagValidationResult {
+        const value = tag.trim();
+        const lower = value.toLowerCase();
+
+        if (value === '' || LanguageTagValidator.GRANDFATHERED_TAGS.includes(lower)) {
+            return { isValid: true, tag: value };
+        }
+
+        const match = LanguageTagValidator.LANGUAGE_TAG.exec(value);
+
+        if (!match) {
+            return {
+                isValid: false,
+                tag: value,
+                recommendation: this.getCorrection(value)
+            };
+        }
+
+        const language = match.groups?.language?.toLowerCase();
+        const replacement = language ? LanguageTagValidator.DEPRECATED_LANGUAGES[language] : undefined;
+
+        if (replacement) {
+            return {
+                isValid: true,
+                tag: value,
+                replacement: replacement + value.slice(language!.length),
+                recommendation: `"${language}" is deprecated; use "${replacement}"`
+            };
+        }
+
+        if (language && language.length === 2 && !LanguageTagValidator.ISO_639_1.has(language)) {
+            return {
+                isValid: false,
+                tag: value,
+                recommendation: `"${language}" is not an ISO 639-1 language code`
+            };
+        }
+
+        return { isValid: true, tag: value };
+    }
+
+    /**
+     * Suggest a fix for a malformed tag
+     */
+    private getCorrection(value: string): string {
+        const name = LanguageTagValidator.LANGUAGE_NAMES[value.toLowerCase()];
+        if (name) {
+            return `Use the language code "${name}" instead of the language name`;
+        }
+
+        const hyphenated = value.replace(/_/g, '-');
+        if (hyphenated !== value && LanguageTagValidator.LANGUAGE_TAG.test(hyphenated)) {
+            return `Separate subtags with hyphens: "${hyphenated}"`;
+        }
+
+        return 'Use a BCP 47 language tag such as "en", "en-CA" or "fr"';
+    }
+}
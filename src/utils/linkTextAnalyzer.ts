@@ -0,0 +1,106 @@
+/**
+ * Link Text Analyzer Utility
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Judges whether link text describes its purpose, with per-language phrase lists
+ */
+
+/**
+ * LinkTextAnalyzer class
+ * Recognises generic link text ("click here", "read more"), URLs used as link
+ * text and new-window warnings. Phrases are matched after normalising case,
+ * whitespace and trailing punctuation; languages are BCP 47 primary subtags.
+ */
+export class LinkTextAnalyzer {
+    /**
+     * Built-in generic link phrases per language
+     */
+    private static readonly GENERIC_PHRASES: Record<string, string[]> = {
+        en: [
+            'click', 'click here', 'click this', 'here', 'go', 'go here', 'link', 'this link', 'more',
+            'more info', 'more information', 'read more', 'learn more', 'find out more', 'details',
+            'continue', 'this', 'this page', 'start', 'see more', 'view', 'view more'
+        ],
+        es: ['haga clic aquí', 'haz clic aquí', 'clic aquí', 'aquí', 'más', 'leer más', 'más información', 'ver más'],
+        fr: ['cliquez ici', 'ici', 'plus', 'lire la suite', 'en savoir plus', 'voir plus', 'suite'],
+        de: ['hier klicken', 'klicken sie hier', 'hier', 'mehr', 'weiterlesen', 'mehr erfahren', 'mehr lesen']
+    };
+
+    /**
+     * Phrases that warn users a link opens a new window or tab, per language
+     */
+    private static readonly NEW_WINDOW_HINTS: Record<string, string[]> = {
+        en: ['new window', 'new tab', 'opens in', 'external'],
+        es: ['nueva ventana', 'nueva pestaña'],
+        fr: ['nouvelle fenêtre', 'nouvel onglet'],
+        de: ['neues fenster', 'neuem fenster', 'neuer tab', 'neuen tab']
+    };
+
+    private genericPhrases: Record<string, Set<string>> = {};
+
+    /**
+     * Constructor
+     * @param customPhrases - Extra generic phrases per language, added to the built-in lists
+     */
+    constructor(customPhrases: Record<string, string[]> = {}) {
+        const languages = new Set([...Object.keys(LinkTextAnalyzer.GENERIC_PHRASES), ...Object.keys(customPhrases)]);
+
+        for (const language of languages) {
+            const key = this.getPrimaryLanguage(language);
+            const phrases = [
+                ...(LinkTextAnalyzer.GENERIC_PHRASES[key] || []),
+                ...(customPhrases[language] || [])
+            ].map(phrase => this.normalize(phrase));
+
+            this.genericPhrases[key] = new Set([...(this.genericPhrases[key] || []), ...phrases]);
+        }
+    }
+
+    /**
+     * Check whether link text is too generic to describe its destination
+     * @param text - Accessible name of the link
+     * @param language - Language tag of the link, e.g. "en-GB"
+     */
+    public isGeneric(text: string, language: string): boolean {
+        const phrases = this.genericPhrases[this.getPrimaryLanguage(language)];
+        return phrases !== undefined && phrases.has(this.normalize(text));
+    }
+
+    /**
+     * Check whether link text is a bare URL
+     */
+    public isUrl(text: string): boolean {
+        return /^(https?:\/\/|www\.)\S+$/i.test(text.trim());
+    }
+
+    /**
+     * Check whether link text warns that it opens a new window or tab
+     */
+    public warnsOfNewWindow(text: string, language: string): boolean {
+        const normalized = this.normalize(text);
+        const hints = [
+            ...(LinkTextAnalyzer.NEW_WINDOW_HINTS[this.getPrimaryLanguage(language)] || []),
+            ...LinkTextAnalyzer.NEW_WINDOW_HINTS.en
+        ];
+
+        return hints.some(hint => normalized.includes(hint));
+    }
+
+    /**
+     * Normalise text for comparison: lower case, single spaces, no surrounding punctuation
+     */
+    public normalize(text: string): string {
+        return text
+            .toLowerCase()
+            .replace(/\s+/g, ' ')
+            .replace(/^[\s.,:;!?…»«›‹>→"'()[\]-]+|[\s.,:;!?…»«›‹>→"'()[\]-]+$/g, '');
+    }
+
+    /**
+     * Reduce a BCP 47 tag to its primary language subtag
+     */
+    private getPrimaryLanguage(language: string): string {
+        return language.trim().toLowerCase().split(/[-_]/)[0];
+    }
+}
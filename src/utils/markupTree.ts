@@ -0,0 +1,85 @@
+/**
+ * Markup Tree Helpers
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description Query helpers shared by the audits that walk parsed markup trees
+ */
+
+import { MarkupAttribute, MarkupElement } from '../types';
+
+/**
+ * Get an attribute node by (lower-case) name
+ */
+export function getAttribute(element: MarkupElement, name: string): MarkupAttribute | undefined {
+    return element.attributes.find(attr => attr.name === name);
+}
+
+/**
+ * Get an attribute value, or undefined when the attribute is absent
+ */
+export function getAttributeValue(element: MarkupElement, name: string): string | undefined {
+    return getAttribute(element, name)?.value;
+}
+
+/**
+ * Check whether an attribute is present
+ */
+export function hasAttribute(element: MarkupElement, name: string): boolean {
+    return getAttribute(element, name) !== undefined;
+}
+
+/**
+ * Concatenated text content of an element and its descendants
+ */
+export function getTextContent(element: MarkupElement): string {
+    return element.children
+        .map(child => child.kind === 'text' ? child.text : getTextContent(child))
+        .join('');
+}
+
+/**
+ * Find the closest ancestor matching a predicate
+ */
+export function findAncestor(
+    element: MarkupElement,
+    predicate: (ancestor: MarkupElement) => boolean
+): MarkupElement | undefined {
+    let current = element.parent;
+
+    while (current && current.tagName !== '#document') {
+        if (predicate(current)) {
+            return current;
+        }
+        current = current.parent;
+    }
+
+    return undefined;
+}
+
+/**
+ * All descendant elements of an element in source order
+ */
+export function getDescendants(element: MarkupElement): MarkupElement[] {
+    const result: MarkupElement[] = [];
+
+    for (const child of element.children) {
+        if (child.kind === 'element') {
+            result.push(child, ...getDescendants(child));
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Check whether two elements can be rendered at the same time
+ * Elements on different branches of the same choice (e.g. both sides of a
+ * JSX ternary, or two components) never coexist.
+ */
+export function canCoexist(a: MarkupElement, b: MarkupElement): boolean {
+    const branches = b.branches || {};
+
+    return Object.entries(a.branches || {})
+        .every(([choice, branch]) => branches[choice] === undefined || branches[choice] === branch);
+}
@@ -0,0 +1,233 @@
+/**
+ * WCAG Success Criteria Utility
+ *
+ * @author Sudha Rajendran
+ * @institution Ontario Tech University
+ * @description WCAG 2.0, 2.1 and 2.2 success criteria and the criteria each issue type tests
+ */
+
+import { IssueType, SuccessCriterion, WCAGLevel, WCAGVersion } from '../types';
+
+/**
+ * WCAGCriteria class
+ * Knows which success criteria exist in each WCAG version, and links issues
+ * to the WCAG quick reference filtered to the audited version.
+ */
+export class WCAGCriteria {
+    /**
+     * WCAG quick reference; the versions query parameter filters it to one version
+     */
+    private static readonly QUICKREF_URL = 'https://www.w3.org/WAI/WCAG22/quickref/';
+
+    /**
+     * Versions in publication order
+     */
+    private static readonly VERSIONS: WCAGVersion[] = [WCAGVersion.WCAG_2_0, WCAGVersion.WCAG_2_1, WCAGVersion.WCAG_2_2];
+
+    /**
+     * All success criteria, with the version that introduced them and the
+     * version that made them obsolete (4.1.1 Parsing was removed in 2.2)
+     */
+    private static readonly CRITERIA: SuccessCriterion[] = [
+        { id: '1.1.1', title: 'Non-text Content', slug: 'non-text-content', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.2.1', title: 'Audio-only and Video-only (Prerecorded)', slug: 'audio-only-and-video-only-prerecorded', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.2.2', title: 'Captions (Prerecorded)', slug: 'captions-prerecorded', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.2.3', title: 'Audio Description or Media Alternative (Prerecorded)', slug: 'audio-description-or-media-alternative-prerecorded', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.2.4', title: 'Captions (Live)', slug: 'captions-live', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.2.5', title: 'Audio Description (Prerecorded)', slug: 'audio-description-prerecorded', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.2.6', title: 'Sign Language (Prerecorded)', slug: 'sign-language-prerecorded', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.2.7', title: 'Extended Audio Description (Prerecorded)', slug: 'extended-audio-description-prerecorded', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.2.8', title: 'Media Alternative (Prerecorded)', slug: 'media-alternative-prerecorded', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.2.9', title: 'Audio-only (Live)', slug: 'audio-only-live', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.3.1', title: 'Info and Relationships', slug: 'info-and-relationships', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.3.2', title: 'Meaningful Sequence', slug: 'meaningful-sequence', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.3.3', title: 'Sensory Characteristics', slug: 'sensory-characteristics', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.3.4', title: 'Orientation', slug: 'orientation', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_1 },
+        { id: '1.3.5', title: 'Identify Input Purpose', slug: 'identify-input-purpose', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_1 },
+        { id: '1.3.6', title: 'Identify Purpose', slug: 'identify-purpose', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_1 },
+        { id: '1.4.1', title: 'Use of Color', slug: 'use-of-color', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.4.2', title: 'Audio Control', slug: 'audio-control', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.4.3', title: 'Contrast (Minimum)', slug: 'contrast-minimum', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.4.4', title: 'Resize Text', slug: 'resize-text', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.4.5', title: 'Images of Text', slug: 'images-of-text', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.4.6', title: 'Contrast (Enhanced)', slug: 'contrast-enhanced', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.4.7', title: 'Low or No Background Audio', slug: 'low-or-no-background-audio', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.4.8', title: 'Visual Presentation', slug: 'visual-presentation', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.4.9', title: 'Images of Text (No Exception)', slug: 'images-of-text-no-exception', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '1.4.10', title: 'Reflow', slug: 'reflow', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_1 },
+        { id: '1.4.11', title: 'Non-text Contrast', slug: 'non-text-contrast', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_1 },
+        { id: '1.4.12', title: 'Text Spacing', slug: 'text-spacing', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_1 },
+        { id: '1.4.13', title: 'Content on Hover or Focus', slug: 'content-on-hover-or-focus', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_1 },
+        { id: '2.1.1', title: 'Keyboard', slug: 'keyboard', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.1.2', title: 'No Keyboard Trap', slug: 'no-keyboard-trap', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.1.3', title: 'Keyboard (No Exception)', slug: 'keyboard-no-exception', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.1.4', title: 'Character Key Shortcuts', slug: 'character-key-shortcuts', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_1 },
+        { id: '2.2.1', title: 'Timing Adjustable', slug: 'timing-adjustable', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.2.2', title: 'Pause, Stop, Hide', slug: 'pause-stop-hide', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.2.3', title: 'No Timing', slug: 'no-timing', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.2.4', title: 'Interruptions', slug: 'interruptions', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.2.5', title: 'Re-authenticating', slug: 're-authenticating', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.2.6', title: 'Timeouts', slug: 'timeouts', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_1 },
+        { id: '2.3.1', title: 'Three Flashes or Below Threshold', slug: 'three-flashes-or-below-threshold', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.3.2', title: 'Three Flashes', slug: 'three-flashes', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.3.3', title: 'Animation from Interactions', slug: 'animation-from-interactions', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_1 },
+        { id: '2.4.1', title: 'Bypass Blocks', slug: 'bypass-blocks', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.4.2', title: 'Page Titled', slug: 'page-titled', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.4.3', title: 'Focus Order', slug: 'focus-order', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.4.4', title: 'Link Purpose (In Context)', slug: 'link-purpose-in-context', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.4.5', title: 'Multiple Ways', slug: 'multiple-ways', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.4.6', title: 'Headings and Labels', slug: 'headings-and-labels', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.4.7', title: 'Focus Visible', slug: 'focus-visible', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.4.8', title: 'Location', slug: 'location', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.4.9', title: 'Link Purpose (Link Only)', slug: 'link-purpose-link-only', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.4.10', title: 'Section Headings', slug: 'section-headings', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '2.4.11', title: 'Focus Not Obscured (Minimum)', slug: 'focus-not-obscured-minimum', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_2 },
+        { id: '2.4.12', title: 'Focus Not Obscured (Enhanced)', slug: 'focus-not-obscured-enhanced', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_2 },
+        { id: '2.4.13', title: 'Focus Appearance', slug: 'focus-appearance', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_2 },
+        { id: '2.5.1', title: 'Pointer Gestures', slug: 'pointer-gestures', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_1 },
+        { id: '2.5.2', title: 'Pointer Cancellation', slug: 'pointer-cancellation', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_1 },
+        { id: '2.5.3', title: 'Label in Name', slug: 'label-in-name', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_1 },
+        { id: '2.5.4', title: 'Motion Actuation', slug: 'motion-actuation', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_1 },
+        { id: '2.5.5', title: 'Target Size (Enhanced)', slug: 'target-size-enhanced', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_1 },
+        { id: '2.5.6', title: 'Concurrent Input Mechanisms', slug: 'concurrent-input-mechanisms', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_1 },
+        { id: '2.5.7', title: 'Dragging Movements', slug: 'dragging-movements', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_2 },
+        { id: '2.5.8', title: 'Target Size (Minimum)', slug: 'target-size-minimum', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_2 },
+        { id: '3.1.1', title: 'Language of Page', slug: 'language-of-page', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.1.2', title: 'Language of Parts', slug: 'language-of-parts', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.1.3', title: 'Unusual Words', slug: 'unusual-words', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.1.4', title: 'Abbreviations', slug: 'abbreviations', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.1.5', title: 'Reading Level', slug: 'reading-level', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.1.6', title: 'Pronunciation', slug: 'pronunciation', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.2.1', title: 'On Focus', slug: 'on-focus', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.2.2', title: 'On Input', slug: 'on-input', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.2.3', title: 'Consistent Navigation', slug: 'consistent-navigation', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.2.4', title: 'Consistent Identification', slug: 'consistent-identification', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.2.5', title: 'Change on Request', slug: 'change-on-request', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.2.6', title: 'Consistent Help', slug: 'consistent-help', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_2 },
+        { id: '3.3.1', title: 'Error Identification', slug: 'error-identification', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.3.2', title: 'Labels or Instructions', slug: 'labels-or-instructions', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.3.3', title: 'Error Suggestion', slug: 'error-suggestion', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.3.4', title: 'Error Prevention (Legal, Financial, Data)', slug: 'error-prevention-legal-financial-data', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.3.5', title: 'Help', slug: 'help', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.3.6', title: 'Error Prevention (All)', slug: 'error-prevention-all', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_0 },
+        { id: '3.3.7', title: 'Redundant Entry', slug: 'redundant-entry', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_2 },
+        { id: '3.3.8', title: 'Accessible Authentication (Minimum)', slug: 'accessible-authentication-minimum', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_2 },
+        { id: '3.3.9', title: 'Accessible Authentication (Enhanced)', slug: 'accessible-authentication-enhanced', level: WCAGLevel.AAA, since: WCAGVersion.WCAG_2_2 },
+        { id: '4.1.1', title: 'Parsing', slug: 'parsing', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0, obsoleteIn: WCAGVersion.WCAG_2_2 },
+        { id: '4.1.2', title: 'Name, Role, Value', slug: 'name-role-value', level: WCAGLevel.A, since: WCAGVersion.WCAG_2_0 },
+        { id: '4.1.3', title: 'Status Messages', slug: 'status-messages', level: WCAGLevel.AA, since: WCAGVersion.WCAG_2_1 }
+    ];
+
+    /**
+     * Success criteria each issue type tests; the first is the default
+     * Individual checks report one of the others where it fits better (e.g.
+     * 2.4.9 for link text that is only ambiguous out of context).
+     */
+    private static readonly ISSUE_CRITERIA: Record<IssueType, string[]> = {
+        [IssueType.MISSING_ALT_TEXT]: ['1.1.1'],
+        [IssueType.MISSING_ARIA_LABEL]: ['4.1.2'],
+        [IssueType.INVALID_ARIA_ATTRIBUTE]: ['4.1.2'],
+        [IssueType.LOW_COLOR_CONTRAST]: ['1.4.3'],
+        [IssueType.MISSING_FORM_LABEL]: ['3.3.2'],
+        [IssueType.MISSING_HEADING_STRUCTURE]: ['1.3.1', '2.4.6'],
+        [IssueType.MISSING_LANG_ATTRIBUTE]: ['3.1.1'],
+        [IssueType.KEYBOARD_TRAP]: ['2.1.1'],
+        [IssueType.MISSING_FOCUS_INDICATOR]: ['2.4.7'],
+        [IssueType.IMPROPER_TAB_INDEX]: ['2.4.3'],
+        [IssueType.MISSING_ROLE]: ['4.1.2'],
+        [IssueType.REDUNDANT_TITLE]: ['4.1.2'],
+        [IssueType.EMPTY_LINK]: ['2.4.4'],
+        [IssueType.EMPTY_BUTTON]: ['4.1.2'],
+        [IssueType.LANDMARK_STRUCTURE]: ['2.4.1'],
+        [IssueType.DUPLICATE_ID]: ['4.1.1', '1.3.1'],
+        [IssueType.TABLE_STRUCTURE]: ['1.3.1'],
+        [IssueType.MISSING_CAPTIONS]: ['1.2.2'],
+        [IssueType.MISSING_TRANSCRIPT]: ['1.2.1'],
+        [IssueType.AUTOPLAY_AUDIO]: ['1.4.2'],
+        [IssueType.MISSING_FRAME_TITLE]: ['4.1.2'],
+        [IssueType.MISSING_OBJECT_ALTERNATIVE]: ['1.1.1'],
+        [IssueType.FORM_GROUPING]: ['1.3.1'],
+        [IssueType.INVALID_AUTOCOMPLETE]: ['1.3.5'],
+        [IssueType.MISSING_REQUIRED_STATE]: ['3.3.2'],
+        [IssueType.MISSING_ERROR_MESSAGE]: ['3.3.1'],
+        [IssueType.AMBIGUOUS_LINK_TEXT]: ['2.4.4', '2.4.9'],
+        [IssueType.NEW_WINDOW_WITHOUT_WARNING]: ['3.2.5'],
+        [IssueType.POOR_ALT_TEXT]: ['1.1.1'],
+        [IssueType.MISSING_PAGE_TITLE]: ['2.4.2'],
+        [IssueType.VIEWPORT_ZOOM_DISABLED]: ['1.4.4'],
+        [IssueType.META_REFRESH]: ['2.2.1'],
+        [IssueType.INVALID_LANG_ATTRIBUTE]: ['3.1.2', '3.1.1'],
+        [IssueType.TARGET_SIZE]: ['2.5.8'],
+        [IssueType.FOCUS_NOT_OBSCURED]: ['2.4.11'],
+        [IssueType.DRAGGING_MOVEMENT]: ['2.5.7'],
+        [IssueType.INACCESSIBLE_AUTHENTICATION]: ['3.3.8']
+    };
+
+    /**
+     * Get a success criterion by number, e.g. "1.4.3"
+     */
+    public getCriterion(id: string): SuccessCriterion | undefined {
+        return WCAGCriteria.CRITERIA.find(criterion => criterion.id === id);
+    }
+
+    /**
+     * Get the success criterion an issue type tests by default
+     * @param version - Prefer the first criterion that is part of this WCAG version,
+     * so findings of an obsolete criterion (e.g. 4.1.1 in 2.2) keep a current one
+     */
+    public getCriterionForIssue(type: IssueType, version?: WCAGVersion): string {
+        const criteria = WCAGCriteria.ISSUE_CRITERIA[type];
+
+        return (version && criteria.find(id => this.appliesTo(id, version))) || criteria[0];
+    }
+
+    /**
+     * Get the success criteria of a WCAG version that at least one check tests
+     */
+    public getTestedCriteria(version: WCAGVersion): SuccessCriterion[] {
+        const tested = new Set(Object.values(WCAGCriteria.ISSUE_CRITERIA).flat());
+        return this.getCriteria(version).filter(criterion => tested.has(criterion.id));
+    }
+
+    /**
+     * Check whether a success criterion is part of a WCAG version
+     */
+    public appliesTo(id: string, version: WCAGVersion): boolean {
+        const criterion = this.getCriterion(id);
+        if (!criterion) {
+            return false;
+        }
+
+        const index = WCAGCriteria.VERSIONS.indexOf(version);
+        return WCAGCriteria.VERSIONS.indexOf(criterion.since) <= index &&
+            (criterion.obsoleteIn === undefined || WCAGCriteria.VERSIONS.indexOf(criterion.obsoleteIn) > index);
+    }
+
+    /**
+     * Get the WCAG versions a success criterion belongs to
+     */
+    public getVersions(id: string): WCAGVersion[] {
+        return WCAGCriteria.VERSIONS.filter(version => this.appliesTo(id, version));
+    }
+
+    /**
+     * Get every success criterion of a WCAG version, optionally up to a conformance level
+     * @param level - Include criteria at this level and below (A < AA < AAA)
+     */
+    public getCriteria(version: WCAGVersion, level: WCAGLevel = WCAGLevel.AAA): SuccessCriterion[] {
+        const levels = [WCAGLevel.A, WCAGLevel.AA, WCAGLevel.AAA];
+
+        return WCAGCriteria.CRITERIA.filter(criterion =>
+            this.appliesTo(criterion.id, version) && levels.indexOf(criterion.level) <= levels.indexOf(level));
+    }
+
+    /**
+     * Get the quick reference link for a success criterion, filtered to a WCAG version
+     */
+    public getDocumentationLink(id: string, version: WCAGVersion): string {
+        const criterion = this.getCriterion(id);
+        const query = version === WCAGVersion.WCAG_2_2 ? '' : `?versions=${version}`;
+
+        return `${WCAGCriteria.QUICKREF_URL}${query}${criterion ? `#${criterion.slug}` : ''}`;
+    }
+}